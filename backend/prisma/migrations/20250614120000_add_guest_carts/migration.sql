@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "guest_carts" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "guest_carts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "guest_cart_items" (
+    "id" SERIAL NOT NULL,
+    "guestCartId" TEXT NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "guest_cart_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_cart_items_guestCartId_productId_key" ON "guest_cart_items"("guestCartId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "guest_cart_items" ADD CONSTRAINT "guest_cart_items_guestCartId_fkey" FOREIGN KEY ("guestCartId") REFERENCES "guest_carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "guest_cart_items" ADD CONSTRAINT "guest_cart_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "addresses" ADD COLUMN     "archived_at" TIMESTAMP(3),
+ADD COLUMN     "is_default" BOOLEAN NOT NULL DEFAULT false;
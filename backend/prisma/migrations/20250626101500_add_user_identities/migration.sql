@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "user_identities" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "provider" "AuthProvider" NOT NULL,
+    "provider_account_id" TEXT NOT NULL,
+    "email" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3),
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_provider_provider_account_id_key" ON "user_identities"("provider", "provider_account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_userId_provider_key" ON "user_identities"("userId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: una identidad por usuario existente según su proveedor de registro
+-- Las cuentas de Google aún no tienen guardado el claim sub: se usa el correo de forma provisional
+-- y se reemplaza por el sub en el siguiente inicio de sesión con Google
+INSERT INTO "user_identities" ("userId", "provider", "provider_account_id", "email", "created_at")
+SELECT "id",
+       "auth_provider",
+       CASE WHEN "auth_provider" = 'LOCAL' THEN "id"::TEXT ELSE "email" END,
+       "email",
+       "created_at"
+FROM "users"
+WHERE "auth_provider" <> 'LOCAL' OR "password_hash" <> '';
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "login_throttles" (
+    "key" TEXT NOT NULL,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "last_failed_at" TIMESTAMP(3) NOT NULL,
+    "locked_until" TIMESTAMP(3),
+
+    CONSTRAINT "login_throttles_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('LOGIN', 'GOOGLE_LOGIN', 'TWO_FACTOR_LOGIN', 'PASSWORD_RESET_REQUEST', 'PASSWORD_RESET', 'ROLE_CHANGE', 'ADMIN_USER_READ');
+
+-- CreateEnum
+CREATE TYPE "AuditResult" AS ENUM ('SUCCESS', 'FAILURE');
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" SERIAL NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "result" "AuditResult" NOT NULL,
+    "actorId" INTEGER,
+    "targetUserId" INTEGER,
+    "ip" TEXT,
+    "user_agent" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events"("created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_created_at_idx" ON "audit_events"("action", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorId_created_at_idx" ON "audit_events"("actorId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_targetUserId_created_at_idx" ON "audit_events"("targetUserId", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_SUSPEND';
+ALTER TYPE "AuditAction" ADD VALUE 'USER_REACTIVATE';
+ALTER TYPE "AuditAction" ADD VALUE 'USER_DELETE';
+ALTER TYPE "AuditAction" ADD VALUE 'IMPERSONATION_START';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "suspended_at" TIMESTAMP(3),
+ADD COLUMN     "suspension_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "impersonatorId" INTEGER;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "mail_outbox" ALTER COLUMN "text" DROP NOT NULL;
+
+-- Borrar el contenido de los correos ya enviados y de los que llevan enlaces de un solo uso
+UPDATE "mail_outbox" SET "text" = NULL, "html" = NULL
+WHERE "status" = 'SENT' OR "template" IN ('email-verification', 'password-reset');
+
+-- CreateIndex
+CREATE INDEX "mail_outbox_created_at_idx" ON "mail_outbox"("created_at");
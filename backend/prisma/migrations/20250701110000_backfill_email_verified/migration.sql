@@ -0,0 +1,9 @@
+-- Las cuentas creadas antes de la verificación del correo no recibieron el enlace:
+-- se dan por verificadas para que puedan seguir comprando
+UPDATE "users" SET "email_verified" = true
+WHERE "email_verified" = false
+  AND "deleted_at" IS NULL
+  AND "created_at" < (
+    SELECT MAX("finished_at") FROM "_prisma_migrations"
+    WHERE "migration_name" = '20250624110000_add_email_verification_tokens'
+  );
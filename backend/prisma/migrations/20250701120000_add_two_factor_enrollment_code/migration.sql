@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "two_factor_auth" ADD COLUMN     "enrollment_code_expires_at" TIMESTAMP(3),
+ADD COLUMN     "enrollment_code_hash" TEXT;
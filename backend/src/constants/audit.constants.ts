@@ -0,0 +1,9 @@
+/**
+ * Constantes relacionadas con el registro de auditoría
+ */
+
+export const AUDIT_CONFIG = {
+  RETENTION_DAYS: parseInt(process.env.AUDIT_RETENTION_DAYS || '365', 10), // Antigüedad máxima de los eventos
+  PURGE_INTERVAL_MS: 24 * 60 * 60 * 1000, // Purga de eventos vencidos una vez al día
+  USER_AGENT_MAX_LENGTH: 512
+};
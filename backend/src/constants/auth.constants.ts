@@ -2,27 +2,120 @@
  * Constantes relacionadas con la autenticación
  */
 
+// Duración del token de acceso en segundos (15 minutos por defecto)
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL) || 15 * 60;
+
+// Duración del refresh token en días (30 días por defecto)
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
 export const JWT_CONFIG = {
-  EXPIRES_IN: '7d',
+  ACCESS_TOKEN_TTL,
   COOKIE_NAME: 'token',
   COOKIE_OPTIONS: {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'strict' as const,
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 días en milisegundos
+    maxAge: ACCESS_TOKEN_TTL * 1000, // Misma duración que el token, en milisegundos
     path: '/',
     domain: process.env.NODE_ENV === 'production' ? '.tudominio.com' : undefined
   }
 };
 
+export const REFRESH_TOKEN_CONFIG = {
+  TTL_DAYS: REFRESH_TOKEN_TTL_DAYS,
+  /** Margen (ms) en el que un token recién rotado devuelve su sucesor en vez de tratarse como reutilización */
+  REUSE_GRACE_MS: 10 * 1000,
+  COOKIE_NAME: 'refresh_token',
+  COOKIE_OPTIONS: {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000, // En milisegundos
+    path: '/api', // Solo se envía a la API (refresh y logout)
+    domain: process.env.NODE_ENV === 'production' ? '.tudominio.com' : undefined
+  }
+};
+
+export const PASSWORD_RESET_CONFIG = {
+  /** Minutos de validez del enlace de restablecimiento (60 por defecto) */
+  TOKEN_TTL_MINUTES: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
+  /** Ruta del frontend que recibe el token (?token=...) */
+  FRONTEND_PATH: '/auth/reset-password'
+};
+
+export const EMAIL_VERIFICATION_CONFIG = {
+  /** Horas de validez del enlace de verificación (24 por defecto) */
+  TOKEN_TTL_HOURS: Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24,
+  /** Ruta del frontend que recibe el token (?token=...) */
+  FRONTEND_PATH: '/auth/verify-email',
+  /** Ventana y máximo de reenvíos del correo de verificación por usuario */
+  RESEND_WINDOW_MS: 15 * 60 * 1000, // 15 minutos
+  RESEND_MAX: 3
+};
+
+export const TWO_FACTOR_CONFIG = {
+  /** Exigir la verificación en dos pasos a todos los administradores */
+  REQUIRED_FOR_ADMINS: process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS === 'true',
+  /** Emisor que muestran las apps de autenticación (Google Authenticator, Authy, ...) */
+  ISSUER: 'Jazila Bazar',
+  /** Parámetros TOTP (RFC 6238) */
+  PERIOD_SECONDS: 30,
+  DIGITS: 6,
+  /** Intervalos de tolerancia antes y después del actual (desfase del reloj) */
+  WINDOW: 1,
+  /** Duración del token del desafío entre la contraseña y el código, en segundos */
+  CHALLENGE_TTL: 5 * 60,
+  /** Códigos de recuperación generados al activar la verificación */
+  RECOVERY_CODES: 10,
+  /** Validez del código enviado por correo para confirmar la activación cuando es obligatoria */
+  ENROLLMENT_CODE_TTL_MINUTES: 15,
+  /** Códigos incorrectos permitidos antes de bloquear temporalmente la verificación */
+  MAX_FAILED_ATTEMPTS: 5,
+  LOCK_MINUTES: 15,
+  /** Ventana y máximo de intentos del segundo paso del inicio de sesión por IP */
+  LOGIN_WINDOW_MS: 15 * 60 * 1000, // 15 minutos
+  LOGIN_MAX: 10
+};
+
+export const LOGIN_THROTTLE_CONFIG = {
+  /** Intentos fallidos por cuenta (correo): sin espera hasta FREE_ATTEMPTS, bloqueo desde LOCK_THRESHOLD */
+  ACCOUNT: { FREE_ATTEMPTS: 3, LOCK_THRESHOLD: 10 },
+  /** Intentos fallidos por IP (cubre los ataques que prueban muchas cuentas) */
+  IP: { FREE_ATTEMPTS: 10, LOCK_THRESHOLD: 50 },
+  /** Espera tras un intento fallido: se duplica con cada fallo adicional hasta MAX_DELAY_MS */
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30 * 1000,
+  /** Duración del bloqueo temporal */
+  LOCK_MINUTES: Number(process.env.LOGIN_LOCK_MINUTES) || 15,
+  /** Los contadores se reinician tras este tiempo sin intentos fallidos */
+  RESET_AFTER_MINUTES: 60
+};
+
+export const IMPERSONATION_CONFIG = {
+  /** Duración del token de suplantación en segundos (no se puede renovar) */
+  TOKEN_TTL: (Number(process.env.IMPERSONATION_TTL_MINUTES) || 15) * 60
+};
+
 export const BCRYPT_CONFIG = {
   SALT_ROUNDS: 10
 };
 
 export const AUTH_ERRORS = {
-  INVALID_CREDENTIALS: 'Credenciales inválidas',
+  INVALID_CREDENTIALS: 'Correo o contraseña incorrectos',
   EMAIL_ALREADY_EXISTS: 'El correo electrónico ya está registrado',
   USER_NOT_FOUND: 'Usuario no encontrado',
   INVALID_AUTH_PROVIDER: 'Método de autenticación no válido',
-  ACCOUNT_EXISTS_WITH_DIFFERENT_PROVIDER: 'Esta cuenta ya está registrada con otro método de autenticación'
+  ACCOUNT_EXISTS_WITH_DIFFERENT_PROVIDER: 'Esta cuenta ya está registrada con otro método de autenticación',
+  INVALID_REFRESH_TOKEN: 'La sesión no es válida o expiró, inicia sesión de nuevo',
+  INVALID_RESET_TOKEN: 'El enlace para restablecer la contraseña no es válido o expiró',
+  INVALID_VERIFICATION_TOKEN: 'El enlace de verificación no es válido o expiró',
+  EMAIL_NOT_VERIFIED: 'Debes verificar tu correo electrónico para realizar esta acción',
+  INVALID_TWO_FACTOR_CODE: 'El código de verificación no es válido',
+  INVALID_TWO_FACTOR_CHALLENGE: 'La verificación expiró, inicia sesión de nuevo',
+  TWO_FACTOR_LOCKED: 'Demasiados códigos incorrectos, intenta de nuevo más tarde',
+  INVALID_TWO_FACTOR_ENROLLMENT_CODE: 'El código enviado a tu correo no es válido o expiró',
+  TOO_MANY_LOGIN_ATTEMPTS: 'Demasiados intentos fallidos de inicio de sesión, intenta de nuevo más tarde',
+  TWO_FACTOR_REQUIRED_FOR_ADMIN: 'Debes activar la verificación en dos pasos para acceder a la administración',
+  ACCOUNT_SUSPENDED: 'Tu cuenta está suspendida. Contacta con soporte para más información',
+  IMPERSONATION_READ_ONLY: 'Las sesiones de suplantación son de solo lectura'
 };
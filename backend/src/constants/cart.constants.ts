@@ -0,0 +1,14 @@
+/**
+ * Constantes relacionadas con el carrito de compras
+ */
+
+export const GUEST_CART_CONFIG = {
+  COOKIE_NAME: 'guest_cart',
+  COOKIE_OPTIONS: {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 días en milisegundos
+    path: '/'
+  }
+};
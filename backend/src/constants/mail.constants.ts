@@ -0,0 +1,50 @@
+/**
+ * Constantes relacionadas con el envío de correos
+ */
+
+export const MAIL_CONFIG = {
+  /** Transporte de correo: 'console' (por defecto), 'file' o 'smtp' */
+  TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  /** Remitente de los correos */
+  FROM: process.env.MAIL_FROM || 'Jazila Bazar <no-reply@jazilabazar.com>',
+  /** Carpeta donde el transporte 'file' guarda los mensajes */
+  OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || 'mail-outbox',
+  /** URL del frontend para construir los enlaces de los correos */
+  FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
+  /** Ruta del frontend con el detalle de los pedidos del cliente */
+  ORDERS_PATH: '/orders',
+  /** Nombre de la tienda que se muestra en las plantillas */
+  STORE_NAME: 'Jazila Bazar'
+};
+
+/**
+ * Conexión del transporte 'smtp'
+ */
+export const SMTP_CONFIG = {
+  HOST: process.env.SMTP_HOST || 'localhost',
+  PORT: Number(process.env.SMTP_PORT) || 587,
+  /** true para TLS directo (puerto 465); con false se usa STARTTLS si el servidor lo ofrece */
+  SECURE: process.env.SMTP_SECURE === 'true',
+  USER: process.env.SMTP_USER || '',
+  PASS: process.env.SMTP_PASS || ''
+};
+
+/**
+ * Reintentos de la bandeja de salida (tabla mail_outbox)
+ */
+export const MAIL_OUTBOX_CONFIG = {
+  /** Intentos de envío antes de marcar el mensaje como fallido */
+  MAX_ATTEMPTS: Number(process.env.MAIL_MAX_ATTEMPTS) || 5,
+  /** Espera antes del primer reintento; se duplica en cada intento fallido */
+  RETRY_BASE_DELAY_MS: 60 * 1000, // 1 minuto
+  /** Tiempo que un mensaje queda reservado mientras se envía (evita envíos duplicados) */
+  LOCK_MS: 2 * 60 * 1000, // 2 minutos
+  /** Frecuencia con la que se procesan los reintentos pendientes */
+  WORKER_INTERVAL_MS: 30 * 1000, // 30 segundos
+  /** Mensajes procesados en cada pasada */
+  BATCH_SIZE: 20,
+  /** Días que se conservan los mensajes en la bandeja de salida antes de purgarlos */
+  RETENTION_DAYS: Number(process.env.MAIL_OUTBOX_RETENTION_DAYS) || 30,
+  /** Frecuencia de la purga de mensajes antiguos */
+  PURGE_INTERVAL_MS: 24 * 60 * 60 * 1000 // 1 día
+};
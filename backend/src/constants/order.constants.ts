@@ -0,0 +1,42 @@
+/**
+ * Constantes relacionadas con los pedidos
+ */
+
+import { OrderStatus } from '@prisma/client';
+
+/**
+ * Transiciones de estado permitidas para un pedido
+ * - PENDING → SHIPPED cubre los pedidos con pago contra entrega
+ * - DELIVERED y CANCELLED son estados finales
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PAID', 'SHIPPED', 'CANCELLED'],
+  PAID: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: []
+};
+
+/**
+ * Estados que generan el registro de venta (sales) del pedido
+ * El registro se crea en el primero de estos estados que alcance el pedido
+ */
+export const SALE_RECORDING_STATUSES: OrderStatus[] = ['PAID', 'DELIVERED'];
+
+/**
+ * Estados de los pedidos aún abiertos (pendientes de pago, de envío o de entrega)
+ * Mientras un cliente tenga alguno, su cuenta no se puede eliminar: el pedido necesita
+ * la dirección de entrega completa
+ */
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['PENDING', 'PAID', 'SHIPPED'];
+
+/**
+ * Nombre de cada estado para mostrar al cliente (notificaciones y correos)
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: 'pendiente',
+  PAID: 'pagado',
+  SHIPPED: 'enviado',
+  DELIVERED: 'entregado',
+  CANCELLED: 'cancelado'
+};
@@ -0,0 +1,8 @@
+/**
+ * Constantes relacionadas con los productos
+ */
+
+export const PRODUCT_CONFIG = {
+  /** Stock a partir del cual se envía una alerta de stock bajo a los administradores */
+  LOW_STOCK_THRESHOLD: Number(process.env.LOW_STOCK_THRESHOLD) || 5
+};
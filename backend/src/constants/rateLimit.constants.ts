@@ -0,0 +1,101 @@
+/**
+ * Constantes relacionadas con el límite de peticiones (rate limiting)
+ */
+
+import { EMAIL_VERIFICATION_CONFIG, TWO_FACTOR_CONFIG } from './auth.constants';
+
+/**
+ * Cómo se identifica al cliente de cada política
+ * - ip: por dirección IP (rutas públicas)
+ * - user: por ID del usuario autenticado (por IP si la petición no está autenticada)
+ */
+export type RateLimitKeyType = 'ip' | 'user';
+
+/**
+ * Métodos que alcanza cada política
+ * - read: solo lecturas (GET, HEAD, OPTIONS)
+ * - write: solo escrituras (POST, PUT, PATCH, DELETE)
+ * - all: todas las peticiones
+ */
+export type RateLimitMethodScope = 'read' | 'write' | 'all';
+
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+  keyBy: RateLimitKeyType;
+  methods: RateLimitMethodScope;
+  message: string;
+}
+
+/**
+ * Políticas de límite de peticiones con nombre
+ * Cada router declara las que aplica, de modo que el tráfico del catálogo no consume
+ * el cupo de las rutas de autenticación
+ */
+export const RATE_LIMIT_POLICIES = {
+  // Rutas que reciben credenciales (inicio de sesión, registro, restablecimiento)
+  auth: {
+    windowMs: 15 * 60 * 1000, // 15 minutos
+    max: 20,
+    keyBy: 'ip',
+    methods: 'all',
+    message: 'Demasiados intentos desde esta IP, por favor intente de nuevo más tarde.'
+  },
+  // Lecturas públicas del catálogo (productos, categorías, reseñas y preguntas)
+  catalog: {
+    windowMs: 60 * 1000, // 1 minuto
+    max: 300,
+    keyBy: 'ip',
+    methods: 'read',
+    message: 'Demasiadas peticiones desde esta IP, por favor intente de nuevo más tarde.'
+  },
+  // Escrituras de usuarios autenticados, contadas por usuario
+  userWrite: {
+    windowMs: 60 * 1000, // 1 minuto
+    max: 60,
+    keyBy: 'user',
+    methods: 'write',
+    message: 'Has realizado demasiadas operaciones, intenta de nuevo en un momento.'
+  },
+  // Rutas públicas sin credenciales (renovación y cierre de sesión, carrito de invitado)
+  general: {
+    windowMs: 15 * 60 * 1000, // 15 minutos
+    max: 600,
+    keyBy: 'ip',
+    methods: 'all',
+    message: 'Demasiadas peticiones desde esta IP, por favor intente de nuevo más tarde.'
+  },
+  // Todas las peticiones de usuarios autenticados, contadas por usuario (después de authenticate)
+  authenticated: {
+    windowMs: 15 * 60 * 1000, // 15 minutos
+    max: 600,
+    keyBy: 'user',
+    methods: 'all',
+    message: 'Has realizado demasiadas peticiones, intenta de nuevo más tarde.'
+  },
+  // Reenvíos del correo de verificación (evita el envío masivo de correos)
+  emailVerificationResend: {
+    windowMs: EMAIL_VERIFICATION_CONFIG.RESEND_WINDOW_MS,
+    max: EMAIL_VERIFICATION_CONFIG.RESEND_MAX,
+    keyBy: 'user',
+    methods: 'all',
+    message: 'Has solicitado demasiados correos de verificación, intenta de nuevo más tarde.'
+  },
+  // Segundo paso del inicio de sesión (complementa el bloqueo por usuario)
+  twoFactorLogin: {
+    windowMs: TWO_FACTOR_CONFIG.LOGIN_WINDOW_MS,
+    max: TWO_FACTOR_CONFIG.LOGIN_MAX,
+    keyBy: 'ip',
+    methods: 'all',
+    message: 'Demasiados intentos de verificación, intenta de nuevo más tarde.'
+  }
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export const RATE_LIMIT_STORE_CONFIG = {
+  KEY_PREFIX: process.env.RATE_LIMIT_KEY_PREFIX || 'rl:', // Prefijo de las claves (compartidas entre instancias)
+  MEMORY_CLEANUP_INTERVAL_MS: 60 * 1000, // Limpieza de contadores vencidos del almacén en memoria
+  REDIS_CONNECT_TIMEOUT_MS: 5 * 1000, // Espera máxima al conectar con Redis
+  REDIS_COMMAND_TIMEOUT_MS: 500 // Espera máxima de cada comando; después la petición pasa sin límite
+};
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import * as addressService from '../services/addressService';
+import { createAddressSchema, updateAddressSchema } from '../schemas/address.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+
+/**
+ * @desc    Listar las direcciones del usuario autenticado
+ * @route   GET /api/addresses
+ * @access  Private
+ */
+export const getAddresses = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const addresses = await addressService.listAddresses(Number(req.user!.userId));
+
+    res.status(200).json({
+      success: true,
+      count: addresses.length,
+      data: addresses
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Obtener una dirección
+ * @route   GET /api/addresses/:id
+ * @access  Private (propietario o administrador)
+ */
+export const getAddress = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Dirección'));
+    }
+
+    const address = await addressService.getAddress(id);
+
+    res.status(200).json({
+      success: true,
+      data: address
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Crear una dirección
+ * @route   POST /api/addresses
+ * @access  Private
+ */
+export const createAddress = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = createAddressSchema.parse(req.body);
+    const address = await addressService.createAddress(Number(req.user!.userId), data);
+
+    res.status(201).json({
+      success: true,
+      data: address
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Actualizar una dirección
+ * @route   PUT /api/addresses/:id
+ * @access  Private (propietario o administrador)
+ */
+export const updateAddress = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Dirección'));
+    }
+
+    const data = updateAddressSchema.parse(req.body);
+    const address = await addressService.updateAddress(id, data);
+
+    res.status(200).json({
+      success: true,
+      data: address
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Marcar una dirección como predeterminada
+ * @route   PUT /api/addresses/:id/default
+ * @access  Private (propietario o administrador)
+ */
+export const setDefaultAddress = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Dirección'));
+    }
+
+    const address = await addressService.setDefaultAddress(id);
+
+    res.status(200).json({
+      success: true,
+      data: address
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar una dirección (se archiva si ya se usó en pedidos)
+ * @route   DELETE /api/addresses/:id
+ * @access  Private (propietario o administrador)
+ */
+export const deleteAddress = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Dirección'));
+    }
+
+    await addressService.deleteAddress(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Dirección eliminada correctamente'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import * as auditService from '../services/auditService';
+import { auditEventQuerySchema } from '../schemas/audit.schema';
+
+/**
+ * @desc    Consultar el registro de auditoría (filtros: action, result, actorId, targetUserId, ip, from, to)
+ * @route   GET /api/admin/audit-events
+ * @access  Private/Admin
+ */
+export const getAuditEvents = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = auditEventQuerySchema.parse(req.query);
+    const { events, pagination } = await auditService.listAuditEvents(query);
+
+    res.status(200).json({
+      success: true,
+      count: events.length,
+      pagination,
+      data: events
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -4,23 +4,74 @@
  * - Registro de usuarios
  * - Inicio de sesión con credenciales locales
  * - Autenticación con Google OAuth
- * - Cierre de sesión
+ * - Segundo paso del inicio de sesión (verificación en dos pasos)
+ * - Renovación de la sesión con refresh tokens rotativos
+ * - Cierre de sesión (actual o en todos los dispositivos)
+ * - Cambio de contraseña
  * - Obtención de perfil de usuario
- * - Restablecimiento de contraseña
+ * - Restablecimiento de contraseña con enlace de un solo uso enviado por correo
+ * - Verificación del correo electrónico
  */
 
 // Importación de dependencias
 import { Request, Response, NextFunction } from 'express'; // Tipos de Express
-import { OAuth2Client } from 'google-auth-library'; // Cliente de Google OAuth
 import * as authService from '../services/authService'; // Servicio de autenticación
-import { createError, unauthorized, ERROR_TYPES } from '../middleware/errorHandler'; // Utilidades para manejo de errores
+import * as cartService from '../services/cartService'; // Servicio del carrito (fusión del carrito de invitado)
+import * as sessionService from '../services/sessionService'; // Sesiones del servidor (revocación)
+import * as passwordResetService from '../services/passwordResetService'; // Restablecimiento de contraseña por correo
+import * as emailVerificationService from '../services/emailVerificationService'; // Verificación del correo
+import { recordAuditEvent } from '../services/auditService'; // Registro de auditoría
+import { createError, unauthorized } from '../middleware/errorHandler'; // Utilidades para manejo de errores
+import { GUEST_CART_CONFIG } from '../constants/cart.constants'; // Configuración de la cookie del carrito de invitado
+import { AUTH_ERRORS, JWT_CONFIG, REFRESH_TOKEN_CONFIG } from '../constants/auth.constants'; // Mensajes de error y configuración de las cookies de sesión
+import { AuthTokens } from '../types/user.types'; // Tokens emitidos al autenticar
+import { GoogleProfile, verifyGoogleIdToken } from '../utils/googleAuth'; // Verificación de los ID tokens de Google
+import { twoFactorLoginSchema } from '../schemas/twoFactor.schema'; // Segundo paso del inicio de sesión
+import { getRequestContext } from '../utils/requestContext'; // Origen de la petición (auditoría)
+import logger from '../utils/logger'; // Registro de eventos
 
 /**
- * Configuración del cliente de Google OAuth
- * Se utiliza para verificar los tokens de autenticación de Google
+ * Fusiona el carrito de invitado (si existe la cookie) con el carrito del usuario autenticado
+ * Un fallo en la fusión no debe impedir el inicio de sesión, por lo que solo se registra
+ * @param req - Objeto de solicitud de Express
+ * @param res - Objeto de respuesta de Express (para eliminar la cookie del carrito de invitado)
+ * @param userId - ID del usuario que acaba de autenticarse
+ */
+const mergeGuestCart = async (req: Request, res: Response, userId: number): Promise<void> => {
+  const guestCartId = req.cookies?.[GUEST_CART_CONFIG.COOKIE_NAME];
+  if (!guestCartId) {
+    return;
+  }
+
+  try {
+    await cartService.mergeGuestCart(userId, guestCartId);
+  } catch (error) {
+    logger.error(`Error al fusionar el carrito de invitado para el usuario ${userId}:`, error);
+  } finally {
+    res.clearCookie(GUEST_CART_CONFIG.COOKIE_NAME, { path: GUEST_CART_CONFIG.COOKIE_OPTIONS.path });
+  }
+};
+
+/**
+ * Guarda el token de acceso y el refresh token en cookies HTTP-only seguras
+ * @param res - Objeto de respuesta de Express
+ * @param tokens - Tokens emitidos por el servicio de autenticación
+ */
+const setAuthCookies = (res: Response, { token, refreshToken }: AuthTokens): void => {
+  res.cookie(JWT_CONFIG.COOKIE_NAME, token, JWT_CONFIG.COOKIE_OPTIONS);
+  res.cookie(REFRESH_TOKEN_CONFIG.COOKIE_NAME, refreshToken, REFRESH_TOKEN_CONFIG.COOKIE_OPTIONS);
+};
+
+/**
+ * Elimina las cookies de sesión
+ * @param res - Objeto de respuesta de Express
  */
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || '';
-const googleClient = new OAuth2Client(GOOGLE_CLIENT_ID);
+const clearAuthCookies = (res: Response): void => {
+  const { maxAge: _accessMaxAge, ...accessCookieOptions } = JWT_CONFIG.COOKIE_OPTIONS;
+  const { maxAge: _refreshMaxAge, ...refreshCookieOptions } = REFRESH_TOKEN_CONFIG.COOKIE_OPTIONS;
+  res.clearCookie(JWT_CONFIG.COOKIE_NAME, accessCookieOptions);
+  res.clearCookie(REFRESH_TOKEN_CONFIG.COOKIE_NAME, refreshCookieOptions);
+};
 
 /**
  * Controlador para el registro de nuevos usuarios
@@ -34,25 +85,18 @@ export const registerHandler = async (req: Request, res: Response, next: NextFun
     const { name, email, password } = req.body;
     console.log(`[REGISTER] Intento de registro para: ${email}`);
     
-    const token = await authService.registerUser(name, email, password);
+    const { user, ...tokens } = await authService.registerUser(name, email, password);
     console.log(`[REGISTER] Usuario registrado exitosamente: ${email}`);
     
-    // Configura la cookie HTTP-only segura
-    const cookieOptions = {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict' as const,
-      maxAge: 7 * 24 * 60 * 60 * 1000 // 7 días
-    };
+    await mergeGuestCart(req, res, user.id);
     
-    console.log(`[REGISTER] Configurando cookie para usuario: ${email}`);
-    res.cookie('token', token, cookieOptions);
+    setAuthCookies(res, tokens);
     
     console.log(`[REGISTER] Respuesta enviada para: ${email}`);
     res.status(201).json({ 
       success: true, 
       data: { 
-        token,
+        ...tokens,
         user: { name, email }
       } 
     });
@@ -66,7 +110,8 @@ export const registerHandler = async (req: Request, res: Response, next: NextFun
  * @param req - Objeto de solicitud de Express (debe contener email y password)
  * @param res - Objeto de respuesta de Express
  * @param next - Función para pasar al siguiente middleware
- * @returns Respuesta JSON con el token JWT y los datos del usuario
+ * @returns Respuesta JSON con el token JWT y los datos del usuario, o con el desafío
+ *          de la verificación en dos pasos ({ twoFactorRequired, challengeToken })
  */
 export const loginHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -80,27 +125,28 @@ export const loginHandler = async (req: Request, res: Response, next: NextFuncti
 
     try {
       console.log(`[LOGIN] Validando credenciales para: ${email}`);
-      const { token, user } = await authService.loginUser(email, password);
+      const result = await authService.loginUser(email, password, getRequestContext(req));
+      
+      // Cuenta con verificación en dos pasos: se devuelve el desafío en lugar de los tokens
+      if ('twoFactorRequired' in result) {
+        res.status(200).json({ success: true, data: result });
+        return;
+      }
+      
+      const { user, ...tokens } = result;
       
       console.log(`[LOGIN] Credenciales válidas para: ${email}`);
       console.log(`[LOGIN] ID de usuario: ${user.id}, Rol: ${user.role}`);
       
-      // Configura la cookie HTTP-only segura
-      const cookieOptions = {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict' as const,
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 días
-      };
+      await mergeGuestCart(req, res, user.id);
       
-      console.log(`[LOGIN] Configurando cookie para usuario: ${email}`);
-      res.cookie('token', token, cookieOptions);
+      setAuthCookies(res, tokens);
       
       console.log(`[LOGIN] Inicio de sesión exitoso para: ${email}`);
       res.status(200).json({ 
         success: true, 
         data: { 
-          token,
+          ...tokens,
           user: { 
             id: user.id,
             name: user.name, 
@@ -112,9 +158,10 @@ export const loginHandler = async (req: Request, res: Response, next: NextFuncti
     } catch (error: any) {
       console.error(`[LOGIN] Error durante el inicio de sesión para ${email}:`, error.message);
       
-      if (error.type === 'AUTH_ERROR') {
+      // Misma respuesta para correo inexistente, cuenta sin contraseña o contraseña incorrecta
+      if (error.errorType === 'AUTH_ERROR') {
         console.log(`[LOGIN] Autenticación fallida para: ${email} - ${error.message}`);
-        return next(unauthorized('Correo o contraseña incorrectos'));
+        return next(unauthorized(AUTH_ERRORS.INVALID_CREDENTIALS));
       }
       
       console.error(`[LOGIN] Error inesperado para ${email}:`, error);
@@ -125,16 +172,111 @@ export const loginHandler = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
+/**
+ * Controlador para renovar la sesión con un refresh token
+ * El refresh token se toma de la cookie o del cuerpo de la petición ({ refreshToken })
+ * y se rota: el token usado deja de ser válido y se entrega uno nuevo
+ * @param req - Objeto de solicitud de Express
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON con el nuevo token de acceso y el nuevo refresh token
+ */
+export const refreshTokenHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_CONFIG.COOKIE_NAME] || req.body?.refreshToken;
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return next(unauthorized('No se proporcionó un refresh token'));
+    }
+
+    const tokens = await authService.refreshSession(refreshToken);
+    setAuthCookies(res, tokens);
+
+    res.status(200).json({
+      success: true,
+      data: tokens
+    });
+  } catch (error) {
+    clearAuthCookies(res);
+    next(error);
+  }
+};
+
 /**
  * Controlador para cerrar la sesión del usuario
- * Elimina la cookie de autenticación
- * @param _req - Objeto de solicitud de Express
+ * Revoca en el servidor la sesión del token de acceso (si es válido) y la del refresh token
+ * (cookie o cuerpo), de modo que ninguno de los dos vuelva a aceptarse, y elimina las cookies
+ * @param req - Objeto de solicitud de Express (req.user lo añade optionalAuthenticate)
  * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
  * @returns Respuesta JSON indicando éxito
  */
-export const logout = (_req: Request, res: Response) => {
-  res.clearCookie('token');
-  res.status(200).json({ success: true, message: 'Sesión cerrada correctamente' });
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (req.user) {
+      await sessionService.revokeSession(req.user.sid);
+    }
+
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_CONFIG.COOKIE_NAME] || req.body?.refreshToken;
+    if (refreshToken && typeof refreshToken === 'string') {
+      await authService.revokeSessionByRefreshToken(refreshToken);
+    }
+
+    clearAuthCookies(res);
+    res.status(200).json({ success: true, message: 'Sesión cerrada correctamente' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controlador para cerrar la sesión en todos los dispositivos
+ * Revoca todas las sesiones del usuario autenticado, incluida la actual
+ * @param req - Objeto de solicitud de Express (debe contener el usuario en req.user)
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON con el número de sesiones cerradas
+ */
+export const logoutAll = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const revoked = await sessionService.revokeUserSessions(Number(req.user!.userId));
+
+    clearAuthCookies(res);
+    res.status(200).json({
+      success: true,
+      message: 'Se cerró la sesión en todos los dispositivos',
+      data: { revoked }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controlador para cambiar la contraseña del usuario autenticado
+ * Cierra las demás sesiones del usuario; la sesión actual sigue activa
+ * @param req - Objeto de solicitud de Express (debe contener currentPassword y newPassword)
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON con el número de sesiones cerradas
+ */
+export const changePassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    const revoked = await authService.changeUserPassword(
+      Number(req.user!.userId),
+      req.user!.sid,
+      currentPassword,
+      newPassword
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Contraseña actualizada correctamente',
+      data: { revokedSessions: revoked }
+    });
+  } catch (error) {
+    next(error);
+  }
 };
 
 /**
@@ -175,20 +317,120 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
 };
 
 /**
- * Controlador para restablecer la contraseña de un usuario
- * @param req - Objeto de solicitud de Express (debe contener email y newPassword)
+ * Controlador para solicitar el restablecimiento de contraseña (paso 1)
+ * Envía por correo un enlace con un token de un solo uso. La respuesta es la misma
+ * exista o no la cuenta, para no revelar qué correos están registrados
+ * @param req - Objeto de solicitud de Express (debe contener email)
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON con un mensaje genérico
+ */
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+    await passwordResetService.requestPasswordReset(email, getRequestContext(req));
+    
+    res.status(200).json({ 
+      success: true, 
+      message: 'Si el correo está registrado, recibirás un enlace para restablecer tu contraseña' 
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controlador para restablecer la contraseña con el token recibido por correo (paso 2)
+ * Cierra todas las sesiones abiertas del usuario
+ * @param req - Objeto de solicitud de Express (debe contener token y newPassword)
  * @param res - Objeto de respuesta de Express
  * @param next - Función para pasar al siguiente middleware
  * @returns Respuesta JSON indicando éxito o error
  */
 export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { email, newPassword } = req.body;
-    await authService.resetUserPassword(email, newPassword);
+    const { token, newPassword } = req.body;
+    await passwordResetService.resetPassword(token, newPassword, getRequestContext(req));
+    
+    res.status(200).json({ 
+      success: true, 
+      message: 'Contraseña actualizada correctamente. Inicia sesión con tu nueva contraseña' 
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controlador para verificar el correo electrónico con el token recibido por correo
+ * @param req - Objeto de solicitud de Express (debe contener token)
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON indicando éxito o error
+ */
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await emailVerificationService.verifyEmail(req.body.token);
+    
+    res.status(200).json({ 
+      success: true, 
+      message: 'Correo electrónico verificado correctamente' 
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controlador para reenviar el enlace de verificación al usuario autenticado
+ * @param req - Objeto de solicitud de Express (debe contener el usuario en req.user)
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON indicando éxito o error
+ */
+export const resendVerificationEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await emailVerificationService.resendVerificationEmail(Number(req.user!.userId));
     
     res.status(200).json({ 
       success: true, 
-      message: 'Contraseña actualizada correctamente' 
+      message: 'Te enviamos un nuevo enlace de verificación' 
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controlador para completar el inicio de sesión con la verificación en dos pasos
+ * @param req - Objeto de solicitud de Express (debe contener challengeToken y code o recoveryCode)
+ * @param res - Objeto de respuesta de Express
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Respuesta JSON con el token JWT y los datos del usuario
+ */
+export const loginTwoFactorHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { challengeToken, ...verification } = twoFactorLoginSchema.parse(req.body);
+    const { user, ...tokens } = await authService.completeTwoFactorLogin(
+      challengeToken,
+      verification,
+      getRequestContext(req)
+    );
+    
+    await mergeGuestCart(req, res, user.id);
+    setAuthCookies(res, tokens);
+    
+    res.status(200).json({ 
+      success: true, 
+      data: { 
+        ...tokens,
+        user: { 
+          id: user.id,
+          name: user.name, 
+          email: user.email,
+          role: user.role
+        }
+      } 
     });
   } catch (error) {
     next(error);
@@ -197,7 +439,8 @@ export const resetPassword = async (req: Request, res: Response, next: NextFunct
 
 /**
  * Controlador para el inicio de sesión con Google OAuth
- * Verifica el token de Google, crea el usuario si no existe y genera un JWT
+ * Verifica el token de Google, busca o crea el usuario (vinculando la cuenta de Google
+ * a la cuenta existente con el mismo correo cuando es seguro) y genera un JWT
  * @param req - Objeto de solicitud de Express (debe contener un token de Google)
  * @param res - Objeto de respuesta de Express
  * @param next - Función para pasar al siguiente middleware
@@ -210,31 +453,37 @@ export const loginWithGoogle = async (req: Request, res: Response, next: NextFun
       return next(createError('Token de Google es requerido', 400, 'VALIDATION_ERROR'));
     }
 
-    // Verificar el token con Google
-    const ticket = await googleClient.verifyIdToken({ 
-      idToken: token, 
-      audience: process.env.GOOGLE_CLIENT_ID // Usar el ID de cliente de las variables de entorno
-    });
-    
-    // Obtener los datos del usuario de Google
-    const payload = ticket.getPayload();
-    if (!payload?.email) {
-      return next(createError('Token de Google inválido', 400, ERROR_TYPES.UNAUTHORIZED));
+    // Verificar el token con Google y obtener los datos de la cuenta
+    let profile: GoogleProfile;
+    try {
+      profile = await verifyGoogleIdToken(token);
+    } catch (error) {
+      await recordAuditEvent({
+        ...getRequestContext(req),
+        action: 'GOOGLE_LOGIN',
+        result: 'FAILURE',
+        metadata: { reason: error instanceof Error ? error.message : 'INVALID_TOKEN' }
+      });
+      throw error;
     }
 
     console.log('Payload de Google:', {
-      email: payload.email,
-      name: payload.name,
-      picture: payload.picture,
-      email_verified: payload.email_verified
+      email: profile.email,
+      name: profile.name,
+      picture: profile.picture,
+      email_verified: profile.emailVerified
     });
 
-    // Buscar o crear el usuario en la base de datos
-    const { token: jwtToken, user } = await authService.findOrCreateGoogleUser(
-      payload.email, 
-      payload.name || 'Usuario de Google',
-      payload.picture
-    );
+    // Buscar el usuario de la cuenta de Google (vinculándola por correo si es posible) o crearlo
+    const result = await authService.findOrCreateGoogleUser(profile, getRequestContext(req));
+
+    // Cuenta con verificación en dos pasos: se devuelve el desafío en lugar de los tokens
+    if ('twoFactorRequired' in result) {
+      res.status(200).json({ success: true, data: result });
+      return;
+    }
+
+    const { user, ...tokens } = result;
 
     console.log('Usuario autenticado con Google:', {
       id: user.id,
@@ -242,21 +491,16 @@ export const loginWithGoogle = async (req: Request, res: Response, next: NextFun
       role: user.role
     });
 
-    // Configurar la cookie HTTP-only segura
-    res.cookie('token', jwtToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 días
-      path: '/',
-      domain: process.env.NODE_ENV === 'production' ? '.tudominio.com' : undefined
-    });
+    await mergeGuestCart(req, res, user.id);
+
+    // Configurar las cookies HTTP-only seguras
+    setAuthCookies(res, tokens);
     
-    // Responder con los datos del usuario y el token
+    // Responder con los datos del usuario y los tokens
     res.status(200).json({ 
       success: true, 
       data: { 
-        token: jwtToken,
+        ...tokens,
         user: {
           id: user.id,
           name: user.name,
@@ -272,13 +516,9 @@ export const loginWithGoogle = async (req: Request, res: Response, next: NextFun
   } catch (error: any) {
     console.error('Error en login con Google:', error);
     
-    // Manejar diferentes tipos de errores
-    if (error.message?.includes('ya está registrado con otro método de autenticación')) {
-      return next(createError(error.message, 400, 'AUTH_ERROR'));
-    }
-    
-    if (error.name === 'TokenError') {
-      return next(createError('Token de Google inválido o expirado', 401, 'AUTH_ERROR'));
+    // Errores operacionales (token inválido, cuenta que no se puede vincular, ...)
+    if (error.isOperational) {
+      return next(error);
     }
     
     next(createError('Error al autenticar con Google', 500, 'INTERNAL_SERVER_ERROR'));
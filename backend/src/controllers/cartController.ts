@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from 'express';
+import * as cartService from '../services/cartService';
+import { addCartItemSchema, updateCartItemSchema } from '../schemas/cart.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+import { GUEST_CART_CONFIG } from '../constants/cart.constants';
+
+/**
+ * Obtiene el identificador del carrito de invitado desde las cookies
+ * @param req - Objeto de solicitud de Express
+ * @returns Identificador del carrito o undefined si no hay cookie
+ */
+const getGuestCartId = (req: Request): string | undefined =>
+  req.cookies?.[GUEST_CART_CONFIG.COOKIE_NAME] || undefined;
+
+/**
+ * @desc    Obtener el carrito del usuario autenticado
+ * @route   GET /api/cart
+ * @access  Private
+ */
+export const getCart = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const cart = await cartService.getCart(Number(req.user!.userId));
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Agregar un producto al carrito (se fusiona con la línea existente)
+ * @route   POST /api/cart/items
+ * @access  Private
+ */
+export const addItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { productId, quantity } = addCartItemSchema.parse(req.body);
+    const cart = await cartService.addItem(Number(req.user!.userId), productId, quantity);
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Establecer la cantidad de un producto del carrito
+ * @route   PUT /api/cart/items/:productId
+ * @access  Private
+ */
+export const updateItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const productId = parseId(req.params.productId);
+    if (!productId) {
+      return next(notFound('Producto en el carrito'));
+    }
+
+    const { quantity } = updateCartItemSchema.parse(req.body);
+    const cart = await cartService.setItemQuantity(Number(req.user!.userId), productId, quantity);
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar un producto del carrito
+ * @route   DELETE /api/cart/items/:productId
+ * @access  Private
+ */
+export const removeItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const productId = parseId(req.params.productId);
+    if (!productId) {
+      return next(notFound('Producto en el carrito'));
+    }
+
+    const cart = await cartService.removeItem(Number(req.user!.userId), productId);
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Vaciar el carrito
+ * @route   DELETE /api/cart
+ * @access  Private
+ */
+export const clearCart = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await cartService.clearCart(Number(req.user!.userId));
+
+    res.status(200).json({
+      success: true,
+      message: 'Carrito vaciado correctamente'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Obtener el carrito de invitado identificado por cookie
+ * @route   GET /api/guest-cart
+ * @access  Public
+ */
+export const getGuestCart = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const cart = await cartService.getGuestCart(getGuestCartId(req));
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Agregar un producto al carrito de invitado (crea el carrito y la cookie si no existen)
+ * @route   POST /api/guest-cart/items
+ * @access  Public
+ */
+export const addGuestItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { productId, quantity } = addCartItemSchema.parse(req.body);
+    const { guestCartId, cart } = await cartService.addGuestItem(getGuestCartId(req), productId, quantity);
+
+    res.cookie(GUEST_CART_CONFIG.COOKIE_NAME, guestCartId, GUEST_CART_CONFIG.COOKIE_OPTIONS);
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Establecer la cantidad de un producto del carrito de invitado
+ * @route   PUT /api/guest-cart/items/:productId
+ * @access  Public
+ */
+export const updateGuestItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const productId = parseId(req.params.productId);
+    if (!productId) {
+      return next(notFound('Producto en el carrito'));
+    }
+
+    const { quantity } = updateCartItemSchema.parse(req.body);
+    const cart = await cartService.setGuestItemQuantity(getGuestCartId(req), productId, quantity);
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar un producto del carrito de invitado
+ * @route   DELETE /api/guest-cart/items/:productId
+ * @access  Public
+ */
+export const removeGuestItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const productId = parseId(req.params.productId);
+    if (!productId) {
+      return next(notFound('Producto en el carrito'));
+    }
+
+    const cart = await cartService.removeGuestItem(getGuestCartId(req), productId);
+
+    res.status(200).json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    next(error);
+  }
+};
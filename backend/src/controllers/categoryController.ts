@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import * as categoryService from '../services/categoryService';
+import { createCategorySchema, updateCategorySchema } from '../schemas/category.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+
+/**
+ * @desc    Listar todas las categorías (lista plana)
+ * @route   GET /api/categories
+ * @access  Public
+ */
+export const getCategories = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const categories = await categoryService.listCategories();
+
+    res.status(200).json({
+      success: true,
+      count: categories.length,
+      data: categories
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Obtener el árbol de categorías con el conteo de productos
+ * @route   GET /api/categories/tree
+ * @access  Public
+ */
+export const getCategoryTree = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tree = await categoryService.getCategoryTree();
+
+    res.status(200).json({
+      success: true,
+      data: tree
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Crear una categoría
+ * @route   POST /api/categories
+ * @access  Private/Admin
+ */
+export const createCategory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = createCategorySchema.parse(req.body);
+    const category = await categoryService.createCategory(data);
+
+    res.status(201).json({
+      success: true,
+      data: category
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Actualizar una categoría
+ * @route   PUT /api/categories/:id
+ * @access  Private/Admin
+ */
+export const updateCategory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Categoría'));
+    }
+
+    const data = updateCategorySchema.parse(req.body);
+    const category = await categoryService.updateCategory(id, data);
+
+    res.status(200).json({
+      success: true,
+      data: category
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar una categoría
+ * @route   DELETE /api/categories/:id
+ * @access  Private/Admin
+ */
+export const deleteCategory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Categoría'));
+    }
+
+    await categoryService.deleteCategory(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Categoría eliminada correctamente'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import * as checkoutService from '../services/checkoutService';
+import { checkoutSchema } from '../schemas/checkout.schema';
+import { notifyAdmins } from '../services/notificationService';
+import { sendOrderConfirmationEmail } from '../services/orderEmailService';
+import { PRODUCT_CONFIG } from '../constants/product.constants';
+
+/**
+ * @desc    Confirmar la compra del carrito y crear el pedido
+ * @route   POST /api/checkout
+ * @access  Private
+ */
+export const checkout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { addressId } = checkoutSchema.parse(req.body);
+    const { order, lowStockProducts } = await checkoutService.checkout(Number(req.user!.userId), addressId);
+
+    // Avisar a los administradores del nuevo pedido y de los productos con stock bajo
+    notifyAdmins(req.io, 'order:created', {
+      orderId: order.id,
+      userId: order.userId,
+      total: order.total,
+      itemCount: order.order_items.reduce((sum, item) => sum + item.quantity, 0),
+      createdAt: order.created_at.toISOString()
+    });
+
+    // Enviar al cliente la confirmación del pedido por correo
+    sendOrderConfirmationEmail(order.id);
+
+    for (const product of lowStockProducts) {
+      notifyAdmins(req.io, 'product:low-stock', {
+        productId: product.id,
+        name: product.name,
+        slug: product.slug,
+        stock: product.stock,
+        threshold: PRODUCT_CONFIG.LOW_STOCK_THRESHOLD
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import * as identityService from '../services/identityService';
+import {
+  identityProviderSchema,
+  linkGoogleSchema,
+  linkPasswordSchema,
+  unlinkIdentitySchema
+} from '../schemas/identity.schema';
+
+/**
+ * @desc    Listar los métodos de inicio de sesión vinculados
+ * @route   GET /api/identities
+ * @access  Private
+ */
+export const getIdentities = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const identities = await identityService.listIdentities(Number(req.user!.userId));
+
+    res.status(200).json({
+      success: true,
+      count: identities.length,
+      data: identities
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Vincular una cuenta de Google (requiere confirmar la identidad)
+ * @route   POST /api/identities/google
+ * @access  Private
+ */
+export const linkGoogle = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, reauth } = linkGoogleSchema.parse(req.body);
+    const identities = await identityService.linkGoogleIdentity(Number(req.user!.userId), token, reauth);
+
+    res.status(201).json({
+      success: true,
+      data: identities
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Agregar una contraseña a la cuenta (requiere confirmar la identidad)
+ * @route   POST /api/identities/local
+ * @access  Private
+ */
+export const linkPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { newPassword, reauth } = linkPasswordSchema.parse(req.body);
+    const identities = await identityService.linkLocalIdentity(Number(req.user!.userId), newPassword, reauth);
+
+    res.status(201).json({
+      success: true,
+      data: identities
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Desvincular un método de inicio de sesión (requiere confirmar la identidad)
+ * @route   DELETE /api/identities/:provider
+ * @access  Private
+ */
+export const unlinkIdentity = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = identityProviderSchema.parse(req.params.provider);
+    const { reauth } = unlinkIdentitySchema.parse(req.body);
+    const identities = await identityService.unlinkIdentity(Number(req.user!.userId), provider, reauth);
+
+    res.status(200).json({
+      success: true,
+      data: identities
+    });
+  } catch (error) {
+    next(error);
+  }
+};
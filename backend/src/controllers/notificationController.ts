@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import * as notificationService from '../services/notificationService';
+import { notificationQuerySchema } from '../schemas/notification.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+
+/**
+ * @desc    Listar las notificaciones del usuario autenticado
+ * @route   GET /api/notifications
+ * @access  Private
+ */
+export const getNotifications = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = notificationQuerySchema.parse(req.query);
+    const { notifications, unreadCount, pagination } = await notificationService.listNotifications(
+      Number(req.user!.userId),
+      query
+    );
+
+    res.status(200).json({
+      success: true,
+      count: notifications.length,
+      unreadCount,
+      pagination,
+      data: notifications
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Marcar una notificación como leída
+ * @route   PUT /api/notifications/:id/read
+ * @access  Private
+ */
+export const markNotificationAsRead = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Notificación'));
+    }
+
+    const notification = await notificationService.markAsRead(Number(req.user!.userId), id);
+
+    res.status(200).json({
+      success: true,
+      data: notification
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Marcar todas las notificaciones como leídas
+ * @route   PUT /api/notifications/read-all
+ * @access  Private
+ */
+export const markAllNotificationsAsRead = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const updated = await notificationService.markAllAsRead(Number(req.user!.userId));
+
+    res.status(200).json({
+      success: true,
+      data: { updated }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import * as orderService from '../services/orderService';
+import {
+  orderQuerySchema,
+  adminOrderQuerySchema,
+  updateOrderStatusSchema
+} from '../schemas/order.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+import { notifyUser } from '../services/notificationService';
+import { sendShippingNotificationEmail } from '../services/orderEmailService';
+
+/**
+ * @desc    Listar los pedidos del usuario autenticado
+ * @route   GET /api/orders
+ * @access  Private
+ */
+export const getMyOrders = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = orderQuerySchema.parse(req.query);
+    const { orders, pagination } = await orderService.listUserOrders(Number(req.user!.userId), query);
+
+    res.status(200).json({
+      success: true,
+      count: orders.length,
+      pagination,
+      data: orders
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Obtener el detalle de un pedido (líneas, dirección e historial de estados)
+ * @route   GET /api/orders/:id
+ * @access  Private (propietario o administrador)
+ */
+export const getOrder = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Pedido'));
+    }
+
+    const order = await orderService.getOrderDetail(id);
+
+    res.status(200).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Listar todos los pedidos con filtros (estado, rango de fechas, email del cliente)
+ * @route   GET /api/admin/orders
+ * @access  Private/Admin
+ */
+export const getAllOrders = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = adminOrderQuerySchema.parse(req.query);
+    const { orders, pagination } = await orderService.listAllOrders(query);
+
+    res.status(200).json({
+      success: true,
+      count: orders.length,
+      pagination,
+      data: orders
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Cambiar el estado de un pedido y notificar al cliente en tiempo real
+ * @route   PUT /api/admin/orders/:id/status
+ * @access  Private/Admin
+ */
+export const updateOrderStatus = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Pedido'));
+    }
+
+    const { status, note } = updateOrderStatusSchema.parse(req.body);
+    const { order, previousStatus } = await orderService.updateOrderStatus(id, status, note);
+
+    // Avisar al cliente del cambio de estado de su pedido
+    notifyUser(req.io, order.userId, 'order:status-changed', {
+      orderId: order.id,
+      previousStatus,
+      status: order.status,
+      note: note ?? null,
+      changedAt: order.updated_at.toISOString()
+    });
+
+    // Avisar por correo cuando el pedido sale a despacho
+    if (order.status === 'SHIPPED') {
+      sendShippingNotificationEmail(order.id, note);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
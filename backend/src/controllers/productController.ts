@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import * as productService from '../services/productService';
+import {
+  productQuerySchema,
+  createProductSchema,
+  updateProductSchema
+} from '../schemas/product.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+
+/**
+ * @desc    Listar productos con paginación, orden y filtros
+ * @route   GET /api/products
+ * @access  Public
+ */
+export const getProducts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = productQuerySchema.parse(req.query);
+    const { products, pagination } = await productService.listProducts(query);
+
+    res.status(200).json({
+      success: true,
+      count: products.length,
+      pagination,
+      data: products
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Obtener el detalle de un producto por su slug
+ * @route   GET /api/products/:slug
+ * @access  Public
+ */
+export const getProduct = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const product = await productService.getProductBySlug(req.params.slug);
+
+    res.status(200).json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Crear un producto
+ * @route   POST /api/products
+ * @access  Private/Admin
+ */
+export const createProduct = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = createProductSchema.parse(req.body);
+    const product = await productService.createProduct(data);
+
+    res.status(201).json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Actualizar un producto
+ * @route   PUT /api/products/:id
+ * @access  Private/Admin
+ */
+export const updateProduct = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Producto'));
+    }
+
+    const data = updateProductSchema.parse(req.body);
+    const product = await productService.updateProduct(id, data);
+
+    res.status(200).json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar un producto
+ * @route   DELETE /api/products/:id
+ * @access  Private/Admin
+ */
+export const deleteProduct = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Producto'));
+    }
+
+    await productService.deleteProduct(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Producto eliminado correctamente'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import * as questionService from '../services/questionService';
+import {
+  createQuestionSchema,
+  answerQuestionSchema,
+  questionQuerySchema
+} from '../schemas/question.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+import { notifyUser } from '../services/notificationService';
+
+/**
+ * @desc    Listar las preguntas respondidas de un producto
+ * @route   GET /api/products/:slug/questions
+ * @access  Public
+ */
+export const getProductQuestions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = questionQuerySchema.parse(req.query);
+    const { questions, pagination } = await questionService.listAnsweredQuestions(req.params.slug, query);
+
+    res.status(200).json({
+      success: true,
+      count: questions.length,
+      pagination,
+      data: questions
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Hacer una pregunta sobre un producto
+ * @route   POST /api/questions
+ * @access  Private
+ */
+export const createQuestion = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = createQuestionSchema.parse(req.body);
+    const question = await questionService.createQuestion(Number(req.user!.userId), data);
+
+    res.status(201).json({
+      success: true,
+      data: question
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Listar las preguntas pendientes de respuesta
+ * @route   GET /api/admin/questions
+ * @access  Private/Admin
+ */
+export const getUnansweredQuestions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = questionQuerySchema.parse(req.query);
+    const { questions, pagination } = await questionService.listUnansweredQuestions(query);
+
+    res.status(200).json({
+      success: true,
+      count: questions.length,
+      pagination,
+      data: questions
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Responder una pregunta y notificar en tiempo real a quien la hizo
+ * @route   PUT /api/admin/questions/:id/answer
+ * @access  Private/Admin
+ */
+export const answerQuestion = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Pregunta'));
+    }
+
+    const { answer } = answerQuestionSchema.parse(req.body);
+    const question = await questionService.answerQuestion(id, answer);
+
+    notifyUser(req.io, question.userId, 'question:answered', {
+      questionId: question.id,
+      question: question.question,
+      answer: question.answer,
+      product: question.product,
+      answeredAt: question.answered_at
+    });
+
+    res.status(200).json({
+      success: true,
+      data: question
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import * as reportService from '../services/reportService';
+import { salesReportQuerySchema } from '../schemas/report.schema';
+
+/**
+ * @desc    Obtener el reporte de ventas (JSON o CSV según el parámetro format)
+ * @route   GET /api/admin/reports/sales
+ * @access  Private/Admin
+ */
+export const getSalesReport = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = salesReportQuerySchema.parse(req.query);
+    const report = await reportService.getSalesReport(query);
+
+    if (query.format === 'csv') {
+      const fileName = `ventas_${query.from.toISOString().slice(0, 10)}_${query.to.toISOString().slice(0, 10)}.csv`;
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      // El BOM permite que Excel reconozca los acentos del archivo
+      res.status(200).send(`\uFEFF${reportService.salesReportToCsv(report)}`);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import * as reviewService from '../services/reviewService';
+import {
+  createReviewSchema,
+  updateReviewSchema,
+  reviewQuerySchema
+} from '../schemas/review.schema';
+import { notFound } from '../middleware/errorHandler';
+import { parseId } from '../utils/params';
+
+/**
+ * @desc    Listar las reseñas de un producto con su resumen de calificaciones
+ * @route   GET /api/products/:slug/reviews
+ * @access  Public
+ */
+export const getProductReviews = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = reviewQuerySchema.parse(req.query);
+    const { reviews, rating, pagination } = await reviewService.listProductReviews(req.params.slug, query);
+
+    res.status(200).json({
+      success: true,
+      count: reviews.length,
+      rating,
+      pagination,
+      data: reviews
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Publicar una reseña (solo compradores con un pedido entregado)
+ * @route   POST /api/reviews
+ * @access  Private
+ */
+export const createReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = createReviewSchema.parse(req.body);
+    const review = await reviewService.createReview(Number(req.user!.userId), data);
+
+    res.status(201).json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Editar una reseña
+ * @route   PUT /api/reviews/:id
+ * @access  Private (autor o administrador)
+ */
+export const updateReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Reseña'));
+    }
+
+    const data = updateReviewSchema.parse(req.body);
+    const review = await reviewService.updateReview(id, data);
+
+    res.status(200).json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar una reseña
+ * @route   DELETE /api/reviews/:id
+ * @access  Private (autor o administrador)
+ */
+export const deleteReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Reseña'));
+    }
+
+    await reviewService.deleteReview(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Reseña eliminada correctamente'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
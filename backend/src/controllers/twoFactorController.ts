@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import * as twoFactorService from '../services/twoFactorService';
+import { twoFactorConfirmSchema, twoFactorEnableSchema, twoFactorSetupSchema } from '../schemas/twoFactor.schema';
+
+/**
+ * @desc    Obtener el estado de la verificación en dos pasos
+ * @route   GET /api/2fa
+ * @access  Private
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = await twoFactorService.getTwoFactorStatus(Number(req.user!.userId), req.user!.role);
+
+    res.status(200).json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Iniciar la configuración: devuelve el secreto y el URI otpauth para el código QR
+ *          (si la verificación es obligatoria, envía además un código de confirmación por correo)
+ * @route   POST /api/2fa/setup
+ * @access  Private
+ */
+export const setupTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reauth } = twoFactorSetupSchema.parse(req.body);
+    const setup = await twoFactorService.startTwoFactorSetup(Number(req.user!.userId), reauth);
+
+    res.status(200).json({
+      success: true,
+      data: setup
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Activar la verificación con el primer código de la app; devuelve los códigos de recuperación
+ * @route   POST /api/2fa/enable
+ * @access  Private
+ */
+export const enableTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = twoFactorEnableSchema.parse(req.body);
+    const recoveryCodes = await twoFactorService.enableTwoFactor(Number(req.user!.userId), req.user!.sid, input);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verificación en dos pasos activada. Guarda los códigos de recuperación en un lugar seguro',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Regenerar los códigos de recuperación (los anteriores dejan de servir)
+ * @route   POST /api/2fa/recovery-codes
+ * @access  Private
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reauth, ...verification } = twoFactorConfirmSchema.parse(req.body);
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+      Number(req.user!.userId),
+      reauth,
+      verification
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Desactivar la verificación en dos pasos
+ * @route   DELETE /api/2fa
+ * @access  Private
+ */
+export const disableTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reauth, ...verification } = twoFactorConfirmSchema.parse(req.body);
+    await twoFactorService.disableTwoFactor(Number(req.user!.userId), req.user!.role, reauth, verification);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verificación en dos pasos desactivada'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
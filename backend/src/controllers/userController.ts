@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '..';
-import { ERROR_TYPES } from '../middleware/errorHandler';
+import { ERROR_TYPES, notFound } from '../middleware/errorHandler';
+import * as sessionService from '../services/sessionService';
+import * as loginThrottleService from '../services/loginThrottleService';
+import * as userAdminService from '../services/userAdminService';
+import { recordAuditEvent } from '../services/auditService';
+import { parseId } from '../utils/params';
+import { getRequestContext } from '../utils/requestContext';
+import { impersonateUserSchema, suspendUserSchema, updateUserRoleSchema } from '../schemas/user.schema';
 
 /**
  * @desc    Obtener todos los usuarios (solo administradores)
@@ -10,15 +17,8 @@ import { ERROR_TYPES } from '../middleware/errorHandler';
 export const getUsers = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const users = await prisma.users.findMany({
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        auth_provider: true,
-        created_at: true,
-        updated_at: true
-      },
+      where: { deleted_at: null },
+      select: userAdminService.adminUserSelect,
       orderBy: {
         created_at: 'desc'
       }
@@ -49,18 +49,16 @@ export const getUserById = async (req: Request, res: Response, next: NextFunctio
   try {
     const user = await prisma.users.findUnique({
       where: { id: parseInt(req.params.id) },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        auth_provider: true,
-        created_at: true,
-        updated_at: true
-      }
+      select: { ...userAdminService.adminUserSelect, deleted_at: true }
     });
 
     if (!user) {
+      await recordAuditEvent({
+        ...getRequestContext(req),
+        action: 'ADMIN_USER_READ',
+        result: 'FAILURE',
+        metadata: { requestedId: req.params.id, reason: 'NOT_FOUND' }
+      });
       return res.status(404).json({
         success: false,
         error: {
@@ -70,6 +68,8 @@ export const getUserById = async (req: Request, res: Response, next: NextFunctio
       });
     }
 
+    // Las consultas de administradores a los datos de un usuario quedan en el registro de auditoría
+    await recordAuditEvent({ ...getRequestContext(req), action: 'ADMIN_USER_READ', result: 'SUCCESS', targetUserId: user.id });
 
     res.status(200).json({
       success: true,
@@ -85,3 +85,183 @@ export const getUserById = async (req: Request, res: Response, next: NextFunctio
     });
   }
 };
+
+/**
+ * @desc    Cerrar todas las sesiones de un usuario (sus tokens dejan de aceptarse de inmediato)
+ * @route   POST /api/users/:id/logout
+ * @access  Private/Admin
+ */
+export const forceLogoutUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    const user = await prisma.users.findUnique({ where: { id }, select: { id: true } });
+    if (!user) {
+      return next(notFound('Usuario'));
+    }
+
+    const revoked = await sessionService.revokeUserSessions(user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Se cerraron todas las sesiones del usuario',
+      data: { revoked }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Desbloquear la cuenta de un usuario (intentos fallidos de inicio de sesión y de verificación en dos pasos)
+ * @route   POST /api/users/:id/unlock
+ * @access  Private/Admin
+ */
+export const unlockUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    const user = await prisma.users.findUnique({ where: { id }, select: { id: true, email: true } });
+    if (!user) {
+      return next(notFound('Usuario'));
+    }
+
+    const wasLocked = await loginThrottleService.unlockAccount(user);
+
+    res.status(200).json({
+      success: true,
+      message: wasLocked ? 'Cuenta desbloqueada' : 'La cuenta no tenía bloqueos ni intentos fallidos',
+      data: { wasLocked }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Cambiar el rol de un usuario (cierra sus sesiones)
+ * @route   PUT /api/users/:id/role
+ * @access  Private/Admin
+ */
+export const updateUserRole = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    const { role } = updateUserRoleSchema.parse(req.body);
+    const user = await userAdminService.changeUserRole(id, role, getRequestContext(req));
+
+    res.status(200).json({
+      success: true,
+      message: 'Rol actualizado',
+      data: user
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Suspender la cuenta de un usuario (cierra sus sesiones y le impide iniciar sesión)
+ * @route   POST /api/users/:id/suspend
+ * @access  Private/Admin
+ */
+export const suspendUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    const input = suspendUserSchema.parse(req.body ?? {});
+    const user = await userAdminService.suspendUser(id, input, getRequestContext(req));
+
+    res.status(200).json({
+      success: true,
+      message: 'Cuenta suspendida',
+      data: user
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Reactivar la cuenta suspendida de un usuario
+ * @route   POST /api/users/:id/reactivate
+ * @access  Private/Admin
+ */
+export const reactivateUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    const user = await userAdminService.reactivateUser(id, getRequestContext(req));
+
+    res.status(200).json({
+      success: true,
+      message: 'Cuenta reactivada',
+      data: user
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Eliminar la cuenta de un usuario anonimizando sus datos personales
+ * @route   DELETE /api/users/:id
+ * @access  Private/Admin
+ */
+export const deleteUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    await userAdminService.deleteUser(id, getRequestContext(req));
+
+    res.status(200).json({
+      success: true,
+      message: 'Cuenta eliminada y datos personales anonimizados'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Obtener un token temporal de solo lectura para ver la aplicación como el usuario
+ * @route   POST /api/users/:id/impersonate
+ * @access  Private/Admin
+ */
+export const impersonateUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return next(notFound('Usuario'));
+    }
+
+    const input = impersonateUserSchema.parse(req.body);
+    const result = await userAdminService.impersonateUser(id, input, getRequestContext(req));
+
+    // El token no se guarda en cookies para no reemplazar la sesión del administrador
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -3,14 +3,35 @@ import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createClient } from 'redis';
 import { PrismaClient } from '@prisma/client';
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
+import productRoutes from './routes/products';
+import categoryRoutes from './routes/categories';
+import cartRoutes from './routes/cart';
+import guestCartRoutes from './routes/guestCart';
+import checkoutRoutes from './routes/checkout';
+import orderRoutes from './routes/orders';
+import adminRoutes from './routes/admin';
+import addressRoutes from './routes/addresses';
+import reviewRoutes from './routes/reviews';
+import questionRoutes from './routes/questions';
+import notificationRoutes from './routes/notifications';
+import identityRoutes from './routes/identities';
+import twoFactorRoutes from './routes/twoFactor';
 import { errorHandler, ERROR_TYPES } from './middleware/errorHandler';
 import { publicRoutes } from './routes/auth';
+import { initializeSocket } from './socket';
+import { startMailOutboxWorker } from './services/mailService';
+import { startAuditRetentionWorker } from './services/auditService';
+import { AppServer } from './types/socket.types';
+import { createTrustProxy } from './utils/trustProxy';
+import { createRedisRateLimitStore, setRateLimitStore } from './utils/rateLimitStore';
+import { RATE_LIMIT_STORE_CONFIG } from './constants/rateLimit.constants';
+import logger from './utils/logger';
 
 dotenv.config();
 
@@ -22,12 +43,36 @@ const app: Application = express();
 const PORT = process.env.PORT || 4000;
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const TRUST_PROXY = process.env.TRUST_PROXY || 'loopback';
+const RATE_LIMIT_REDIS_URL = process.env.RATE_LIMIT_REDIS_URL;
+
+// Proxies de confianza: un único salto desde el servidor de Next.js (utils/trustProxy.ts)
+app.set('trust proxy', createTrustProxy(TRUST_PROXY));
+
+// Contadores del límite de peticiones compartidos entre instancias (en memoria si no hay Redis)
+// Sin cola de comandos sin conexión: con Redis caído los comandos fallan enseguida en lugar de esperar
+const rateLimitRedis = RATE_LIMIT_REDIS_URL
+  ? createClient({
+      url: RATE_LIMIT_REDIS_URL,
+      disableOfflineQueue: true,
+      socket: { connectTimeout: RATE_LIMIT_STORE_CONFIG.REDIS_CONNECT_TIMEOUT_MS }
+    })
+  : null;
+if (rateLimitRedis) {
+  rateLimitRedis.on('error', (error) => {
+    logger.error('Error en la conexión de Redis del límite de peticiones:', error);
+  });
+  rateLimitRedis.connect().catch((error) => {
+    logger.error('No se pudo conectar a Redis para el límite de peticiones:', error);
+  });
+  setRateLimitStore(createRedisRateLimitStore((...args) => rateLimitRedis.sendCommand(args)));
+}
 
 // Crear servidor HTTP
 const httpServer = createServer(app);
 
-// Configurar Socket.IO
-const io = new Server(httpServer, {
+// Configurar Socket.IO (eventos tipados en types/socket.types.ts)
+const io: AppServer = new Server(httpServer, {
   cors: {
     origin: FRONTEND_URL,
     methods: ['GET', 'POST'],
@@ -36,9 +81,12 @@ const io = new Server(httpServer, {
   path: '/socket.io'
 });
 
+// Autenticar las conexiones y asignar las salas de usuario y de administradores
+initializeSocket(io);
+
 // Middleware para exponer el objeto io en las rutas
 app.use((req: Request, res: Response, next: NextFunction) => {
-  (req as any).io = io;
+  req.io = io;
   next();
 });
 
@@ -53,25 +101,8 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
-// Configuración de rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutos
-  max: 100, // Límite de 100 peticiones por ventana
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req: Request, res: Response) => {
-    res.status(429).json({
-      success: false,
-      error: {
-        type: 'RATE_LIMIT',
-        message: 'Demasiadas peticiones desde esta IP, por favor intente de nuevo más tarde.'
-      }
-    });
-  }
-});
-
-// Aplicar rate limiting a todas las rutas
-app.use(limiter);
+// Los límites de peticiones se declaran en cada router con políticas con nombre
+// (middleware/rateLimit.ts); el almacén de contadores se configura en utils/rateLimitStore.ts
 
 // Middleware para parsear JSON y datos de formularios
 app.use(express.json({ limit: '10kb' }));
@@ -119,6 +150,45 @@ app.use('/api/users', (req, res, next) => {
   next();
 }, userRoutes);
 
+// Rutas del catálogo de productos (lectura pública, escritura solo administradores)
+app.use('/api/products', productRoutes);
+
+// Rutas de categorías (árbol público, administración solo administradores)
+app.use('/api/categories', categoryRoutes);
+
+// Rutas del carrito de compras (requieren autenticación)
+app.use('/api/cart', cartRoutes);
+
+// Rutas del carrito de invitado (identificado por cookie, se fusiona al iniciar sesión)
+app.use('/api/guest-cart', guestCartRoutes);
+
+// Ruta de checkout (convierte el carrito en un pedido)
+app.use('/api/checkout', checkoutRoutes);
+
+// Rutas del historial de pedidos del cliente
+app.use('/api/orders', orderRoutes);
+
+// Rutas de reseñas de productos (publicación, edición y eliminación)
+app.use('/api/reviews', reviewRoutes);
+
+// Rutas de preguntas sobre productos
+app.use('/api/questions', questionRoutes);
+
+// Rutas de la libreta de direcciones del usuario
+app.use('/api/addresses', addressRoutes);
+
+// Rutas del centro de notificaciones
+app.use('/api/notifications', notificationRoutes);
+
+// Rutas de los métodos de inicio de sesión vinculados (contraseña, Google)
+app.use('/api/identities', identityRoutes);
+
+// Rutas de la verificación en dos pasos (TOTP y códigos de recuperación)
+app.use('/api/2fa', twoFactorRoutes);
+
+// Rutas de administración (requieren rol de administrador)
+app.use('/api/admin', adminRoutes);
+
 // Middleware para manejar rutas no encontradas (404)
 app.use((_req: Request, res: Response) => {
   res.status(404).json({
@@ -137,6 +207,15 @@ app.use(errorHandler);
 const gracefulShutdown = async () => {
   console.log('Cerrando conexiones...');
   
+  // Detener los procesos periódicos antes de cerrar la base de datos
+  stopMailOutboxWorker();
+  stopAuditRetentionWorker();
+  
+  // Cerrar la conexión de Redis del límite de peticiones
+  if (rateLimitRedis?.isOpen) {
+    await rateLimitRedis.quit().catch(console.error);
+  }
+  
   // Cerrar servidor HTTP
   httpServer.close(() => {
     console.log('Servidor HTTP cerrado');
@@ -153,6 +232,12 @@ const gracefulShutdown = async () => {
 process.on('SIGTERM', gracefulShutdown);
 process.on('SIGINT', gracefulShutdown);
 
+// Reintentar periódicamente los correos cuyo envío falló
+const stopMailOutboxWorker = startMailOutboxWorker();
+
+// Purgar periódicamente los eventos de auditoría que superan el periodo de retención
+const stopAuditRetentionWorker = startAuditRetentionWorker();
+
 // Iniciar servidor
 httpServer.listen(PORT, () => {
   console.log(`\n🚀 Servidor en ejecución en modo ${NODE_ENV}`);
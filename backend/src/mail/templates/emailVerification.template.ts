@@ -0,0 +1,51 @@
+import { MailContent } from '../../types/mail.types';
+import { escapeHtml } from './helpers';
+import { renderButton, renderHtmlLayout, renderTextLayout } from './layout';
+
+/**
+ * Datos del correo de verificación
+ */
+export interface EmailVerificationTemplateData {
+  /** Nombre del usuario */
+  name: string;
+  /** Enlace para confirmar el correo */
+  verifyUrl: string;
+  /** Horas de validez del enlace */
+  expiresInHours: number;
+}
+
+/**
+ * Plantilla del correo de verificación de la dirección de correo
+ * @param data - Nombre del usuario, enlace de confirmación y su validez
+ * @returns Asunto y contenido (texto y HTML) del correo
+ */
+export const emailVerificationTemplate = ({
+  name,
+  verifyUrl,
+  expiresInHours
+}: EmailVerificationTemplateData): MailContent => {
+  const title = 'Confirma tu correo electrónico';
+
+  return {
+    subject: title,
+    text: renderTextLayout([
+      `Hola ${name},`,
+      '',
+      'Gracias por registrarte. Para confirmar tu correo electrónico, abre este enlace',
+      `(válido por ${expiresInHours} horas):`,
+      verifyUrl,
+      '',
+      'Si no creaste una cuenta, ignora este correo.'
+    ]),
+    html: renderHtmlLayout(
+      title,
+      `
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Gracias por registrarte. Para confirmar tu correo electrónico, haz clic en el siguiente enlace
+        (válido por ${expiresInHours} horas):</p>
+      ${renderButton(verifyUrl, 'Confirmar correo electrónico')}
+      <p>Si no creaste una cuenta, ignora este correo.</p>
+    `
+    )
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * Utilidades compartidas por las plantillas de correo
+ */
+
+/**
+ * Escapa un texto para insertarlo de forma segura en el HTML del correo
+ * @param value - Texto de origen (ej: nombre del usuario)
+ * @returns Texto con los caracteres especiales de HTML escapados
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Formatea un importe en pesos colombianos para mostrarlo en el correo
+ * @param value - Importe
+ * @returns Importe con el símbolo de moneda y separadores de miles (ej: $120.000)
+ */
+export const formatCurrency = (value: number): string => `$${value.toLocaleString('es-CO')}`;
+
+/**
+ * Dirección de envío que se muestra en los correos de pedidos
+ */
+export interface MailAddress {
+  name: string;
+  street: string;
+  municipio: string;
+  city: string;
+  country: string;
+}
+
+/**
+ * Formatea una dirección de envío en una sola línea
+ * @param address - Destinatario y ubicación
+ * @returns Dirección lista para mostrar (sin escapar)
+ */
+export const formatAddress = ({ name, street, municipio, city, country }: MailAddress): string =>
+  `${name}, ${street}, ${municipio}, ${city}, ${country}`;
@@ -0,0 +1,35 @@
+/**
+ * Catálogo de plantillas de correo
+ * Cada plantilla recibe sus datos y devuelve el asunto y el contenido en texto y HTML
+ */
+
+import { welcomeTemplate } from './welcome.template';
+import { emailVerificationTemplate } from './emailVerification.template';
+import { passwordResetTemplate } from './passwordReset.template';
+import { twoFactorEnrollmentTemplate } from './twoFactorEnrollment.template';
+import { orderConfirmationTemplate } from './orderConfirmation.template';
+import { shippingNotificationTemplate } from './shippingNotification.template';
+
+export const mailTemplates = {
+  welcome: welcomeTemplate,
+  'email-verification': emailVerificationTemplate,
+  'password-reset': passwordResetTemplate,
+  'two-factor-enrollment': twoFactorEnrollmentTemplate,
+  'order-confirmation': orderConfirmationTemplate,
+  'shipping-notification': shippingNotificationTemplate
+};
+
+export type MailTemplateName = keyof typeof mailTemplates;
+
+export type MailTemplateData<T extends MailTemplateName> = Parameters<(typeof mailTemplates)[T]>[0];
+
+/**
+ * Plantillas cuyo contenido lleva un enlace o un código de un solo uso
+ * Su contenido no se guarda en la bandeja de salida: solo se conserva en memoria
+ * mientras se intenta enviar (en la base de datos los tokens se guardan solo como hash)
+ */
+export const SENSITIVE_MAIL_TEMPLATES: ReadonlySet<MailTemplateName> = new Set<MailTemplateName>([
+  'email-verification',
+  'password-reset',
+  'two-factor-enrollment'
+]);
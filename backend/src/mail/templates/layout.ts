@@ -0,0 +1,65 @@
+import { MAIL_CONFIG } from '../../constants/mail.constants';
+import { escapeHtml } from './helpers';
+
+/**
+ * Diseño común de los correos: cabecera con el nombre de la tienda, contenido y pie
+ * @param title - Título del correo (se muestra en la cabecera del contenido)
+ * @param content - HTML del contenido (los datos del usuario deben venir escapados)
+ * @returns Documento HTML completo
+ */
+export const renderHtmlLayout = (title: string, content: string): string => `<!DOCTYPE html>
+<html lang="es">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;">
+            <tr>
+              <td style="padding:20px 32px;border-bottom:1px solid #e4e4e7;font-size:20px;font-weight:bold;">
+                ${escapeHtml(MAIL_CONFIG.STORE_NAME)}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px 32px;font-size:15px;line-height:1.5;">
+                <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(title)}</h1>
+                ${content}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 32px;border-top:1px solid #e4e4e7;font-size:12px;color:#71717a;">
+                Este es un mensaje automático de ${escapeHtml(MAIL_CONFIG.STORE_NAME)}, por favor no lo respondas.
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+/**
+ * Botón con enlace para el contenido HTML del correo
+ * @param url - Destino del enlace
+ * @param label - Texto del botón
+ * @returns HTML del botón
+ */
+export const renderButton = (url: string, label: string): string =>
+  `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#18181b;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(label)}</a></p>`;
+
+/**
+ * Versión en texto plano del correo con el mismo pie que el diseño HTML
+ * @param lines - Líneas del contenido
+ * @returns Texto completo del correo
+ */
+export const renderTextLayout = (lines: string[]): string =>
+  [
+    ...lines,
+    '',
+    '--',
+    `Este es un mensaje automático de ${MAIL_CONFIG.STORE_NAME}, por favor no lo respondas.`
+  ].join('\n');
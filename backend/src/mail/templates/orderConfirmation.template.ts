@@ -0,0 +1,84 @@
+import { MailContent } from '../../types/mail.types';
+import { escapeHtml, formatAddress, formatCurrency, MailAddress } from './helpers';
+import { renderButton, renderHtmlLayout, renderTextLayout } from './layout';
+
+/**
+ * Datos del correo de confirmación de pedido
+ */
+export interface OrderConfirmationTemplateData {
+  /** Nombre del cliente */
+  name: string;
+  /** ID del pedido */
+  orderId: number;
+  /** Productos comprados con su precio unitario al momento de la compra */
+  items: { name: string; quantity: number; price: number }[];
+  /** Total del pedido */
+  total: number;
+  /** Dirección de envío */
+  address: MailAddress;
+  /** Enlace al detalle del pedido */
+  orderUrl: string;
+}
+
+/**
+ * Plantilla del correo de confirmación de un pedido recién creado
+ * @param data - Cliente, líneas, total, dirección de envío y enlace al pedido
+ * @returns Asunto y contenido (texto y HTML) del correo
+ */
+export const orderConfirmationTemplate = ({
+  name,
+  orderId,
+  items,
+  total,
+  address,
+  orderUrl
+}: OrderConfirmationTemplateData): MailContent => {
+  const title = `Recibimos tu pedido #${orderId}`;
+
+  const rows = items
+    .map(
+      (item) => `
+        <tr>
+          <td style="padding:6px 0;">${escapeHtml(item.name)}</td>
+          <td style="padding:6px 0;text-align:center;">${item.quantity}</td>
+          <td style="padding:6px 0;text-align:right;">${formatCurrency(item.price * item.quantity)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return {
+    subject: title,
+    text: renderTextLayout([
+      `Hola ${name},`,
+      '',
+      `Gracias por tu compra. Recibimos tu pedido #${orderId} y te avisaremos cuando sea enviado.`,
+      '',
+      ...items.map((item) => `- ${item.name} x${item.quantity}: ${formatCurrency(item.price * item.quantity)}`),
+      '',
+      `Total: ${formatCurrency(total)}`,
+      `Envío a: ${formatAddress(address)}`,
+      '',
+      `Consulta tu pedido: ${orderUrl}`
+    ]),
+    html: renderHtmlLayout(
+      title,
+      `
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Gracias por tu compra. Recibimos tu pedido #${orderId} y te avisaremos cuando sea enviado.</p>
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">
+        <tr style="border-bottom:1px solid #e4e4e7;">
+          <th style="padding:6px 0;text-align:left;">Producto</th>
+          <th style="padding:6px 0;text-align:center;">Cantidad</th>
+          <th style="padding:6px 0;text-align:right;">Subtotal</th>
+        </tr>${rows}
+        <tr style="border-top:1px solid #e4e4e7;">
+          <td colspan="2" style="padding:6px 0;font-weight:bold;">Total</td>
+          <td style="padding:6px 0;text-align:right;font-weight:bold;">${formatCurrency(total)}</td>
+        </tr>
+      </table>
+      <p><strong>Envío a:</strong> ${escapeHtml(formatAddress(address))}</p>
+      ${renderButton(orderUrl, 'Ver mi pedido')}
+    `
+    )
+  };
+};
@@ -0,0 +1,54 @@
+import { MailContent } from '../../types/mail.types';
+import { escapeHtml } from './helpers';
+import { renderButton, renderHtmlLayout, renderTextLayout } from './layout';
+
+/**
+ * Datos del correo de restablecimiento de contraseña
+ */
+export interface PasswordResetTemplateData {
+  /** Nombre del usuario */
+  name: string;
+  /** Enlace para elegir la nueva contraseña */
+  resetUrl: string;
+  /** Minutos de validez del enlace */
+  expiresInMinutes: number;
+}
+
+/**
+ * Plantilla del correo de restablecimiento de contraseña
+ * @param data - Nombre del usuario, enlace de restablecimiento y su validez
+ * @returns Asunto y contenido (texto y HTML) del correo
+ */
+export const passwordResetTemplate = ({
+  name,
+  resetUrl,
+  expiresInMinutes
+}: PasswordResetTemplateData): MailContent => {
+  const title = 'Restablece tu contraseña';
+
+  return {
+    subject: title,
+    text: renderTextLayout([
+      `Hola ${name},`,
+      '',
+      'Recibimos una solicitud para restablecer la contraseña de tu cuenta.',
+      `Para elegir una nueva contraseña, abre este enlace (válido por ${expiresInMinutes} minutos):`,
+      resetUrl,
+      '',
+      'Si no solicitaste el cambio, ignora este correo: tu contraseña actual seguirá funcionando.'
+    ]),
+    html: renderHtmlLayout(
+      title,
+      `
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Recibimos una solicitud para restablecer la contraseña de tu cuenta.</p>
+      <p>
+        Para elegir una nueva contraseña, haz clic en el siguiente enlace
+        (válido por ${expiresInMinutes} minutos):
+      </p>
+      ${renderButton(resetUrl, 'Restablecer contraseña')}
+      <p>Si no solicitaste el cambio, ignora este correo: tu contraseña actual seguirá funcionando.</p>
+    `
+    )
+  };
+};
@@ -0,0 +1,55 @@
+import { MailContent } from '../../types/mail.types';
+import { escapeHtml, formatAddress, MailAddress } from './helpers';
+import { renderButton, renderHtmlLayout, renderTextLayout } from './layout';
+
+/**
+ * Datos del correo de envío de un pedido
+ */
+export interface ShippingNotificationTemplateData {
+  /** Nombre del cliente */
+  name: string;
+  /** ID del pedido */
+  orderId: number;
+  /** Nota del cambio de estado (ej: transportadora y número de guía) */
+  note?: string | null;
+  /** Dirección de envío */
+  address: MailAddress;
+  /** Enlace al detalle del pedido */
+  orderUrl: string;
+}
+
+/**
+ * Plantilla del correo que avisa al cliente que su pedido fue enviado
+ * @param data - Cliente, pedido, nota del envío, dirección y enlace al pedido
+ * @returns Asunto y contenido (texto y HTML) del correo
+ */
+export const shippingNotificationTemplate = ({
+  name,
+  orderId,
+  note,
+  address,
+  orderUrl
+}: ShippingNotificationTemplateData): MailContent => {
+  const title = `Tu pedido #${orderId} va en camino`;
+
+  return {
+    subject: title,
+    text: renderTextLayout([
+      `Hola ${name},`,
+      '',
+      `Tu pedido #${orderId} fue enviado a: ${formatAddress(address)}`,
+      ...(note ? ['', `Información del envío: ${note}`] : []),
+      '',
+      `Consulta tu pedido: ${orderUrl}`
+    ]),
+    html: renderHtmlLayout(
+      title,
+      `
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Tu pedido #${orderId} fue enviado a: ${escapeHtml(formatAddress(address))}</p>
+      ${note ? `<p><strong>Información del envío:</strong> ${escapeHtml(note)}</p>` : ''}
+      ${renderButton(orderUrl, 'Ver mi pedido')}
+    `
+    )
+  };
+};
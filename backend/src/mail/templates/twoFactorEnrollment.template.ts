@@ -0,0 +1,51 @@
+import { MailContent } from '../../types/mail.types';
+import { escapeHtml } from './helpers';
+import { renderHtmlLayout, renderTextLayout } from './layout';
+
+/**
+ * Datos del correo de confirmación de la verificación en dos pasos
+ */
+export interface TwoFactorEnrollmentTemplateData {
+  /** Nombre del usuario */
+  name: string;
+  /** Código que confirma la activación */
+  code: string;
+  /** Minutos de validez del código */
+  expiresInMinutes: number;
+}
+
+/**
+ * Plantilla del correo que confirma la activación de la verificación en dos pasos
+ * @param data - Nombre del usuario, código de confirmación y su validez
+ * @returns Asunto y contenido (texto y HTML) del correo
+ */
+export const twoFactorEnrollmentTemplate = ({
+  name,
+  code,
+  expiresInMinutes
+}: TwoFactorEnrollmentTemplateData): MailContent => {
+  const title = 'Confirma la verificación en dos pasos';
+
+  return {
+    subject: title,
+    text: renderTextLayout([
+      `Hola ${name},`,
+      '',
+      'Se está activando la verificación en dos pasos en tu cuenta.',
+      `Para confirmarla, ingresa este código (válido por ${expiresInMinutes} minutos):`,
+      code,
+      '',
+      'Si no fuiste tú, alguien conoce tu contraseña: cámbiala de inmediato y avisa al equipo de soporte.'
+    ]),
+    html: renderHtmlLayout(
+      title,
+      `
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Se está activando la verificación en dos pasos en tu cuenta.</p>
+      <p>Para confirmarla, ingresa este código (válido por ${expiresInMinutes} minutos):</p>
+      <p style="font-size: 24px; font-weight: bold; letter-spacing: 4px;">${escapeHtml(code)}</p>
+      <p>Si no fuiste tú, alguien conoce tu contraseña: cámbiala de inmediato y avisa al equipo de soporte.</p>
+    `
+    )
+  };
+};
@@ -0,0 +1,44 @@
+import { MailContent } from '../../types/mail.types';
+import { MAIL_CONFIG } from '../../constants/mail.constants';
+import { escapeHtml } from './helpers';
+import { renderButton, renderHtmlLayout, renderTextLayout } from './layout';
+
+/**
+ * Datos del correo de bienvenida
+ */
+export interface WelcomeTemplateData {
+  /** Nombre del usuario */
+  name: string;
+  /** Enlace a la tienda */
+  shopUrl: string;
+}
+
+/**
+ * Plantilla del correo de bienvenida a una cuenta nueva
+ * @param data - Nombre del usuario y enlace a la tienda
+ * @returns Asunto y contenido (texto y HTML) del correo
+ */
+export const welcomeTemplate = ({ name, shopUrl }: WelcomeTemplateData): MailContent => {
+  const title = `¡Te damos la bienvenida a ${MAIL_CONFIG.STORE_NAME}!`;
+
+  return {
+    subject: title,
+    text: renderTextLayout([
+      `Hola ${name},`,
+      '',
+      'Tu cuenta se creó correctamente. Ya puedes explorar el catálogo, guardar tus direcciones',
+      'y seguir el estado de tus pedidos desde tu cuenta.',
+      '',
+      `Visita la tienda: ${shopUrl}`
+    ]),
+    html: renderHtmlLayout(
+      title,
+      `
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Tu cuenta se creó correctamente. Ya puedes explorar el catálogo, guardar tus direcciones
+        y seguir el estado de tus pedidos desde tu cuenta.</p>
+      ${renderButton(shopUrl, 'Ir a la tienda')}
+    `
+    )
+  };
+};
@@ -0,0 +1,14 @@
+import logger from '../../utils/logger';
+import { MailTransport } from '../../types/mail.types';
+
+/**
+ * Transporte de desarrollo: escribe el correo en el log en lugar de enviarlo
+ */
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    logger.info(
+      `[MAIL] Para: ${message.to} | De: ${message.from} | Asunto: ${message.subject}\n${message.text}`
+    );
+  }
+};
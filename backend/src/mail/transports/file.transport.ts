@@ -0,0 +1,22 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { MailTransport } from '../../types/mail.types';
+
+/**
+ * Crea un transporte de desarrollo que guarda cada correo como un archivo JSON
+ * @param outboxDir - Carpeta de salida (se crea si no existe)
+ * @returns Transporte de correo
+ */
+export const createFileTransport = (outboxDir: string): MailTransport => ({
+  name: 'file',
+  async send(message) {
+    await fs.mkdir(outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(
+      path.join(outboxDir, fileName),
+      JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2)
+    );
+  }
+});
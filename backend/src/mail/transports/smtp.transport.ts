@@ -0,0 +1,40 @@
+import nodemailer from 'nodemailer';
+import { MailTransport } from '../../types/mail.types';
+
+/**
+ * Opciones de conexión del servidor SMTP
+ */
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Crea un transporte que envía los correos a través de un servidor SMTP (nodemailer)
+ * @param options - Servidor, puerto, modo TLS y credenciales (opcionales)
+ * @returns Transporte de correo
+ */
+export const createSmtpTransport = ({ host, port, secure, user, pass }: SmtpOptions): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    ...(user && { auth: { user, pass } })
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      });
+    }
+  };
+};
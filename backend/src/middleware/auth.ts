@@ -1,15 +1,20 @@
 /**
  * Módulo de middleware de autenticación
  * Proporciona middlewares para:
- * - Verificación de tokens JWT
- * - Control de acceso basado en roles
+ * - Verificación de tokens JWT y de la sesión del servidor a la que pertenecen
+ * - Control de acceso basado en roles (con verificación en dos pasos obligatoria para administradores)
+ * - Exigencia de correo verificado para acciones sensibles
  * - Verificación de propiedad de recursos
  */
 
 // Importación de dependencias
 import { Request, Response, NextFunction } from 'express'; // Tipos de Express
 import jwt from 'jsonwebtoken'; // Para verificar tokens JWT
-import { createError, unauthorized } from './errorHandler'; // Utilidades para manejo de errores
+import { createError, forbidden, unauthorized } from './errorHandler'; // Utilidades para manejo de errores
+import { findActiveSession } from '../services/sessionService'; // Almacén de sesiones del servidor
+import { isEmailVerified } from '../services/emailVerificationService'; // Estado de verificación del correo
+import { meetsTwoFactorPolicy } from '../services/twoFactorService'; // Política de verificación en dos pasos
+import { AUTH_ERRORS } from '../constants/auth.constants'; // Mensajes de error de autenticación
 
 /**
  * Extensión de la interfaz Request de Express para incluir la propiedad user
@@ -20,8 +25,11 @@ declare global {
       user?: {
         userId: string;  // ID del usuario autenticado
         role: string;   // Rol del usuario (ej: 'ADMIN', 'USER')
+        sid: string;    // ID de la sesión del servidor a la que pertenece el token
+        jti: string;    // ID único del token
         iat: number;    // Timestamp de emisión del token (issued at)
         exp: number;    // Timestamp de expiración del token (expiration)
+        imp?: string;   // ID del administrador que suplanta al usuario (sesiones de suplantación)
       };
     }
   }
@@ -34,6 +42,93 @@ declare global {
  */
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'; // Usar una clave segura en producción
 
+/**
+ * Datos del usuario contenidos en un token JWT de acceso
+ */
+export type AuthTokenPayload = NonNullable<Express.Request['user']>;
+
+/**
+ * Verifica y decodifica un token JWT de acceso
+ * Solo comprueba la firma y la expiración; authenticateToken además valida la sesión
+ * 
+ * @param token - Token JWT
+ * @returns Datos del usuario contenidos en el token
+ * @throws {Error} Error 401 si el token es inválido o expiró
+ */
+export const verifyAccessToken = (token: string): AuthTokenPayload => {
+  try {
+    // Verificar y decodificar el token
+    const decoded = jwt.verify(token, JWT_SECRET) as AuthTokenPayload;
+
+    // Los tokens sin sesión (emitidos antes de las sesiones del servidor) no se aceptan
+    if (!decoded.sid || !decoded.jti) {
+      throw unauthorized('Token inválido');
+    }
+
+    return {
+      userId: decoded.userId,
+      role: decoded.role,
+      sid: decoded.sid,
+      jti: decoded.jti,
+      iat: decoded.iat,
+      exp: decoded.exp
+    };
+  } catch (error) {
+    if (error instanceof Error && 'isOperational' in error) {
+      throw error;
+    } else if (error instanceof jwt.TokenExpiredError) {
+      throw unauthorized('Token expirado');
+    } else if (error instanceof jwt.JsonWebTokenError) {
+      throw unauthorized('Token inválido');
+    }
+    throw createError('Error de autenticación', 500, 'AUTH_ERROR');
+  }
+};
+
+/**
+ * Verifica un token de acceso, que su sesión siga activa en el servidor y que la cuenta
+ * no esté suspendida ni eliminada
+ * Un token con firma válida deja de aceptarse en cuanto se revoca su sesión
+ * (cierre de sesión, cambio de contraseña o cierre forzado por un administrador)
+ * 
+ * @param token - Token JWT
+ * @returns Promesa que resuelve con los datos del usuario contenidos en el token
+ *          (con el administrador que lo suplanta, si la sesión es de suplantación)
+ * @throws {Error} Error 401 si el token es inválido, expiró o su sesión fue revocada; 403 si la cuenta está suspendida
+ */
+export const authenticateToken = async (token: string): Promise<AuthTokenPayload> => {
+  const payload = verifyAccessToken(token);
+  const session = await findActiveSession(payload.sid, Number(payload.userId));
+
+  if (!session || session.user.deleted_at) {
+    throw unauthorized('La sesión fue cerrada, inicia sesión de nuevo');
+  }
+
+  if (session.user.suspended_at) {
+    throw forbidden(AUTH_ERRORS.ACCOUNT_SUSPENDED);
+  }
+
+  return {
+    ...payload,
+    ...(session.impersonatorId && { imp: session.impersonatorId.toString() })
+  };
+};
+
+/**
+ * Obtiene el token de acceso de la petición
+ * Primero del header 'Authorization' (formato: 'Bearer <token>') y luego de la cookie 'token'
+ * 
+ * @param req - Objeto de solicitud de Express
+ * @returns Token JWT o cadena vacía si no se envió
+ */
+const getRequestToken = (req: Request): string => {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+  return req.cookies?.token || '';
+};
+
 /**
  * Middleware para verificar la autenticación mediante JWT
  * Extrae el token del header 'Authorization' (formato: 'Bearer <token>')
@@ -44,50 +139,50 @@ const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'; // Usar una clav
  * @param next - Función para pasar al siguiente middleware
  * @returns Llama a next() si la autenticación es exitosa, o devuelve un error 401 si falla
  */
-export const authenticate = (req: Request, _res: Response, next: NextFunction) => {
+export const authenticate = async (req: Request, _res: Response, next: NextFunction) => {
   try {
     // Obtener el token del header Authorization o de las cookies
-    let token = '';
-    
-    // 1. Verificar el header Authorization
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } 
-    // 2. Si no está en el header, verificar las cookies
-    else if (req.cookies?.token) {
-      token = req.cookies.token;
-    }
+    const token = getRequestToken(req);
 
     if (!token) {
       return next(unauthorized('No se proporcionó un token de autenticación'));
     }
 
-    // Verificar y decodificar el token
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      userId: string;
-      role: string;
-      iat: number;
-      exp: number;
-    };
-
     // Añadir la información del usuario al objeto de solicitud
-    req.user = {
-      userId: decoded.userId,
-      role: decoded.role,
-      iat: decoded.iat,
-      exp: decoded.exp
-    };
+    req.user = await authenticateToken(token);
+
+    // Las sesiones de suplantación solo permiten consultar (reproducir lo que ve el cliente)
+    if (req.user.imp && !['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+      return next(forbidden(AUTH_ERRORS.IMPERSONATION_READ_ONLY));
+    }
 
     next();
   } catch (error) {
-    if (error instanceof jwt.TokenExpiredError) {
-      return next(unauthorized('Token expirado'));
-    } else if (error instanceof jwt.JsonWebTokenError) {
-      return next(unauthorized('Token inválido'));
+    next(error);
+  }
+};
+
+/**
+ * Middleware de autenticación opcional
+ * Si la petición trae un token válido con su sesión activa, añade req.user;
+ * en cualquier otro caso continúa sin usuario y sin devolver error
+ * 
+ * @param req - Objeto de solicitud de Express
+ * @param _res - Objeto de respuesta de Express (no utilizado)
+ * @param next - Función para pasar al siguiente middleware
+ */
+export const optionalAuthenticate = async (req: Request, _res: Response, next: NextFunction) => {
+  const token = getRequestToken(req);
+
+  if (token) {
+    try {
+      req.user = await authenticateToken(token);
+    } catch {
+      req.user = undefined;
     }
-    next(createError('Error de autenticación', 500, 'AUTH_ERROR'));
   }
+
+  next();
 };
 
 /**
@@ -96,13 +191,44 @@ export const authenticate = (req: Request, _res: Response, next: NextFunction) =
  * @param req - Objeto de solicitud de Express (debe contener req.user)
  * @param _res - Objeto de respuesta de Express (no utilizado)
  * @param next - Función para pasar al siguiente middleware
- * @returns Llama a next() si el usuario es administrador, o devuelve un error 403 si no tiene permisos
+ * @returns Llama a next() si el usuario es administrador (con la verificación en dos pasos activa
+ *          si es obligatoria), o devuelve un error 403 si no tiene permisos
  */
-export const isAdmin = (req: Request, _res: Response, next: NextFunction) => {
+export const isAdmin = async (req: Request, _res: Response, next: NextFunction) => {
   if (req.user?.role !== 'ADMIN') {
     return next(createError('Acceso denegado: Se requieren permisos de administrador', 403, 'FORBIDDEN'));
   }
-  next();
+
+  try {
+    // Con TWO_FACTOR_REQUIRED_FOR_ADMINS, la administración exige la verificación en dos pasos activa
+    if (!(await meetsTwoFactorPolicy(Number(req.user.userId), req.user.role))) {
+      return next(createError(AUTH_ERRORS.TWO_FACTOR_REQUIRED_FOR_ADMIN, 403, 'FORBIDDEN'));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Middleware para exigir que el usuario autenticado haya verificado su correo electrónico
+ * Se usa en acciones sensibles (ej: checkout). Debe ir después de authenticate
+ * El estado se consulta en la base de datos para reflejar una verificación reciente
+ * 
+ * @param req - Objeto de solicitud de Express (debe contener req.user)
+ * @param _res - Objeto de respuesta de Express (no utilizado)
+ * @param next - Función para pasar al siguiente middleware
+ * @returns Llama a next() si el correo está verificado, o devuelve un error 403 si no
+ */
+export const requireVerifiedEmail = async (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !(await isEmailVerified(Number(req.user.userId)))) {
+      return next(createError(AUTH_ERRORS.EMAIL_NOT_VERIFIED, 403, 'FORBIDDEN'));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
 
 /**
@@ -127,26 +253,41 @@ export const checkRole = (roles: string[]) => {
 /**
  * Factory de middleware para verificar propiedad del recurso o rol de administrador
  * 
- * @param userIdField - Nombre del parámetro de ruta que contiene el ID del usuario propietario
+ * @param userIdField - Nombre del parámetro de ruta que contiene el ID del usuario propietario,
+ *                      o el ID del recurso cuando se indica resolveOwnerId
+ * @param resolveOwnerId - Función opcional que obtiene el ID del propietario a partir del parámetro
+ *                         (ej: el usuario dueño de un pedido). Devuelve null si el recurso no existe
  * @returns Middleware de Express que verifica si el usuario es el propietario o es administrador
  * 
  * @example
  * // Uso en una ruta
  * router.put('/users/:id', isOwnerOrAdmin('id'), userController.update);
+ * router.get('/orders/:id', isOwnerOrAdmin('id', getOrderOwnerId), orderController.getOrder);
  */
-export const isOwnerOrAdmin = (userIdField = 'id') => {
-  return (req: Request, _res: Response, next: NextFunction) => {
-    // Si es administrador, permitir acceso
-    if (req.user?.role === 'ADMIN') {
-      return next();
-    }
-    
-    // Verificar si el ID del usuario autenticado coincide con el ID en los parámetros
-    const userId = req.params[userIdField];
-    if (req.user?.userId !== userId) {
-      return next(createError('No tienes permisos para acceder a este recurso', 403, 'FORBIDDEN'));
+export const isOwnerOrAdmin = (
+  userIdField = 'id',
+  resolveOwnerId?: (resourceId: string) => Promise<number | null>
+) => {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      // Si es administrador (y cumple la política de verificación en dos pasos), permitir acceso
+      if (req.user?.role === 'ADMIN' && (await meetsTwoFactorPolicy(Number(req.user.userId), req.user.role))) {
+        return next();
+      }
+      
+      // Obtener el ID del propietario (directamente del parámetro o a partir del recurso)
+      const ownerId = resolveOwnerId
+        ? await resolveOwnerId(req.params[userIdField])
+        : req.params[userIdField];
+
+      // Verificar si el ID del usuario autenticado coincide con el del propietario
+      if (ownerId === null || req.user?.userId !== String(ownerId)) {
+        return next(createError('No tienes permisos para acceder a este recurso', 403, 'FORBIDDEN'));
+      }
+      
+      next();
+    } catch (error) {
+      next(error);
     }
-    
-    next();
   };
 };
@@ -18,6 +18,9 @@ class AppError extends Error {
   /** Indica si el error es operacional (predecible) o un error inesperado */
   isOperational: boolean;
 
+  /** Segundos que el cliente debe esperar antes de reintentar (cabecera Retry-After, opcional) */
+  retryAfter?: number;
+
   /**
    * Crea una nueva instancia de AppError
    * @param message - Mensaje descriptivo del error
@@ -82,6 +85,14 @@ export const errorHandler = (
     errorType = 'VALIDATION_ERROR';
     message = 'Error de validación';
     errors = Object.values((err as any).errors).map((e: any) => e.message);
+  } else if (err.name === 'ZodError') {
+    // Errores de validación de esquemas zod
+    statusCode = 400;
+    errorType = 'VALIDATION_ERROR';
+    message = 'Error de validación';
+    errors = (err as any).issues.map((issue: any) =>
+      issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
   } else if ((err as any).code === 'P2002') {
     // Error de duplicado de Prisma
     statusCode = 409;
@@ -99,6 +110,12 @@ export const errorHandler = (
     // Errores operacionales conocidos
     message = err.message;
     errorType = (err as any).errorType || 'INTERNAL_SERVER_ERROR';
+    errors = (err as any).errors;
+  }
+
+  // Indicar cuándo puede reintentarse la petición (errores 429 con tiempo de espera)
+  if (err instanceof AppError && err.retryAfter) {
+    res.set('Retry-After', String(err.retryAfter));
   }
 
   // Log del error (en producción, usa un logger real)
@@ -169,6 +186,23 @@ export const unauthorized = (message = 'No autorizado') =>
 export const forbidden = (message = 'No tiene permisos para realizar esta acción') =>
   createError(message, 403, ERROR_TYPES.FORBIDDEN);
 
+/**
+ * Función de ayuda para errores 409 (Conflicto)
+ * @param message - Mensaje personalizado (opcional)
+ * @param errors - Detalle de los conflictos encontrados (opcional)
+ * @returns Error con código 409
+ *
+ * @example
+ * throw conflict('Stock insuficiente', ['Vestido azul: disponible 1, solicitado 2']);
+ */
+export const conflict = (message = 'El recurso está en conflicto con el estado actual', errors?: string[]) => {
+  const error = createError(message, 409, ERROR_TYPES.CONFLICT);
+  if (errors?.length) {
+    (error as any).errors = errors;
+  }
+  return error;
+};
+
 /**
  * Función de ayuda para errores de validación (400)
  * @param errors - Array de mensajes de error de validación
@@ -182,3 +216,18 @@ export const validationError = (errors: string[]) => {
   (error as any).errors = errors; // Añade la lista de errores al objeto de error
   return error;
 };
+
+/**
+ * Función de ayuda para errores 429 (Demasiadas peticiones)
+ * @param message - Mensaje personalizado
+ * @param retryAfterSeconds - Segundos hasta el siguiente intento permitido (cabecera Retry-After)
+ * @returns Error con código 429 y el tiempo de espera
+ *
+ * @example
+ * throw tooManyRequests('Demasiados intentos, inténtalo más tarde', 60);
+ */
+export const tooManyRequests = (message: string, retryAfterSeconds: number) => {
+  const error = createError(message, 429, ERROR_TYPES.RATE_LIMIT);
+  error.retryAfter = retryAfterSeconds;
+  return error;
+};
@@ -0,0 +1,104 @@
+/**
+ * Módulo de middleware de límite de peticiones
+ * Crea un limitador por cada política con nombre (constants/rateLimit.constants.ts)
+ * Los contadores de cada política se guardan en el almacén activo (utils/rateLimitStore.ts),
+ * en memoria por defecto o compartido entre instancias con Redis
+ * Si el almacén falla (ej: Redis caído), el error se registra y la petición pasa sin límite
+ */
+
+// Importación de dependencias
+import { Request, Response, RequestHandler } from 'express'; // Tipos de Express
+import rateLimit, { Store } from 'express-rate-limit'; // Límite de peticiones
+import {
+  RATE_LIMIT_POLICIES,
+  RATE_LIMIT_STORE_CONFIG,
+  RateLimitPolicyName
+} from '../constants/rateLimit.constants'; // Políticas con nombre
+import { getRateLimitStore } from '../utils/rateLimitStore'; // Almacén de contadores activo
+import logger from '../utils/logger'; // Registro de eventos
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Limitadores ya creados (uno por política, compartido por todos los routers que la usan)
+ */
+const limiters = new Map<RateLimitPolicyName, RequestHandler>();
+
+/**
+ * Registra un error del almacén de contadores
+ * @param name - Nombre de la política
+ * @param error - Error recibido del almacén
+ */
+const logStoreError = (name: RateLimitPolicyName, error: unknown): void => {
+  logger.error(`Error del almacén de límite de peticiones (política ${name})`, { error });
+};
+
+/**
+ * Adapta el almacén de contadores activo a la interfaz de express-rate-limit
+ * Las claves llevan el nombre de la política para que cada una tenga su propio cupo
+ * Los errores de increment se propagan para que el limitador deje pasar la petición
+ * (passOnStoreError); los de decrement y resetKey solo se registran
+ */
+const createPolicyStore = (name: RateLimitPolicyName, windowMs: number): Store => {
+  const prefix = `${RATE_LIMIT_STORE_CONFIG.KEY_PREFIX}${name}:`;
+
+  return {
+    prefix,
+    increment: (key) =>
+      getRateLimitStore().increment(`${prefix}${key}`, windowMs).catch((error) => {
+        logStoreError(name, error);
+        throw error;
+      }),
+    decrement: (key) =>
+      getRateLimitStore().decrement(`${prefix}${key}`).catch((error) => logStoreError(name, error)),
+    resetKey: (key) =>
+      getRateLimitStore().resetKey(`${prefix}${key}`).catch((error) => logStoreError(name, error))
+  };
+};
+
+/**
+ * Middleware que aplica una política de límite de peticiones
+ * @param name - Nombre de la política
+ * @returns Middleware de Express que responde 429 al superar el límite
+ */
+export const rateLimitPolicy = (name: RateLimitPolicyName): RequestHandler => {
+  const existing = limiters.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const policy = RATE_LIMIT_POLICIES[name];
+
+  const limiter = rateLimit({
+    windowMs: policy.windowMs,
+    max: policy.max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: createPolicyStore(name, policy.windowMs),
+    // Un fallo del almacén no debe bloquear la API: la petición pasa sin límite
+    passOnStoreError: true,
+    // Las políticas por usuario deben ir después de authenticate; req.ip es la IP que vio el
+    // servidor de Next.js, nunca un valor escrito por el cliente (utils/trustProxy.ts)
+    keyGenerator: (req: Request) =>
+      policy.keyBy === 'user' && req.user ? `user:${req.user.userId}` : `ip:${req.ip}`,
+    skip: (req: Request) => {
+      if (policy.methods === 'all') {
+        return false;
+      }
+      const isRead = READ_METHODS.includes(req.method);
+      return policy.methods === 'read' ? !isRead : isRead;
+    },
+    handler: (_req: Request, res: Response) => {
+      res.status(429).json({
+        success: false,
+        error: {
+          type: 'RATE_LIMIT',
+          message: policy.message
+        }
+      });
+    }
+  });
+
+  limiters.set(name, limiter);
+  return limiter;
+};
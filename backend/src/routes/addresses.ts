@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { authenticate, isOwnerOrAdmin } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getAddresses,
+  getAddress,
+  createAddress,
+  updateAddress,
+  setDefaultAddress,
+  deleteAddress
+} from '../controllers/addressController';
+import { getAddressOwnerId } from '../services/addressService';
+
+const router = Router();
+
+// Todas las rutas de direcciones requieren autenticación (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), rateLimitPolicy('userWrite'));
+
+/**
+ * @route   GET /api/addresses
+ * @desc    Listar las direcciones del usuario (la predeterminada primero)
+ * @access  Private
+ */
+router.get('/', getAddresses);
+
+/**
+ * @route   POST /api/addresses
+ * @desc    Crear una dirección
+ * @access  Private
+ */
+router.post('/', createAddress);
+
+/**
+ * @route   GET /api/addresses/:id
+ * @desc    Obtener una dirección
+ * @access  Private (propietario o administrador)
+ */
+router.get('/:id', isOwnerOrAdmin('id', getAddressOwnerId), getAddress);
+
+/**
+ * @route   PUT /api/addresses/:id
+ * @desc    Actualizar una dirección
+ * @access  Private (propietario o administrador)
+ */
+router.put('/:id', isOwnerOrAdmin('id', getAddressOwnerId), updateAddress);
+
+/**
+ * @route   PUT /api/addresses/:id/default
+ * @desc    Marcar una dirección como predeterminada
+ * @access  Private (propietario o administrador)
+ */
+router.put('/:id/default', isOwnerOrAdmin('id', getAddressOwnerId), setDefaultAddress);
+
+/**
+ * @route   DELETE /api/addresses/:id
+ * @desc    Eliminar una dirección (se archiva si ya se usó en pedidos)
+ * @access  Private (propietario o administrador)
+ */
+router.delete('/:id', isOwnerOrAdmin('id', getAddressOwnerId), deleteAddress);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { authenticate, isAdmin } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import { getAllOrders, getOrder, updateOrderStatus } from '../controllers/orderController';
+import { getSalesReport } from '../controllers/reportController';
+import { getUnansweredQuestions, answerQuestion } from '../controllers/questionController';
+import { getAuditEvents } from '../controllers/auditController';
+
+const router = Router();
+
+// Todas las rutas de administración requieren autenticación y rol de administrador (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), isAdmin, rateLimitPolicy('userWrite'));
+
+/**
+ * @route   GET /api/admin/orders
+ * @desc    Listar todos los pedidos (filtros: status, from, to, email; paginado)
+ * @access  Private/Admin
+ */
+router.get('/orders', getAllOrders);
+
+/**
+ * @route   GET /api/admin/orders/:id
+ * @desc    Obtener el detalle de cualquier pedido
+ * @access  Private/Admin
+ */
+router.get('/orders/:id', getOrder);
+
+/**
+ * @route   PUT /api/admin/orders/:id/status
+ * @desc    Cambiar el estado de un pedido (transiciones validadas; cancelar devuelve el stock)
+ * @access  Private/Admin
+ */
+router.put('/orders/:id/status', updateOrderStatus);
+
+/**
+ * @route   GET /api/admin/reports/sales
+ * @desc    Reporte de ventas por día, semana o mes, productos destacados y categorías
+ *          (parámetros: from, to, groupBy, top, format=json|csv)
+ * @access  Private/Admin
+ */
+router.get('/reports/sales', getSalesReport);
+
+/**
+ * @route   GET /api/admin/questions
+ * @desc    Bandeja de preguntas pendientes de respuesta (paginado)
+ * @access  Private/Admin
+ */
+router.get('/questions', getUnansweredQuestions);
+
+/**
+ * @route   PUT /api/admin/questions/:id/answer
+ * @desc    Responder una pregunta (notifica a quien la hizo por Socket.IO)
+ * @access  Private/Admin
+ */
+router.put('/questions/:id/answer', answerQuestion);
+
+/**
+ * @route   GET /api/admin/audit-events
+ * @desc    Registro de auditoría de inicios de sesión y acciones de administradores
+ *          (filtros: action, result, actorId, targetUserId, ip, from, to; paginado)
+ * @access  Private/Admin
+ */
+router.get('/audit-events', getAuditEvents);
+
+export default router;
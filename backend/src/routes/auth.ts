@@ -3,9 +3,12 @@
  * Define los endpoints para:
  * - Registro de usuarios
  * - Inicio de sesión local y con Google
+ * - Segundo paso del inicio de sesión (verificación en dos pasos)
  * - Gestión de perfiles de usuario
- * - Cierre de sesión
- * - Restablecimiento de contraseña
+ * - Renovación de la sesión (refresh tokens)
+ * - Cierre de sesión (actual o en todos los dispositivos)
+ * - Cambio y restablecimiento de contraseña
+ * - Verificación del correo electrónico
  */
 
 // Importación de dependencias
@@ -15,15 +18,23 @@ import { body, validationResult } from 'express-validator'; // Validación de da
 // Controladores
 import { 
   loginWithGoogle, 
+  forgotPassword,
   resetPassword,
   getProfile,
   logout,
   registerHandler,
-  loginHandler
+  loginHandler,
+  loginTwoFactorHandler,
+  refreshTokenHandler,
+  logoutAll,
+  changePassword,
+  verifyEmail,
+  resendVerificationEmail
 } from '../controllers/authController';
 
 // Middleware de autenticación
-import { authenticate } from '../middleware/auth'; // Middleware para proteger rutas
+import { authenticate, optionalAuthenticate } from '../middleware/auth'; // Middleware para proteger rutas
+import { rateLimitPolicy } from '../middleware/rateLimit'; // Políticas de límite de peticiones
 
 // Crear enrutador
 const router = Router();
@@ -35,8 +46,13 @@ const router = Router();
 export const publicRoutes = [
   { path: '/api/register', method: 'POST' },        // Registro de usuarios
   { path: '/api/login', method: 'POST' },          // Inicio de sesión local
+  { path: '/api/login/2fa', method: 'POST' },      // Segundo paso del inicio de sesión
   { path: '/api/google-login', method: 'POST' },   // Inicio de sesión con Google
-  { path: '/api/reset-password', method: 'POST' }, // Restablecimiento de contraseña
+  { path: '/api/refresh', method: 'POST' },        // Renovación de la sesión
+  { path: '/api/logout', method: 'POST' },         // Cierre de sesión
+  { path: '/api/forgot-password', method: 'POST' }, // Solicitud de restablecimiento de contraseña
+  { path: '/api/reset-password', method: 'POST' }, // Restablecimiento de contraseña con token
+  { path: '/api/verify-email', method: 'POST' },   // Verificación del correo electrónico
 ];
 
 /**
@@ -80,6 +96,77 @@ const loginValidations = [
     .withMessage('La contraseña es requerida')
 ];
 
+/**
+ * Validaciones para el cambio de contraseña
+ */
+const changePasswordValidations = [
+  // Validación del campo 'currentPassword'
+  body('currentPassword')
+    .notEmpty() // No debe estar vacío
+    .withMessage('La contraseña actual es requerida'),
+  
+  // Validación del campo 'newPassword' (mismas reglas que en el registro)
+  body('newPassword')
+    .isLength({ min: 8 }) // Mínimo 8 caracteres
+    .withMessage('La contraseña debe tener al menos 8 caracteres')
+    .matches(/\d/) // Debe contener al menos un número
+    .withMessage('La contraseña debe contener al menos un número')
+];
+
+/**
+ * Validaciones para la solicitud de restablecimiento de contraseña
+ */
+const forgotPasswordValidations = [
+  // Validación del campo 'email'
+  body('email')
+    .isEmail() // Debe ser un correo electrónico válido
+    .withMessage('Por favor ingresa un correo electrónico válido')
+    .normalizeEmail() // Normaliza el formato del correo
+];
+
+/**
+ * Validaciones para el restablecimiento de contraseña con token
+ */
+const resetPasswordValidations = [
+  // Validación del campo 'token'
+  body('token')
+    .isString() // Token recibido en el enlace del correo
+    .notEmpty()
+    .withMessage('El token es requerido'),
+  
+  // Validación del campo 'newPassword' (mismas reglas que en el registro)
+  body('newPassword')
+    .isLength({ min: 8 }) // Mínimo 8 caracteres
+    .withMessage('La contraseña debe tener al menos 8 caracteres')
+    .matches(/\d/) // Debe contener al menos un número
+    .withMessage('La contraseña debe contener al menos un número')
+];
+
+/**
+ * Validaciones para la verificación del correo electrónico
+ */
+const verifyEmailValidations = [
+  // Validación del campo 'token'
+  body('token')
+    .isString() // Token recibido en el enlace del correo
+    .notEmpty()
+    .withMessage('El token es requerido')
+];
+
+/**
+ * Límites de peticiones de las rutas de autenticación
+ * - auth: rutas que reciben credenciales (estricto, por IP)
+ * - general: renovación y cierre de la sesión (por IP)
+ * - authenticated: rutas de la sesión iniciada (por usuario)
+ * - emailVerificationResend: reenvíos del correo de verificación (por usuario)
+ * - twoFactorLogin: intentos del segundo paso del inicio de sesión (por IP)
+ */
+const authLimiter = rateLimitPolicy('auth');
+const sessionLimiter = rateLimitPolicy('general');
+const authenticatedLimiter = rateLimitPolicy('authenticated');
+const resendVerificationLimiter = rateLimitPolicy('emailVerificationResend');
+const twoFactorLoginLimiter = rateLimitPolicy('twoFactorLogin');
+
 /**
  * Middleware para validar los datos de entrada
  * @param validations - Array de validaciones a aplicar
@@ -115,21 +202,43 @@ const validate = (validations: any[]) => {
  */
 
 // Ruta para registro de usuarios
-router.post('/register', validate(registerValidations), registerHandler);
+router.post('/register', authLimiter, validate(registerValidations), registerHandler);
 
 // Ruta para inicio de sesión local
-router.post('/login', validate(loginValidations), loginHandler);
+router.post('/login', authLimiter, validate(loginValidations), loginHandler);
+
+// Ruta para completar el inicio de sesión con el código de verificación en dos pasos
+router.post('/login/2fa', authLimiter, twoFactorLoginLimiter, loginTwoFactorHandler);
 
 // Ruta para inicio de sesión con Google OAuth
-router.post('/google-login', loginWithGoogle);
+router.post('/google-login', authLimiter, loginWithGoogle);
+
+// Ruta para renovar la sesión con el refresh token (rotación)
+router.post('/refresh', sessionLimiter, refreshTokenHandler);
 
-// Ruta para restablecer contraseña
-router.post('/reset-password', resetPassword);
+// Ruta para solicitar el enlace de restablecimiento de contraseña (se envía por correo)
+router.post('/forgot-password', authLimiter, validate(forgotPasswordValidations), forgotPassword);
+
+// Ruta para restablecer la contraseña con el token del enlace
+router.post('/reset-password', authLimiter, validate(resetPasswordValidations), resetPassword);
+
+// Ruta para verificar el correo electrónico con el token del enlace
+router.post('/verify-email', authLimiter, validate(verifyEmailValidations), verifyEmail);
+
+// Ruta protegida para reenviar el enlace de verificación (limitada por usuario)
+router.post('/verify-email/resend', authenticate, resendVerificationLimiter, resendVerificationEmail);
 
 // Ruta protegida para obtener el perfil del usuario
-router.get('/profile', authenticate, getProfile);
+router.get('/profile', authenticate, authenticatedLimiter, getProfile);
+
+// Ruta para cerrar sesión (revoca la sesión del token de acceso y/o del refresh token,
+// por lo que no exige un token de acceso vigente)
+router.post('/logout', sessionLimiter, optionalAuthenticate, logout);
+
+// Ruta protegida para cerrar sesión en todos los dispositivos
+router.post('/logout-all', authenticate, authenticatedLimiter, logoutAll);
 
-// Ruta protegida para cerrar sesión
-router.post('/logout', authenticate, logout);
+// Ruta protegida para cambiar la contraseña (cierra las demás sesiones)
+router.put('/change-password', authLimiter, authenticate, validate(changePasswordValidations), changePassword);
 
 export default router;
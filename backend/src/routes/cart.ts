@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getCart,
+  addItem,
+  updateItem,
+  removeItem,
+  clearCart
+} from '../controllers/cartController';
+
+const router = Router();
+
+// Todas las rutas del carrito requieren autenticación (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), rateLimitPolicy('userWrite'));
+
+/**
+ * @route   GET /api/cart
+ * @desc    Obtener el carrito con los datos de los productos y el subtotal
+ * @access  Private
+ */
+router.get('/', getCart);
+
+/**
+ * @route   POST /api/cart/items
+ * @desc    Agregar un producto al carrito
+ * @access  Private
+ */
+router.post('/items', addItem);
+
+/**
+ * @route   PUT /api/cart/items/:productId
+ * @desc    Establecer la cantidad de un producto del carrito
+ * @access  Private
+ */
+router.put('/items/:productId', updateItem);
+
+/**
+ * @route   DELETE /api/cart/items/:productId
+ * @desc    Eliminar un producto del carrito
+ * @access  Private
+ */
+router.delete('/items/:productId', removeItem);
+
+/**
+ * @route   DELETE /api/cart
+ * @desc    Vaciar el carrito
+ * @access  Private
+ */
+router.delete('/', clearCart);
+
+export default router;
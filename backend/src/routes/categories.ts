@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { authenticate, isAdmin } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getCategories,
+  getCategoryTree,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} from '../controllers/categoryController';
+
+const router = Router();
+
+// Lecturas públicas del catálogo limitadas por IP
+router.use(rateLimitPolicy('catalog'));
+
+/**
+ * @route   GET /api/categories
+ * @desc    Listar todas las categorías
+ * @access  Public
+ */
+router.get('/', getCategories);
+
+/**
+ * @route   GET /api/categories/tree
+ * @desc    Obtener el árbol de categorías con el conteo de productos (navegación)
+ * @access  Public
+ */
+router.get('/tree', getCategoryTree);
+
+/**
+ * @route   POST /api/categories
+ * @desc    Crear una categoría (el slug se genera automáticamente si no se indica)
+ * @access  Private/Admin
+ */
+router.post('/', authenticate, isAdmin, rateLimitPolicy('userWrite'), createCategory);
+
+/**
+ * @route   PUT /api/categories/:id
+ * @desc    Actualizar una categoría
+ * @access  Private/Admin
+ */
+router.put('/:id', authenticate, isAdmin, rateLimitPolicy('userWrite'), updateCategory);
+
+/**
+ * @route   DELETE /api/categories/:id
+ * @desc    Eliminar una categoría sin productos ni subcategorías
+ * @access  Private/Admin
+ */
+router.delete('/:id', authenticate, isAdmin, rateLimitPolicy('userWrite'), deleteCategory);
+
+export default router;
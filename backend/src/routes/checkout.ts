@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import { checkout } from '../controllers/checkoutController';
+
+const router = Router();
+
+/**
+ * @route   POST /api/checkout
+ * @desc    Convertir el carrito en un pedido (precios, stock y total en una transacción)
+ * @access  Private (correo verificado)
+ */
+router.post('/', authenticate, rateLimitPolicy('userWrite'), requireVerifiedEmail, checkout);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getGuestCart,
+  addGuestItem,
+  updateGuestItem,
+  removeGuestItem
+} from '../controllers/cartController';
+
+const router = Router();
+
+// El carrito de invitado no tiene usuario: se limita por IP
+router.use(rateLimitPolicy('general'));
+
+/**
+ * @route   GET /api/guest-cart
+ * @desc    Obtener el carrito de invitado identificado por la cookie guest_cart
+ * @access  Public
+ */
+router.get('/', getGuestCart);
+
+/**
+ * @route   POST /api/guest-cart/items
+ * @desc    Agregar un producto al carrito de invitado
+ * @access  Public
+ */
+router.post('/items', addGuestItem);
+
+/**
+ * @route   PUT /api/guest-cart/items/:productId
+ * @desc    Establecer la cantidad de un producto del carrito de invitado
+ * @access  Public
+ */
+router.put('/items/:productId', updateGuestItem);
+
+/**
+ * @route   DELETE /api/guest-cart/items/:productId
+ * @desc    Eliminar un producto del carrito de invitado
+ * @access  Public
+ */
+router.delete('/items/:productId', removeGuestItem);
+
+export default router;
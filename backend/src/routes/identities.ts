@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import { getIdentities, linkGoogle, linkPassword, unlinkIdentity } from '../controllers/identityController';
+
+const router = Router();
+
+// Todas las rutas de identidades requieren autenticación (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), rateLimitPolicy('userWrite'));
+
+/**
+ * @route   GET /api/identities
+ * @desc    Listar los métodos de inicio de sesión vinculados (contraseña, Google)
+ * @access  Private
+ */
+router.get('/', getIdentities);
+
+/**
+ * @route   POST /api/identities/google
+ * @desc    Vincular una cuenta de Google ({ token, reauth: { password | googleToken } })
+ * @access  Private
+ */
+router.post('/google', linkGoogle);
+
+/**
+ * @route   POST /api/identities/local
+ * @desc    Agregar una contraseña a la cuenta ({ newPassword, reauth: { password | googleToken } })
+ * @access  Private
+ */
+router.post('/local', linkPassword);
+
+/**
+ * @route   DELETE /api/identities/:provider
+ * @desc    Desvincular un método de inicio de sesión (local | google); nunca el último
+ * @access  Private
+ */
+router.delete('/:provider', unlinkIdentity);
+
+export default router;
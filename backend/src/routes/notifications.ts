@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getNotifications,
+  markNotificationAsRead,
+  markAllNotificationsAsRead
+} from '../controllers/notificationController';
+
+const router = Router();
+
+// Todas las rutas de notificaciones requieren autenticación (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), rateLimitPolicy('userWrite'));
+
+/**
+ * @route   GET /api/notifications
+ * @desc    Listar las notificaciones del usuario (filtro opcional ?unread=true)
+ * @access  Private
+ */
+router.get('/', getNotifications);
+
+/**
+ * @route   PUT /api/notifications/read-all
+ * @desc    Marcar todas las notificaciones como leídas
+ * @access  Private
+ */
+router.put('/read-all', markAllNotificationsAsRead);
+
+/**
+ * @route   PUT /api/notifications/:id/read
+ * @desc    Marcar una notificación como leída
+ * @access  Private
+ */
+router.put('/:id/read', markNotificationAsRead);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { authenticate, isOwnerOrAdmin } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import { getMyOrders, getOrder } from '../controllers/orderController';
+import { getOrderOwnerId } from '../services/orderService';
+
+const router = Router();
+
+/**
+ * @route   GET /api/orders
+ * @desc    Listar los pedidos del usuario autenticado (paginado)
+ * @access  Private
+ */
+router.get('/', authenticate, rateLimitPolicy('authenticated'), getMyOrders);
+
+/**
+ * @route   GET /api/orders/:id
+ * @desc    Obtener el detalle de un pedido con su línea de tiempo de estados
+ * @access  Private (propietario o administrador)
+ */
+router.get('/:id', authenticate, rateLimitPolicy('authenticated'), isOwnerOrAdmin('id', getOrderOwnerId), getOrder);
+
+export default router;
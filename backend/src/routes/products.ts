@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { authenticate, isAdmin } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getProducts,
+  getProduct,
+  createProduct,
+  updateProduct,
+  deleteProduct
+} from '../controllers/productController';
+import { getProductReviews } from '../controllers/reviewController';
+import { getProductQuestions } from '../controllers/questionController';
+
+const router = Router();
+
+// Lecturas públicas del catálogo limitadas por IP
+router.use(rateLimitPolicy('catalog'));
+
+/**
+ * @route   GET /api/products
+ * @desc    Listar productos (paginación, orden por precio o fecha, filtros por categoría y precio)
+ * @access  Public
+ */
+router.get('/', getProducts);
+
+/**
+ * @route   GET /api/products/:slug
+ * @desc    Obtener el detalle de un producto por su slug
+ * @access  Public
+ */
+router.get('/:slug', getProduct);
+
+/**
+ * @route   GET /api/products/:slug/reviews
+ * @desc    Listar las reseñas de un producto con su resumen de calificaciones
+ * @access  Public
+ */
+router.get('/:slug/reviews', getProductReviews);
+
+/**
+ * @route   GET /api/products/:slug/questions
+ * @desc    Listar las preguntas respondidas de un producto
+ * @access  Public
+ */
+router.get('/:slug/questions', getProductQuestions);
+
+/**
+ * @route   POST /api/products
+ * @desc    Crear un producto
+ * @access  Private/Admin
+ */
+router.post('/', authenticate, isAdmin, rateLimitPolicy('userWrite'), createProduct);
+
+/**
+ * @route   PUT /api/products/:id
+ * @desc    Actualizar un producto
+ * @access  Private/Admin
+ */
+router.put('/:id', authenticate, isAdmin, rateLimitPolicy('userWrite'), updateProduct);
+
+/**
+ * @route   DELETE /api/products/:id
+ * @desc    Eliminar un producto
+ * @access  Private/Admin
+ */
+router.delete('/:id', authenticate, isAdmin, rateLimitPolicy('userWrite'), deleteProduct);
+
+export default router;
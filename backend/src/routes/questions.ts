@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import { createQuestion } from '../controllers/questionController';
+
+const router = Router();
+
+/**
+ * @route   POST /api/questions
+ * @desc    Hacer una pregunta sobre un producto
+ * @access  Private
+ */
+router.post('/', authenticate, rateLimitPolicy('userWrite'), createQuestion);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { authenticate, isOwnerOrAdmin } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import { createReview, updateReview, deleteReview } from '../controllers/reviewController';
+import { getReviewOwnerId } from '../services/reviewService';
+
+const router = Router();
+
+// Todas las rutas de reseñas requieren autenticación (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), rateLimitPolicy('userWrite'));
+
+/**
+ * @route   POST /api/reviews
+ * @desc    Publicar una reseña (compra verificada, una por producto)
+ * @access  Private
+ */
+router.post('/', createReview);
+
+/**
+ * @route   PUT /api/reviews/:id
+ * @desc    Editar una reseña
+ * @access  Private (autor o administrador)
+ */
+router.put('/:id', isOwnerOrAdmin('id', getReviewOwnerId), updateReview);
+
+/**
+ * @route   DELETE /api/reviews/:id
+ * @desc    Eliminar una reseña
+ * @access  Private (autor o administrador)
+ */
+router.delete('/:id', isOwnerOrAdmin('id', getReviewOwnerId), deleteReview);
+
+export default router;
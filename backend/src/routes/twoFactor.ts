@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} from '../controllers/twoFactorController';
+
+const router = Router();
+
+// Todas las rutas de la verificación en dos pasos requieren autenticación (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), rateLimitPolicy('userWrite'));
+
+/**
+ * @route   GET /api/2fa
+ * @desc    Estado de la verificación en dos pasos (activa, obligatoria, códigos restantes)
+ * @access  Private
+ */
+router.get('/', getTwoFactorStatus);
+
+/**
+ * @route   POST /api/2fa/setup
+ * @desc    Generar el secreto y el URI otpauth ({ reauth: { password | googleToken } })
+ * @access  Private
+ */
+router.post('/setup', setupTwoFactor);
+
+/**
+ * @route   POST /api/2fa/enable
+ * @desc    Activar la verificación con el primer código de la app ({ code, enrollmentCode? })
+ *          enrollmentCode: código enviado por correo cuando la verificación es obligatoria
+ * @access  Private
+ */
+router.post('/enable', enableTwoFactor);
+
+/**
+ * @route   POST /api/2fa/recovery-codes
+ * @desc    Regenerar los códigos de recuperación ({ reauth, code | recoveryCode })
+ * @access  Private
+ */
+router.post('/recovery-codes', regenerateRecoveryCodes);
+
+/**
+ * @route   DELETE /api/2fa
+ * @desc    Desactivar la verificación en dos pasos ({ reauth, code | recoveryCode })
+ * @access  Private
+ */
+router.delete('/', disableTwoFactor);
+
+export default router;
@@ -1,29 +1,29 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticate, isAdmin } from '../middleware/auth';
-import { getUsers, getUserById } from '../controllers/userController';
-
-// Extender la interfaz de Request para incluir user
-declare global {
-  namespace Express {
-    interface Request {
-      user?: {
-        userId: string;
-        role: string;
-        iat: number;
-        exp: number;
-      };
-    }
-  }
-}
+import { rateLimitPolicy } from '../middleware/rateLimit';
+import {
+  getUsers,
+  getUserById,
+  forceLogoutUser,
+  unlockUser,
+  updateUserRole,
+  suspendUser,
+  reactivateUser,
+  deleteUser,
+  impersonateUser
+} from '../controllers/userController';
 
 const router = Router();
 
+// Todas las rutas de usuarios requieren autenticación y rol de administrador (peticiones y escrituras limitadas por usuario)
+router.use(authenticate, rateLimitPolicy('authenticated'), isAdmin, rateLimitPolicy('userWrite'));
+
 /**
  * @route   GET /api/users
  * @desc    Obtener todos los usuarios (solo administradores)
  * @access  Private/Admin
  */
-router.get('/', authenticate, isAdmin, (req: Request, res: Response, next: NextFunction) => {
+router.get('/', (req: Request, res: Response, next: NextFunction) => {
   getUsers(req, res, next);
 });
 
@@ -32,8 +32,57 @@ router.get('/', authenticate, isAdmin, (req: Request, res: Response, next: NextF
  * @desc    Obtener un usuario por ID (solo administradores)
  * @access  Private/Admin
  */
-router.get('/:id', authenticate, isAdmin, (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
   getUserById(req, res, next);
 });
 
+/**
+ * @route   POST /api/users/:id/logout
+ * @desc    Cerrar todas las sesiones de un usuario (solo administradores)
+ * @access  Private/Admin
+ */
+router.post('/:id/logout', forceLogoutUser);
+
+/**
+ * @route   POST /api/users/:id/unlock
+ * @desc    Desbloquear una cuenta bloqueada por intentos fallidos (solo administradores)
+ * @access  Private/Admin
+ */
+router.post('/:id/unlock', unlockUser);
+
+/**
+ * @route   PUT /api/users/:id/role
+ * @desc    Cambiar el rol de un usuario (solo administradores)
+ * @access  Private/Admin
+ */
+router.put('/:id/role', updateUserRole);
+
+/**
+ * @route   POST /api/users/:id/suspend
+ * @desc    Suspender una cuenta (solo administradores)
+ * @access  Private/Admin
+ */
+router.post('/:id/suspend', suspendUser);
+
+/**
+ * @route   POST /api/users/:id/reactivate
+ * @desc    Reactivar una cuenta suspendida (solo administradores)
+ * @access  Private/Admin
+ */
+router.post('/:id/reactivate', reactivateUser);
+
+/**
+ * @route   POST /api/users/:id/impersonate
+ * @desc    Suplantar a un cliente con un token temporal de solo lectura (solo administradores)
+ * @access  Private/Admin
+ */
+router.post('/:id/impersonate', impersonateUser);
+
+/**
+ * @route   DELETE /api/users/:id
+ * @desc    Eliminar una cuenta anonimizando sus datos personales (solo administradores)
+ * @access  Private/Admin
+ */
+router.delete('/:id', deleteUser);
+
 export default router;
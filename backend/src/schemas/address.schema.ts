@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { DeliveryType } from '@prisma/client';
+
+// Cédula de ciudadanía colombiana: entre 6 y 10 dígitos (se aceptan puntos y espacios como separadores)
+const cedulaSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/[.\s]/g, ''))
+  .refine((value) => /^[1-9]\d{5,9}$/.test(value), 'La cédula debe tener entre 6 y 10 dígitos');
+
+// Teléfono colombiano: celular (3XX XXX XXXX) o fijo nacional (60X XXX XXXX), con prefijo +57 opcional
+const phoneSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/[\s()-]/g, '').replace(/^(\+?57)(?=\d{10}$)/, ''))
+  .refine((value) => /^(3\d{9}|60\d{8})$/.test(value), 'Número de teléfono colombiano no válido');
+
+// Esquema para creación de direcciones
+export const createAddressSchema = z.object({
+  name: z.string().trim().min(2, 'El nombre debe tener al menos 2 caracteres'),
+  cedula: cedulaSchema,
+  phone: phoneSchema,
+  country: z.string().trim().min(2).default('Colombia'),
+  city: z.string().trim().min(2, 'La ciudad es requerida'),
+  municipio: z.string().trim().min(2, 'El municipio es requerido'),
+  street: z.string().trim().min(5, 'La dirección debe tener al menos 5 caracteres'),
+  postal_code: z.string().trim().regex(/^\d{6}$/, 'El código postal debe tener 6 dígitos').optional(),
+  delivery_type: z.nativeEnum(DeliveryType, { errorMap: () => ({ message: 'Tipo de entrega no válido (CASA u OFICINA)' }) }),
+  is_default: z.boolean().optional()
+});
+
+// Esquema para actualización de direcciones (todos los campos son opcionales)
+export const updateAddressSchema = createAddressSchema.partial().extend({
+  country: z.string().trim().min(2).optional()
+});
+
+// Tipos inferidos de los esquemas
+export type CreateAddressInput = z.infer<typeof createAddressSchema>;
+export type UpdateAddressInput = z.infer<typeof updateAddressSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { AuditAction, AuditResult } from '@prisma/client';
+import { rangeEndDate } from './dateRange.schema';
+
+// Esquema para los filtros del registro de auditoría
+export const auditEventQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La página debe ser mayor o igual a 1').default(1),
+  limit: z.coerce.number().int().min(1).max(100, 'El límite máximo es 100').default(50),
+  action: z.nativeEnum(AuditAction, { errorMap: () => ({ message: 'Acción no válida' }) }).optional(),
+  result: z.nativeEnum(AuditResult, { errorMap: () => ({ message: 'Resultado no válido' }) }).optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  targetUserId: z.coerce.number().int().positive().optional(),
+  ip: z.string().trim().min(1).optional(),
+  from: z.coerce.date({ invalid_type_error: 'Fecha inicial no válida' }).optional(),
+  to: rangeEndDate('Fecha final no válida').optional()
+}).refine(
+  (query) => !query.from || !query.to || query.from <= query.to,
+  { message: 'La fecha inicial no puede ser posterior a la fecha final', path: ['from'] }
+);
+
+// Tipos inferidos de los esquemas
+export type AuditEventQueryInput = z.infer<typeof auditEventQuerySchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+// Esquema para agregar un producto al carrito
+export const addCartItemSchema = z.object({
+  productId: z.number().int().positive('Producto no válido'),
+  quantity: z.number().int().min(1, 'La cantidad debe ser al menos 1').default(1)
+});
+
+// Esquema para establecer la cantidad de un producto del carrito
+export const updateCartItemSchema = z.object({
+  quantity: z.number().int().min(1, 'La cantidad debe ser al menos 1')
+});
+
+// Tipos inferidos de los esquemas
+export type AddCartItemInput = z.infer<typeof addCartItemSchema>;
+export type UpdateCartItemInput = z.infer<typeof updateCartItemSchema>;
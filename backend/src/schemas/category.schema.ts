@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Esquema para creación de categorías
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(2, 'El nombre debe tener al menos 2 caracteres'),
+  slug: z.string().trim().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug no válido').optional(),
+  parentId: z.number().int().positive('Categoría padre no válida').nullable().optional()
+});
+
+// Esquema para actualización de categorías (todos los campos son opcionales)
+export const updateCategorySchema = createCategorySchema.partial();
+
+// Tipos inferidos de los esquemas
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Esquema para confirmar la compra del carrito
+export const checkoutSchema = z.object({
+  addressId: z.number().int().positive('Dirección no válida')
+});
+
+// Tipos inferidos de los esquemas
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
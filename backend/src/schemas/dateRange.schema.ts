@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Fecha sin hora (AAAA-MM-DD)
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Esquema para la fecha final de un rango
+ * Una fecha sin hora incluye todo ese día, hasta las 23:59:59.999 UTC
+ * @param message - Mensaje de error si la fecha no es válida
+ */
+export const rangeEndDate = (message: string) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' && DATE_ONLY_REGEX.test(value) ? `${value}T23:59:59.999Z` : value),
+    z.coerce.date({ invalid_type_error: message })
+  );
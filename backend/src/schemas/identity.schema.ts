@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { AuthProvider } from '@prisma/client';
+
+// Esquema de las credenciales para confirmar la identidad (contraseña actual o Google)
+export const reauthSchema = z
+  .object({
+    password: z.string().min(1).optional(),
+    googleToken: z.string().min(1).optional()
+  })
+  .refine((data) => data.password || data.googleToken, {
+    message: 'Confirma tu identidad con tu contraseña o con tu cuenta de Google'
+  });
+
+// Esquema para vincular una cuenta de Google
+export const linkGoogleSchema = z.object({
+  token: z.string().min(1, 'El token de Google es requerido'),
+  reauth: reauthSchema
+});
+
+// Esquema para agregar una contraseña a la cuenta
+export const linkPasswordSchema = z.object({
+  newPassword: z
+    .string()
+    .min(8, 'La contraseña debe tener al menos 8 caracteres')
+    .regex(/\d/, 'La contraseña debe contener al menos un número'),
+  reauth: reauthSchema
+});
+
+// Esquema para desvincular un método de inicio de sesión
+export const unlinkIdentitySchema = z.object({
+  reauth: reauthSchema
+});
+
+// Esquema del proveedor en la URL (/api/identities/:provider)
+export const identityProviderSchema = z
+  .enum(['local', 'google'], { message: 'Proveedor no válido' })
+  .transform((provider) => provider.toUpperCase() as AuthProvider);
+
+// Tipos inferidos de los esquemas
+export type ReauthInput = z.infer<typeof reauthSchema>;
+export type LinkGoogleInput = z.infer<typeof linkGoogleSchema>;
+export type LinkPasswordInput = z.infer<typeof linkPasswordSchema>;
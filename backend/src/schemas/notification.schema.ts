@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Esquema para la paginación y el filtro del listado de notificaciones
+export const notificationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La página debe ser mayor o igual a 1').default(1),
+  limit: z.coerce.number().int().min(1).max(50, 'El límite máximo es 50').default(20),
+  unread: z.enum(['true', 'false']).transform((value) => value === 'true').optional()
+});
+
+// Tipos inferidos de los esquemas
+export type NotificationQueryInput = z.infer<typeof notificationQuerySchema>;
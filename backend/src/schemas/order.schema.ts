@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { OrderStatus } from '@prisma/client';
+import { rangeEndDate } from './dateRange.schema';
+
+// Esquema para la paginación del historial de pedidos
+export const orderQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La página debe ser mayor o igual a 1').default(1),
+  limit: z.coerce.number().int().min(1).max(50, 'El límite máximo es 50').default(10)
+});
+
+// Esquema para los filtros del listado de pedidos de administración
+export const adminOrderQuerySchema = orderQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(100, 'El límite máximo es 100').default(20),
+  status: z.nativeEnum(OrderStatus).optional(),
+  from: z.coerce.date({ invalid_type_error: 'Fecha inicial no válida' }).optional(),
+  to: rangeEndDate('Fecha final no válida').optional(),
+  email: z.string().trim().min(1).optional()
+}).refine(
+  (query) => !query.from || !query.to || query.from <= query.to,
+  { message: 'La fecha inicial no puede ser posterior a la fecha final', path: ['from'] }
+);
+
+// Esquema para el cambio de estado de un pedido
+export const updateOrderStatusSchema = z.object({
+  status: z.nativeEnum(OrderStatus, { errorMap: () => ({ message: 'Estado de pedido no válido' }) }),
+  note: z.string().trim().max(500, 'La nota no puede superar 500 caracteres').optional()
+});
+
+// Tipos inferidos de los esquemas
+export type OrderQueryInput = z.infer<typeof orderQuerySchema>;
+export type AdminOrderQueryInput = z.infer<typeof adminOrderQuerySchema>;
+export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
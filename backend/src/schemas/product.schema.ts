@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+// Esquema para los filtros, orden y paginación del listado de productos
+export const productQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La página debe ser mayor o igual a 1').default(1),
+  limit: z.coerce.number().int().min(1).max(100, 'El límite máximo es 100').default(20),
+  sort: z.enum(['price', 'created_at']).default('created_at'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  category: z.string().trim().min(1).optional(),
+  minPrice: z.coerce.number().min(0, 'El precio mínimo no puede ser negativo').optional(),
+  maxPrice: z.coerce.number().min(0, 'El precio máximo no puede ser negativo').optional()
+}).refine(
+  (query) => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice,
+  { message: 'El precio mínimo no puede ser mayor que el precio máximo', path: ['minPrice'] }
+);
+
+// Esquema para creación de productos
+export const createProductSchema = z.object({
+  name: z.string().trim().min(2, 'El nombre debe tener al menos 2 caracteres'),
+  slug: z.string().trim().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug no válido').optional(),
+  description: z.string().trim().optional(),
+  price: z.number().positive('El precio debe ser mayor que cero'),
+  stock: z.number().int().min(0, 'El stock no puede ser negativo').default(0),
+  categoryId: z.number().int().positive('Categoría no válida'),
+  images: z.array(z.string().url('URL de imagen no válida')).optional()
+});
+
+// Esquema para actualización de productos (todos los campos son opcionales)
+export const updateProductSchema = createProductSchema.partial().extend({
+  stock: z.number().int().min(0, 'El stock no puede ser negativo').optional()
+});
+
+// Tipos inferidos de los esquemas
+export type ProductQueryInput = z.infer<typeof productQuerySchema>;
+export type CreateProductInput = z.infer<typeof createProductSchema>;
+export type UpdateProductInput = z.infer<typeof updateProductSchema>;
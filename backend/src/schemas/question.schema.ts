@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Esquema para hacer una pregunta sobre un producto
+export const createQuestionSchema = z.object({
+  productId: z.number().int().positive('Producto no válido'),
+  question: z.string().trim()
+    .min(5, 'La pregunta debe tener al menos 5 caracteres')
+    .max(1000, 'La pregunta no puede superar 1000 caracteres')
+});
+
+// Esquema para responder una pregunta
+export const answerQuestionSchema = z.object({
+  answer: z.string().trim()
+    .min(2, 'La respuesta debe tener al menos 2 caracteres')
+    .max(2000, 'La respuesta no puede superar 2000 caracteres')
+});
+
+// Esquema para la paginación de preguntas
+export const questionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La página debe ser mayor o igual a 1').default(1),
+  limit: z.coerce.number().int().min(1).max(50, 'El límite máximo es 50').default(10)
+});
+
+// Tipos inferidos de los esquemas
+export type CreateQuestionInput = z.infer<typeof createQuestionSchema>;
+export type AnswerQuestionInput = z.infer<typeof answerQuestionSchema>;
+export type QuestionQueryInput = z.infer<typeof questionQuerySchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { rangeEndDate } from './dateRange.schema';
+
+// Esquema para los parámetros del reporte de ventas
+export const salesReportQuerySchema = z.object({
+  from: z.coerce.date({ invalid_type_error: 'Fecha inicial no válida' })
+    .default(() => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+  to: rangeEndDate('Fecha final no válida').default(() => new Date()),
+  groupBy: z.enum(['day', 'week', 'month']).default('day'),
+  top: z.coerce.number().int().min(1).max(50, 'El máximo de productos es 50').default(10),
+  format: z.enum(['json', 'csv']).default('json')
+}).refine(
+  (query) => query.from <= query.to,
+  { message: 'La fecha inicial no puede ser posterior a la fecha final', path: ['from'] }
+);
+
+// Tipos inferidos de los esquemas
+export type SalesReportQueryInput = z.infer<typeof salesReportQuerySchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// Calificación de 1 a 5 estrellas
+const ratingSchema = z
+  .number()
+  .int('La calificación debe ser un número entero')
+  .min(1, 'La calificación mínima es 1')
+  .max(5, 'La calificación máxima es 5');
+
+// Esquema para publicar una reseña
+export const createReviewSchema = z.object({
+  productId: z.number().int().positive('Producto no válido'),
+  rating: ratingSchema,
+  comment: z.string().trim().max(2000, 'El comentario no puede superar 2000 caracteres').optional()
+});
+
+// Esquema para editar una reseña
+export const updateReviewSchema = z.object({
+  rating: ratingSchema.optional(),
+  comment: z.string().trim().max(2000, 'El comentario no puede superar 2000 caracteres').nullable().optional()
+});
+
+// Esquema para la paginación de las reseñas de un producto
+export const reviewQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La página debe ser mayor o igual a 1').default(1),
+  limit: z.coerce.number().int().min(1).max(50, 'El límite máximo es 50').default(10)
+});
+
+// Tipos inferidos de los esquemas
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type UpdateReviewInput = z.infer<typeof updateReviewSchema>;
+export type ReviewQueryInput = z.infer<typeof reviewQuerySchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { reauthSchema } from './identity.schema';
+
+// Campos del segundo factor: código de la app de autenticación o código de recuperación
+const codeFields = {
+  code: z.string().trim().min(1).optional(),
+  recoveryCode: z.string().trim().min(1).optional()
+};
+
+const hasCode = (data: { code?: string; recoveryCode?: string }) => Boolean(data.code || data.recoveryCode);
+const missingCode = { message: 'Ingresa el código de tu app de autenticación o un código de recuperación' };
+
+// Esquema para iniciar la configuración (confirma la identidad antes de generar el secreto)
+export const twoFactorSetupSchema = z.object({
+  reauth: reauthSchema
+});
+
+// Esquema para activar la verificación con el primer código de la app
+// (y el código enviado por correo cuando la verificación es obligatoria para el rol)
+export const twoFactorEnableSchema = z.object({
+  code: z.string().trim().min(1, 'El código es requerido'),
+  enrollmentCode: z.string().trim().min(1).optional()
+});
+
+// Esquema para desactivar la verificación o regenerar los códigos de recuperación
+export const twoFactorConfirmSchema = z
+  .object({ reauth: reauthSchema, ...codeFields })
+  .refine(hasCode, missingCode);
+
+// Esquema para completar el inicio de sesión con el segundo factor
+export const twoFactorLoginSchema = z
+  .object({ challengeToken: z.string().min(1, 'El token del desafío es requerido'), ...codeFields })
+  .refine(hasCode, missingCode);
+
+// Tipos inferidos de los esquemas
+export type TwoFactorCodeInput = { code?: string; recoveryCode?: string };
+export type TwoFactorEnableInput = z.infer<typeof twoFactorEnableSchema>;
+export type TwoFactorConfirmInput = z.infer<typeof twoFactorConfirmSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
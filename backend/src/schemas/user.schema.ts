@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { AuthProvider } from '@prisma/client';
+import { AuthProvider, Role } from '@prisma/client';
 
 // Esquema para registro de usuario
 export const registerSchema = z.object({
@@ -33,9 +33,29 @@ export const resetPasswordSchema = z.object({
   newPassword: z.string().min(8, 'La nueva contraseña debe tener al menos 8 caracteres')
 });
 
+// Esquema para el cambio de rol de un usuario (administración)
+export const updateUserRoleSchema = z.object({
+  role: z.nativeEnum(Role, { errorMap: () => ({ message: 'Rol no válido' }) })
+});
+
+// Esquema para la suspensión de una cuenta (administración)
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().max(500, 'El motivo no puede superar 500 caracteres').optional()
+});
+
+// Esquema para la suplantación de un usuario (el motivo queda en el registro de auditoría)
+export const impersonateUserSchema = z.object({
+  reason: z.string().trim()
+    .min(5, 'Indica el motivo de la suplantación')
+    .max(500, 'El motivo no puede superar 500 caracteres')
+});
+
 // Tipos inferidos de los esquemas
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type GoogleAuthInput = z.infer<typeof googleAuthSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+export type SuspendUserInput = z.infer<typeof suspendUserSchema>;
+export type ImpersonateUserInput = z.infer<typeof impersonateUserSchema>;
@@ -0,0 +1,82 @@
+/**
+ * Pruebas del servicio de checkout: descuento del stock al crear el pedido
+ */
+
+import prisma from '../../prisma/client';
+import { checkout } from '../checkoutService';
+
+const tx = {
+  $queryRaw: jest.fn(),
+  addresses: { findFirst: jest.fn() },
+  cart_items: { findMany: jest.fn(), deleteMany: jest.fn() },
+  products: { updateMany: jest.fn(), findMany: jest.fn() },
+  orders: { create: jest.fn() }
+};
+
+const cartItems = [
+  { id: 1, productId: 10, quantity: 2, product: { id: 10, name: 'Vestido azul', price: 50, stock: 5 } },
+  { id: 2, productId: 20, quantity: 1, product: { id: 20, name: 'Bolso', price: 30, stock: 1 } }
+];
+
+beforeEach(() => {
+  (prisma.$transaction as jest.Mock).mockImplementation((callback) => callback(tx));
+  tx.$queryRaw.mockResolvedValue([{ id: 1 }]);
+  tx.addresses.findFirst.mockResolvedValue({ id: 7 });
+  tx.cart_items.findMany.mockResolvedValue(cartItems);
+  tx.products.updateMany.mockResolvedValue({ count: 1 });
+  tx.products.findMany.mockResolvedValue([]);
+  tx.orders.create.mockImplementation(({ data }) => Promise.resolve({ id: 99, total: data.total, order_items: [] }));
+});
+
+describe('checkout', () => {
+  it('descuenta el stock de cada línea solo si sigue siendo suficiente', async () => {
+    const { order } = await checkout(1, 7);
+
+    expect(tx.products.updateMany).toHaveBeenCalledTimes(2);
+    expect(tx.products.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: 10, stock: { gte: 2 } },
+      data: { stock: { decrement: 2 } }
+    });
+    expect(tx.products.updateMany).toHaveBeenNthCalledWith(2, {
+      where: { id: 20, stock: { gte: 1 } },
+      data: { stock: { decrement: 1 } }
+    });
+    expect(order.total).toBe(130);
+    expect(tx.cart_items.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+  });
+
+  it('rechaza la compra sin descontar stock si alguna línea supera el disponible', async () => {
+    tx.cart_items.findMany.mockResolvedValue([
+      cartItems[0],
+      { ...cartItems[1], quantity: 3 }
+    ]);
+
+    await expect(checkout(1, 7)).rejects.toMatchObject({
+      statusCode: 409,
+      errors: ['Bolso: disponible 1, solicitado 3']
+    });
+    expect(tx.products.updateMany).not.toHaveBeenCalled();
+    expect(tx.orders.create).not.toHaveBeenCalled();
+  });
+
+  it('aborta la transacción si el stock cambió durante una compra simultánea', async () => {
+    tx.products.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(checkout(1, 7)).rejects.toMatchObject({
+      statusCode: 409,
+      errors: ['Bolso: el stock cambió mientras se procesaba la compra']
+    });
+    expect(tx.orders.create).not.toHaveBeenCalled();
+    expect(tx.cart_items.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('rechaza la compra de una cuenta eliminada mientras se procesaba', async () => {
+    tx.$queryRaw.mockResolvedValue([]);
+
+    await expect(checkout(1, 7)).rejects.toMatchObject({ statusCode: 404 });
+    expect(tx.products.updateMany).not.toHaveBeenCalled();
+    expect(tx.orders.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Pruebas de la protección contra la fuerza bruta en el inicio de sesión: espera progresiva y bloqueo
+ */
+
+import prisma from '../../prisma/client';
+import { accountKey, assertLoginAllowed, recordLoginFailure } from '../loginThrottleService';
+import { LOGIN_THROTTLE_CONFIG } from '../../constants/auth.constants';
+
+const loginThrottles = prisma.login_throttles as unknown as Record<string, jest.Mock>;
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const EMAIL = 'Cliente@Example.com';
+const IP = '203.0.113.7';
+
+/**
+ * Contador de la cuenta con el último fallo hace `msAgo` milisegundos
+ */
+const accountThrottle = (failedCount: number, msAgo: number, lockedUntil: Date | null = null) => ({
+  key: accountKey(EMAIL),
+  failed_count: failedCount,
+  last_failed_at: new Date(NOW.getTime() - msAgo),
+  locked_until: lockedUntil
+});
+
+beforeEach(() => {
+  jest.useFakeTimers().setSystemTime(NOW);
+  loginThrottles.findMany.mockResolvedValue([]);
+  loginThrottles.updateMany.mockResolvedValue({ count: 0 });
+  loginThrottles.update.mockResolvedValue({});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('assertLoginAllowed', () => {
+  it('permite los intentos libres sin espera', async () => {
+    loginThrottles.findMany.mockResolvedValueOnce([
+      accountThrottle(LOGIN_THROTTLE_CONFIG.ACCOUNT.FREE_ATTEMPTS, 0)
+    ]);
+
+    await expect(assertLoginAllowed(EMAIL, IP)).resolves.toBeUndefined();
+  });
+
+  it('exige una espera que se duplica con cada fallo adicional', async () => {
+    const { FREE_ATTEMPTS } = LOGIN_THROTTLE_CONFIG.ACCOUNT;
+    loginThrottles.findMany
+      .mockResolvedValueOnce([accountThrottle(FREE_ATTEMPTS + 1, 500)])
+      .mockResolvedValueOnce([accountThrottle(FREE_ATTEMPTS + 3, 500)]);
+
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toMatchObject({ statusCode: 429, retryAfter: 1 });
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toMatchObject({ statusCode: 429, retryAfter: 4 });
+  });
+
+  it('permite un nuevo intento cuando ha pasado la espera', async () => {
+    loginThrottles.findMany.mockResolvedValueOnce([
+      accountThrottle(LOGIN_THROTTLE_CONFIG.ACCOUNT.FREE_ATTEMPTS + 3, 4000)
+    ]);
+
+    await expect(assertLoginAllowed(EMAIL, IP)).resolves.toBeUndefined();
+  });
+
+  it('limita la espera a MAX_DELAY_MS', async () => {
+    loginThrottles.findMany.mockResolvedValueOnce([
+      accountThrottle(LOGIN_THROTTLE_CONFIG.ACCOUNT.FREE_ATTEMPTS + 9, 0)
+    ]);
+
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toMatchObject({
+      retryAfter: LOGIN_THROTTLE_CONFIG.MAX_DELAY_MS / 1000
+    });
+  });
+
+  it('ignora los contadores caducados', async () => {
+    const expiredMs = (LOGIN_THROTTLE_CONFIG.RESET_AFTER_MINUTES + 1) * 60 * 1000;
+    loginThrottles.findMany.mockResolvedValueOnce([
+      accountThrottle(LOGIN_THROTTLE_CONFIG.ACCOUNT.FREE_ATTEMPTS + 5, expiredMs)
+    ]);
+
+    await expect(assertLoginAllowed(EMAIL, IP)).resolves.toBeUndefined();
+  });
+});
+
+describe('recordLoginFailure', () => {
+  it('suma el fallo a la cuenta y a la IP sin bloquear por debajo del umbral', async () => {
+    loginThrottles.upsert
+      .mockResolvedValueOnce({ failed_count: 4 })
+      .mockResolvedValueOnce({ failed_count: 4 });
+
+    await recordLoginFailure(EMAIL, IP);
+
+    expect(loginThrottles.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { key: 'account:cliente@example.com' } })
+    );
+    expect(loginThrottles.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { key: `ip:${IP}` } }));
+    expect(loginThrottles.update).not.toHaveBeenCalled();
+  });
+
+  it('bloquea la cuenta tras la espera progresiva al llegar a LOCK_THRESHOLD', async () => {
+    const { LOCK_THRESHOLD } = LOGIN_THROTTLE_CONFIG.ACCOUNT;
+    const lockedUntil = new Date(NOW.getTime() + LOGIN_THROTTLE_CONFIG.LOCK_MINUTES * 60 * 1000);
+
+    // El fallo anterior al umbral todavía solo exige esperar
+    loginThrottles.findMany.mockResolvedValueOnce([accountThrottle(LOCK_THRESHOLD - 1, 0)]);
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toMatchObject({ statusCode: 429 });
+
+    loginThrottles.upsert
+      .mockResolvedValueOnce({ failed_count: LOCK_THRESHOLD })
+      .mockResolvedValueOnce({ failed_count: LOCK_THRESHOLD });
+    await recordLoginFailure(EMAIL, IP);
+
+    // Solo se bloquea la cuenta: la IP tiene un umbral mayor
+    expect(loginThrottles.update).toHaveBeenCalledTimes(1);
+    expect(loginThrottles.update).toHaveBeenCalledWith({
+      where: { key: 'account:cliente@example.com' },
+      data: { locked_until: lockedUntil }
+    });
+
+    // Aunque pase la espera máxima, el bloqueo se mantiene hasta locked_until
+    jest.setSystemTime(NOW.getTime() + LOGIN_THROTTLE_CONFIG.MAX_DELAY_MS);
+    loginThrottles.findMany.mockResolvedValueOnce([accountThrottle(LOCK_THRESHOLD, 0, lockedUntil)]);
+    await expect(assertLoginAllowed(EMAIL, IP)).rejects.toMatchObject({
+      statusCode: 429,
+      retryAfter: LOGIN_THROTTLE_CONFIG.LOCK_MINUTES * 60 - LOGIN_THROTTLE_CONFIG.MAX_DELAY_MS / 1000
+    });
+  });
+});
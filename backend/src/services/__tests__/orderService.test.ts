@@ -0,0 +1,106 @@
+/**
+ * Pruebas de los cambios de estado de los pedidos (tabla de transiciones)
+ */
+
+import { OrderStatus } from '@prisma/client';
+import prisma from '../../prisma/client';
+import { updateOrderStatus } from '../orderService';
+import { recordSale, removeSale } from '../salesService';
+import { ORDER_STATUS_TRANSITIONS } from '../../constants/order.constants';
+import { adminOrderQuerySchema } from '../../schemas/order.schema';
+
+jest.mock('../salesService', () => ({ recordSale: jest.fn(), removeSale: jest.fn() }));
+
+const STATUSES: OrderStatus[] = ['PENDING', 'PAID', 'SHIPPED', 'DELIVERED', 'CANCELLED'];
+
+const tx = {
+  orders: { findUnique: jest.fn(), updateMany: jest.fn() },
+  products: { update: jest.fn() },
+  order_status_history: { create: jest.fn() }
+};
+
+const mockOrder = (status: OrderStatus) => {
+  tx.orders.findUnique.mockResolvedValue({
+    id: 1,
+    userId: 5,
+    total: 80,
+    status,
+    order_items: [{ productId: 10, quantity: 2 }]
+  });
+};
+
+beforeEach(() => {
+  (prisma.$transaction as jest.Mock).mockImplementation((callback) => callback(tx));
+  (prisma.orders.findUnique as jest.Mock).mockResolvedValue({ id: 1, order_items: [], status_history: [] });
+  tx.orders.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('ORDER_STATUS_TRANSITIONS', () => {
+  it('solo permite avanzar el pedido y deja DELIVERED y CANCELLED como estados finales', () => {
+    expect(ORDER_STATUS_TRANSITIONS).toEqual({
+      PENDING: ['PAID', 'SHIPPED', 'CANCELLED'],
+      PAID: ['SHIPPED', 'CANCELLED'],
+      SHIPPED: ['DELIVERED'],
+      DELIVERED: [],
+      CANCELLED: []
+    });
+  });
+});
+
+describe('updateOrderStatus', () => {
+  const transitions = STATUSES.flatMap((from) =>
+    STATUSES.map((to) => [from, to, ORDER_STATUS_TRANSITIONS[from].includes(to)] as const)
+  );
+
+  it.each(transitions)('de %s a %s (permitida: %s)', async (from, to, allowed) => {
+    mockOrder(from);
+
+    if (allowed) {
+      await expect(updateOrderStatus(1, to)).resolves.toMatchObject({ previousStatus: from });
+      expect(tx.orders.updateMany).toHaveBeenCalledWith({ where: { id: 1, status: from }, data: { status: to } });
+    } else {
+      await expect(updateOrderStatus(1, to)).rejects.toMatchObject({ statusCode: 409 });
+      expect(tx.orders.updateMany).not.toHaveBeenCalled();
+    }
+  });
+
+  it('registra la venta al pagar el pedido', async () => {
+    mockOrder('PENDING');
+
+    await updateOrderStatus(1, 'PAID');
+
+    expect(recordSale).toHaveBeenCalledWith(tx, expect.objectContaining({ id: 1, userId: 5, total: 80 }));
+    expect(tx.products.update).not.toHaveBeenCalled();
+  });
+
+  it('devuelve el stock y anula la venta al cancelar el pedido', async () => {
+    mockOrder('PAID');
+
+    await updateOrderStatus(1, 'CANCELLED');
+
+    expect(tx.products.update).toHaveBeenCalledWith({ where: { id: 10 }, data: { stock: { increment: 2 } } });
+    expect(removeSale).toHaveBeenCalledWith(tx, 1);
+  });
+
+  it('rechaza el cambio si otro proceso cambió el estado tras la lectura', async () => {
+    mockOrder('PENDING');
+    tx.orders.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(updateOrderStatus(1, 'PAID')).rejects.toMatchObject({ statusCode: 409 });
+    expect(tx.order_status_history.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('adminOrderQuerySchema', () => {
+  it('incluye todo el último día cuando la fecha final no tiene hora', () => {
+    const query = adminOrderQuerySchema.parse({ from: '2026-01-01', to: '2026-01-31' });
+
+    expect(query.to).toEqual(new Date('2026-01-31T23:59:59.999Z'));
+  });
+
+  it('respeta la hora de una fecha final completa', () => {
+    const query = adminOrderQuerySchema.parse({ to: '2026-01-31T12:00:00.000Z' });
+
+    expect(query.to).toEqual(new Date('2026-01-31T12:00:00.000Z'));
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Pruebas de la rotación de refresh tokens: detección de reutilización y margen de gracia
+ */
+
+import prisma from '../../prisma/client';
+import { rotateRefreshToken } from '../refreshTokenService';
+import { revokeSession, touchSession } from '../sessionService';
+import { encryptSecret, hashToken } from '../../utils/tokens';
+import { REFRESH_TOKEN_CONFIG } from '../../constants/auth.constants';
+
+jest.mock('../sessionService', () => ({ revokeSession: jest.fn(), touchSession: jest.fn() }));
+
+process.env.JWT_SECRET = 'secreto-de-pruebas';
+
+const refreshTokens = prisma.refresh_tokens as unknown as Record<string, jest.Mock>;
+
+const storedToken = {
+  id: 1,
+  userId: 5,
+  family_id: 'sesion-1',
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  revoked_at: null
+};
+
+/**
+ * Simula un token ya rotado: la primera búsqueda devuelve el token presentado y la segunda
+ * su estado tras la rotación anterior
+ */
+const mockRotatedToken = (replacedAt: Date, successor = 'sucesor-anterior') => {
+  refreshTokens.findUnique
+    .mockResolvedValueOnce(storedToken)
+    .mockResolvedValueOnce({ replaced_at: replacedAt, revoked_at: null, successor_token: encryptSecret(successor) });
+  refreshTokens.updateMany.mockResolvedValueOnce({ count: 0 });
+};
+
+beforeEach(() => {
+  refreshTokens.create.mockResolvedValue({});
+  refreshTokens.updateMany.mockResolvedValue({ count: 1 });
+  refreshTokens.deleteMany.mockResolvedValue({ count: 1 });
+  refreshTokens.count.mockResolvedValue(1);
+});
+
+describe('rotateRefreshToken', () => {
+  it('marca el token como usado y emite uno nuevo de la misma sesión', async () => {
+    refreshTokens.findUnique.mockResolvedValueOnce(storedToken);
+
+    const result = await rotateRefreshToken('token-actual');
+
+    expect(result).toMatchObject({ userId: 5, sessionId: 'sesion-1' });
+    expect(result.refreshToken).not.toBe('token-actual');
+    expect(refreshTokens.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 5, family_id: 'sesion-1', token_hash: hashToken(result.refreshToken) })
+    });
+    expect(refreshTokens.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: 1, replaced_at: null, revoked_at: null },
+      data: { replaced_at: expect.any(Date), successor_token: expect.any(String) }
+    });
+    expect(touchSession).toHaveBeenCalledWith('sesion-1');
+    expect(revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('revoca la sesión si se reutiliza un token rotado fuera del margen de gracia', async () => {
+    mockRotatedToken(new Date(Date.now() - REFRESH_TOKEN_CONFIG.REUSE_GRACE_MS - 1000));
+
+    await expect(rotateRefreshToken('token-robado')).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(revokeSession).toHaveBeenCalledWith('sesion-1');
+    expect(refreshTokens.deleteMany).toHaveBeenCalledTimes(1);
+    expect(touchSession).not.toHaveBeenCalled();
+  });
+
+  it('devuelve el sucesor si el token se reutiliza dentro del margen de gracia', async () => {
+    mockRotatedToken(new Date());
+
+    const result = await rotateRefreshToken('token-actual');
+
+    expect(result).toEqual({ userId: 5, sessionId: 'sesion-1', refreshToken: 'sucesor-anterior' });
+    expect(refreshTokens.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ token_hash: hashToken('sucesor-anterior'), replaced_at: null, revoked_at: null })
+    });
+    expect(revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('revoca la sesión si el sucesor dentro del margen ya no está vigente', async () => {
+    mockRotatedToken(new Date());
+    refreshTokens.count.mockResolvedValue(0);
+
+    await expect(rotateRefreshToken('token-actual')).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(revokeSession).toHaveBeenCalledWith('sesion-1');
+  });
+
+  it('rechaza un token revocado sin emitir otro', async () => {
+    refreshTokens.findUnique.mockResolvedValueOnce({ ...storedToken, revoked_at: new Date() });
+
+    await expect(rotateRefreshToken('token-revocado')).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(refreshTokens.create).not.toHaveBeenCalled();
+    expect(revokeSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Pruebas de la verificación en dos pasos: códigos TOTP, reutilización de intervalos,
+ * códigos de recuperación y bloqueo por códigos incorrectos
+ */
+
+import prisma from '../../prisma/client';
+import { verifyTwoFactorCode } from '../twoFactorService';
+import { currentTotpStep, generateTotp, verifyTotp } from '../../utils/totp';
+import { encryptSecret, hashToken } from '../../utils/tokens';
+import { TWO_FACTOR_CONFIG } from '../../constants/auth.constants';
+
+process.env.JWT_SECRET = 'secreto-de-pruebas';
+
+const twoFactorAuth = prisma.two_factor_auth as unknown as Record<string, jest.Mock>;
+const recoveryCodes = prisma.two_factor_recovery_codes as unknown as Record<string, jest.Mock>;
+
+// Semilla SHA-1 del RFC 6238 ("12345678901234567890") en base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+// Instante del vector del RFC 6238 cuyo código de 8 dígitos es 07081804
+const RFC_TIME = new Date(1111111109 * 1000);
+const RFC_CODE = '081804';
+
+const enabledRecord = (overrides: Record<string, unknown> = {}) => ({
+  userId: 5,
+  secret: encryptSecret(RFC_SECRET),
+  enabled_at: new Date('2024-01-01T00:00:00Z'),
+  last_used_step: null,
+  failed_attempts: 0,
+  locked_until: null,
+  ...overrides
+});
+
+beforeEach(() => {
+  jest.useFakeTimers().setSystemTime(RFC_TIME);
+  twoFactorAuth.update.mockResolvedValue({ failed_attempts: 1 });
+  twoFactorAuth.updateMany.mockResolvedValue({ count: 1 });
+  recoveryCodes.updateMany.mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('utilidades TOTP', () => {
+  it('genera los códigos de los vectores del RFC 6238', () => {
+    expect(generateTotp(RFC_SECRET, 1)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, currentTotpStep(RFC_TIME))).toBe(RFC_CODE);
+  });
+
+  it('acepta el código del intervalo actual y devuelve ese intervalo', () => {
+    expect(verifyTotp(RFC_SECRET, RFC_CODE)).toBe(currentTotpStep());
+  });
+
+  it('rechaza un código de un intervalo ya usado', () => {
+    expect(verifyTotp(RFC_SECRET, RFC_CODE, currentTotpStep())).toBeNull();
+  });
+
+  it('rechaza códigos con formato incorrecto', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('verifyTwoFactorCode', () => {
+  it('acepta un código válido y registra su intervalo', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(enabledRecord());
+
+    await verifyTwoFactorCode(5, { code: RFC_CODE });
+
+    expect(twoFactorAuth.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { last_used_step: currentTotpStep() } })
+    );
+    expect(twoFactorAuth.update).toHaveBeenCalledWith({
+      where: { userId: 5 },
+      data: { failed_attempts: 0, locked_until: null }
+    });
+  });
+
+  it('rechaza un código cuyo intervalo ya se había usado', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(enabledRecord({ last_used_step: currentTotpStep() }));
+
+    await expect(verifyTwoFactorCode(5, { code: RFC_CODE })).rejects.toMatchObject({ statusCode: 401 });
+    expect(twoFactorAuth.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rechaza el código si otra petición registró el mismo intervalo antes', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(enabledRecord());
+    twoFactorAuth.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(verifyTwoFactorCode(5, { code: RFC_CODE })).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('acepta un código de recuperación una sola vez', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(enabledRecord()).mockResolvedValueOnce(enabledRecord());
+    recoveryCodes.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    await verifyTwoFactorCode(5, { recoveryCode: 'abcd-efgh' });
+    await expect(verifyTwoFactorCode(5, { recoveryCode: 'ABCDEFGH' })).rejects.toMatchObject({
+      statusCode: 401
+    });
+
+    expect(recoveryCodes.updateMany).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ where: { userId: 5, code_hash: hashToken('ABCDEFGH'), used_at: null } })
+    );
+  });
+
+  it('bloquea la verificación al llegar a MAX_FAILED_ATTEMPTS códigos incorrectos', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(enabledRecord());
+    twoFactorAuth.update.mockResolvedValueOnce({ failed_attempts: TWO_FACTOR_CONFIG.MAX_FAILED_ATTEMPTS });
+
+    await expect(verifyTwoFactorCode(5, { code: '000000' })).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(twoFactorAuth.update).toHaveBeenLastCalledWith({
+      where: { userId: 5 },
+      data: {
+        failed_attempts: 0,
+        locked_until: new Date(RFC_TIME.getTime() + TWO_FACTOR_CONFIG.LOCK_MINUTES * 60 * 1000)
+      }
+    });
+  });
+
+  it('no bloquea antes de MAX_FAILED_ATTEMPTS', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(enabledRecord());
+    twoFactorAuth.update.mockResolvedValueOnce({ failed_attempts: TWO_FACTOR_CONFIG.MAX_FAILED_ATTEMPTS - 1 });
+
+    await expect(verifyTwoFactorCode(5, { code: '000000' })).rejects.toMatchObject({ statusCode: 401 });
+    expect(twoFactorAuth.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('rechaza incluso un código válido mientras dura el bloqueo', async () => {
+    twoFactorAuth.findUnique.mockResolvedValueOnce(
+      enabledRecord({ locked_until: new Date(RFC_TIME.getTime() + 60 * 1000) })
+    );
+
+    await expect(verifyTwoFactorCode(5, { code: RFC_CODE })).rejects.toMatchObject({ statusCode: 429 });
+    expect(twoFactorAuth.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Servicio de direcciones
+ * Maneja la libreta de direcciones de envío de cada usuario
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { createError, ERROR_TYPES, notFound } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { CreateAddressInput, UpdateAddressInput } from '../schemas/address.schema';
+
+/**
+ * Obtiene una dirección activa (no archivada) con el número de pedidos que la usan
+ * @param tx - Cliente de Prisma (o de la transacción en curso)
+ * @param id - ID de la dirección
+ * @returns Promesa que resuelve con la dirección
+ * @throws {Error} Si la dirección no existe o está archivada
+ */
+const findActiveAddress = async (tx: Prisma.TransactionClient, id: number) => {
+  const address = await tx.addresses.findFirst({
+    where: { id, archived_at: null },
+    include: { _count: { select: { orders: true } } }
+  });
+
+  if (!address) {
+    throw notFound('Dirección');
+  }
+
+  return address;
+};
+
+/**
+ * Quita la marca de dirección predeterminada de todas las direcciones del usuario
+ * @param tx - Cliente de Prisma de la transacción en curso
+ * @param userId - ID del usuario
+ */
+const clearDefault = (tx: Prisma.TransactionClient, userId: number) =>
+  tx.addresses.updateMany({ where: { userId, is_default: true }, data: { is_default: false } });
+
+/**
+ * Marca como predeterminada la dirección activa más reciente del usuario
+ * Se usa cuando se elimina o archiva la dirección predeterminada
+ * @param tx - Cliente de Prisma de la transacción en curso
+ * @param userId - ID del usuario
+ */
+const promoteLatestAddress = async (tx: Prisma.TransactionClient, userId: number): Promise<void> => {
+  const latest = await tx.addresses.findFirst({
+    where: { userId, archived_at: null },
+    orderBy: { id: 'desc' },
+    select: { id: true }
+  });
+
+  if (latest) {
+    await tx.addresses.update({ where: { id: latest.id }, data: { is_default: true } });
+  }
+};
+
+/**
+ * Obtiene el ID del usuario propietario de una dirección activa
+ * Se usa con el middleware isOwnerOrAdmin para proteger las rutas de direcciones
+ * @param addressId - ID de la dirección (valor del parámetro de ruta)
+ * @returns Promesa que resuelve con el ID del propietario, o null si la dirección no existe
+ */
+export const getAddressOwnerId = async (addressId: string): Promise<number | null> => {
+  const id = Number(addressId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return null;
+  }
+
+  const address = await prisma.addresses.findFirst({
+    where: { id, archived_at: null },
+    select: { userId: true }
+  });
+  return address?.userId ?? null;
+};
+
+/**
+ * Lista las direcciones activas de un usuario (la predeterminada primero)
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con las direcciones
+ */
+export const listAddresses = async (userId: number) => {
+  return prisma.addresses.findMany({
+    where: { userId, archived_at: null },
+    orderBy: [{ is_default: 'desc' }, { id: 'asc' }]
+  });
+};
+
+/**
+ * Obtiene una dirección activa por su ID
+ * @param id - ID de la dirección
+ * @returns Promesa que resuelve con la dirección
+ * @throws {Error} Si la dirección no existe o está archivada
+ */
+export const getAddress = async (id: number) => {
+  const { _count, ...address } = await findActiveAddress(prisma, id);
+  return address;
+};
+
+/**
+ * Crea una dirección para el usuario
+ * La primera dirección del usuario se marca automáticamente como predeterminada
+ * @param userId - ID del usuario
+ * @param data - Datos validados de la dirección
+ * @returns Promesa que resuelve con la dirección creada
+ */
+export const createAddress = async (userId: number, data: CreateAddressInput) => {
+  const { is_default, postal_code, ...addressData } = data;
+
+  const address = await prisma.$transaction(async (tx) => {
+    const activeCount = await tx.addresses.count({ where: { userId, archived_at: null } });
+    const isDefault = Boolean(is_default) || activeCount === 0;
+
+    if (isDefault) {
+      await clearDefault(tx, userId);
+    }
+
+    return tx.addresses.create({
+      data: {
+        ...addressData,
+        postal_code: postal_code || '',
+        userId,
+        is_default: isDefault
+      }
+    });
+  });
+
+  logger.info(`Dirección ${address.id} creada para el usuario ${userId}`);
+  return address;
+};
+
+/**
+ * Actualiza una dirección
+ * Si la dirección ya se usó en pedidos, se archiva y se crea una copia con los cambios,
+ * para que los pedidos conserven la dirección a la que se enviaron
+ * @param id - ID de la dirección
+ * @param data - Campos validados a actualizar
+ * @returns Promesa que resuelve con la dirección vigente tras la actualización
+ * @throws {Error} Si la dirección no existe o está archivada
+ * @throws {Error} 400 si se intenta quitar la marca de predeterminada a la dirección predeterminada
+ */
+export const updateAddress = async (id: number, data: UpdateAddressInput) => {
+  const { is_default, ...addressData } = data;
+
+  const address = await prisma.$transaction(async (tx) => {
+    const { _count, ...current } = await findActiveAddress(tx, id);
+
+    // El usuario no puede quedarse sin dirección predeterminada: debe elegir otra con setDefaultAddress
+    if (current.is_default && is_default === false) {
+      throw createError(
+        'No se puede quitar la dirección predeterminada; marca otra dirección como predeterminada',
+        400,
+        ERROR_TYPES.VALIDATION_ERROR
+      );
+    }
+
+    if (is_default) {
+      await clearDefault(tx, current.userId);
+    }
+
+    const isDefault = is_default ?? current.is_default;
+
+    if (_count.orders === 0) {
+      return tx.addresses.update({
+        where: { id },
+        data: { ...addressData, is_default: isDefault }
+      });
+    }
+
+    await tx.addresses.update({
+      where: { id },
+      data: { archived_at: new Date(), is_default: false }
+    });
+
+    const { id: _id, archived_at, ...copy } = current;
+    return tx.addresses.create({
+      data: { ...copy, ...addressData, is_default: isDefault }
+    });
+  });
+
+  logger.info(`Dirección ${id} actualizada (vigente: ${address.id})`);
+  return address;
+};
+
+/**
+ * Marca una dirección como la predeterminada del usuario
+ * @param id - ID de la dirección
+ * @returns Promesa que resuelve con la dirección actualizada
+ * @throws {Error} Si la dirección no existe o está archivada
+ */
+export const setDefaultAddress = async (id: number) => {
+  return prisma.$transaction(async (tx) => {
+    const address = await findActiveAddress(tx, id);
+
+    await clearDefault(tx, address.userId);
+    return tx.addresses.update({ where: { id }, data: { is_default: true } });
+  });
+};
+
+/**
+ * Elimina una dirección
+ * Si la dirección se usó en pedidos, se archiva en lugar de eliminarse para no romper
+ * la referencia de esos pedidos. Si era la predeterminada, se promueve la más reciente
+ * @param id - ID de la dirección
+ * @throws {Error} Si la dirección no existe o está archivada
+ */
+export const deleteAddress = async (id: number): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const address = await findActiveAddress(tx, id);
+
+    if (address._count.orders > 0) {
+      await tx.addresses.update({
+        where: { id },
+        data: { archived_at: new Date(), is_default: false }
+      });
+      logger.info(`Dirección ${id} archivada (usada en ${address._count.orders} pedidos)`);
+    } else {
+      await tx.addresses.delete({ where: { id } });
+      logger.info(`Dirección ${id} eliminada`);
+    }
+
+    if (address.is_default) {
+      await promoteLatestAddress(tx, address.userId);
+    }
+  });
+};
@@ -0,0 +1,128 @@
+/**
+ * Servicio de auditoría
+ * Guarda un registro duradero de las acciones sensibles (inicios de sesión, restablecimientos
+ * de contraseña, cambios de rol y consultas de administradores): quién, desde qué IP y
+ * agente de usuario, y con qué resultado
+ */
+
+import { AuditAction, AuditResult, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import logger from '../utils/logger';
+import { RequestContext } from '../utils/requestContext';
+import { AUDIT_CONFIG } from '../constants/audit.constants';
+import { AuditEventQueryInput } from '../schemas/audit.schema';
+
+/**
+ * Datos de un evento de auditoría
+ */
+export interface AuditEventInput extends RequestContext {
+  action: AuditAction;
+  result: AuditResult;
+  targetUserId?: number | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Registra un evento de auditoría
+ * Los errores se registran en el log sin interrumpir la operación auditada
+ * @param event - Acción, resultado, usuarios implicados, origen y datos adicionales
+ */
+export const recordAuditEvent = async (event: AuditEventInput): Promise<void> => {
+  try {
+    await prisma.audit_events.create({
+      data: {
+        action: event.action,
+        result: event.result,
+        actorId: event.actorId ?? null,
+        targetUserId: event.targetUserId ?? null,
+        ip: event.ip ?? null,
+        user_agent: event.userAgent?.slice(0, AUDIT_CONFIG.USER_AGENT_MAX_LENGTH) ?? null,
+        ...(event.metadata && { metadata: event.metadata as Prisma.InputJsonObject })
+      }
+    });
+  } catch (error) {
+    logger.error(`Error al registrar el evento de auditoría ${event.action}:`, error);
+  }
+};
+
+/**
+ * Lista los eventos de auditoría, del más reciente al más antiguo
+ * @param query - Página, tamaño de página y filtros (acción, resultado, usuarios, IP y fechas)
+ * @returns Promesa que resuelve con los eventos y la paginación
+ */
+export const listAuditEvents = async (query: AuditEventQueryInput) => {
+  const { page, limit, action, result, actorId, targetUserId, ip, from, to } = query;
+
+  const where: Prisma.audit_eventsWhereInput = {
+    ...(action && { action }),
+    ...(result && { result }),
+    ...(actorId && { actorId }),
+    ...(targetUserId && { targetUserId }),
+    ...(ip && { ip }),
+    ...((from || to) && {
+      created_at: {
+        ...(from && { gte: from }),
+        ...(to && { lte: to })
+      }
+    })
+  };
+
+  const userSelect = { select: { id: true, name: true, email: true } };
+
+  const [total, events] = await prisma.$transaction([
+    prisma.audit_events.count({ where }),
+    prisma.audit_events.findMany({
+      where,
+      include: { actor: userSelect, target_user: userSelect },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    events,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Elimina los eventos más antiguos que el periodo de retención
+ * @returns Promesa que resuelve con el número de eventos eliminados
+ */
+export const purgeExpiredAuditEvents = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - AUDIT_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.audit_events.deleteMany({ where: { created_at: { lt: cutoff } } });
+
+  if (count > 0) {
+    logger.info(`Registro de auditoría: ${count} evento(s) anteriores a ${cutoff.toISOString()} eliminado(s)`);
+  }
+  return count;
+};
+
+/**
+ * Inicia la purga periódica de los eventos vencidos (la primera pasada es inmediata)
+ * @returns Función que detiene el proceso
+ */
+export const startAuditRetentionWorker = (): (() => void) => {
+  const purge = async () => {
+    try {
+      await purgeExpiredAuditEvents();
+    } catch (error) {
+      logger.error('Error al purgar el registro de auditoría:', error);
+    }
+  };
+
+  purge();
+  const timer = setInterval(purge, AUDIT_CONFIG.PURGE_INTERVAL_MS);
+
+  // No mantener vivo el proceso solo por el temporizador
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
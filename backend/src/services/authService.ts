@@ -5,20 +5,37 @@
 
 // Importación de dependencias
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { PrismaClient, AuthProvider, Role } from '@prisma/client';
-import { createError } from '../middleware/errorHandler';
+import { PrismaClient, AuthProvider, Prisma, Role } from '@prisma/client';
+import { conflict, createError, forbidden } from '../middleware/errorHandler';
 import logger from '../utils/logger';
 import { 
   User, 
   CreateUserData, 
-  AuthResponse 
+  AuthResponse,
+  AuthTokens,
+  TwoFactorChallenge
 } from '../types/user.types';
 import { 
   JWT_CONFIG, 
   BCRYPT_CONFIG, 
-  AUTH_ERRORS 
+  AUTH_ERRORS,
+  TWO_FACTOR_CONFIG,
+  IMPERSONATION_CONFIG
 } from '../constants/auth.constants';
+import { issueRefreshToken, rotateRefreshToken, getRefreshTokenSessionId } from './refreshTokenService';
+import { createImpersonationSession, createSession, revokeSession, revokeUserSessions } from './sessionService';
+import { sendVerificationEmail } from './emailVerificationService';
+import { sendTemplatedMail } from './mailService';
+import { localIdentityData, touchIdentity } from './identityService';
+import { GoogleProfile } from '../utils/googleAuth';
+import { isTwoFactorEnabled, verifyTwoFactorCode } from './twoFactorService';
+import { assertLoginAllowed, recordLoginFailure, recordLoginSuccess } from './loginThrottleService';
+import { recordAuditEvent } from './auditService';
+import { RequestContext } from '../utils/requestContext';
+import { TwoFactorCodeInput } from '../schemas/twoFactor.schema';
+import { MAIL_CONFIG } from '../constants/mail.constants';
 
 // Validar variables de entorno
 if (!process.env.JWT_SECRET) {
@@ -43,10 +60,17 @@ type UserWithProfile = User & {
  * Genera un token JWT para un usuario autenticado
  * @param userId - ID del usuario (se convierte a string si es necesario)
  * @param role - Rol del usuario para incluir en el payload del token
- * @returns Token JWT firmado
+ * @param sessionId - Sesión del servidor a la que pertenece el token (claim sid)
+ * @param impersonation - Administrador que suplanta al usuario y duración del token (sesiones de suplantación)
+ * @returns Token JWT firmado (con un jti único)
  * @throws {Error} Si hay un error al generar el token
  */
-const generateToken = (userId: string | number, role: string): string => {
+const generateToken = (
+  userId: string | number,
+  role: string,
+  sessionId: string,
+  impersonation?: { impersonatorId: number; expiresIn: number }
+): string => {
   const userIdStr = userId.toString();
   logger.info(`Generando token para userId: ${userIdStr}, rol: ${role}`);
   
@@ -61,15 +85,16 @@ const generateToken = (userId: string | number, role: string): string => {
     const payload = { 
       userId: userIdStr, 
       role,
+      sid: sessionId,
+      ...(impersonation && { imp: impersonation.impersonatorId.toString() }),
       iat: Math.floor(Date.now() / 1000) 
     };
     
-    // Convertir '7d' a segundos (7 días = 604800 segundos)
-    const expiresInSeconds = 7 * 24 * 60 * 60; // 7 días en segundos
-    
+    // Token de acceso de corta duración; la sesión se extiende con el refresh token
     const options: jwt.SignOptions = { 
-      expiresIn: expiresInSeconds, // Usar segundos en lugar de string
-      algorithm: 'HS256'
+      expiresIn: impersonation?.expiresIn ?? JWT_CONFIG.ACCESS_TOKEN_TTL, // En segundos
+      algorithm: 'HS256',
+      jwtid: crypto.randomUUID()
     };
     
     const token = jwt.sign(payload, JWT_SECRET, options);
@@ -82,6 +107,158 @@ const generateToken = (userId: string | number, role: string): string => {
   }
 };
 
+/**
+ * Abre una nueva sesión para el usuario y emite su token de acceso y su primer refresh token
+ * @param userId - ID del usuario
+ * @param role - Rol del usuario
+ * @returns Promesa que resuelve con el token de acceso, el refresh token y la duración del acceso
+ */
+const issueAuthTokens = async (userId: number, role: string): Promise<AuthTokens> => {
+  const sessionId = await createSession(userId);
+
+  return {
+    token: generateToken(userId, role, sessionId),
+    refreshToken: await issueRefreshToken(userId, sessionId),
+    expiresIn: JWT_CONFIG.ACCESS_TOKEN_TTL
+  };
+};
+
+/**
+ * Emite un token de acceso para que un administrador vea la aplicación como un usuario
+ * La sesión queda marcada con el administrador; el token es de corta duración, no tiene
+ * refresh token y solo permite consultar (ver authenticate)
+ * @param impersonatorId - ID del administrador
+ * @param user - Usuario suplantado
+ * @returns Promesa que resuelve con el token, la sesión creada y la duración del token
+ */
+export const issueImpersonationToken = async (
+  impersonatorId: number,
+  user: { id: number; role: Role }
+): Promise<{ token: string; sessionId: string; expiresIn: number }> => {
+  const sessionId = await createImpersonationSession(user.id, impersonatorId);
+  const expiresIn = IMPERSONATION_CONFIG.TOKEN_TTL;
+
+  return {
+    token: generateToken(user.id, user.role, sessionId, { impersonatorId, expiresIn }),
+    sessionId,
+    expiresIn
+  };
+};
+
+/**
+ * Audiencia de los tokens de desafío de la verificación en dos pasos
+ * La distingue de los tokens de acceso (que además exigen sid y jti)
+ */
+const TWO_FACTOR_AUDIENCE = 'two-factor';
+
+/**
+ * Crea el desafío de la verificación en dos pasos tras validar el primer factor
+ * @param userId - ID del usuario
+ * @param provider - Proveedor con el que se validó el primer factor
+ * @returns Token del desafío (no permite acceder a la API) y su duración
+ */
+const createTwoFactorChallenge = (userId: number, provider: AuthProvider): TwoFactorChallenge => ({
+  twoFactorRequired: true,
+  challengeToken: jwt.sign({ userId: userId.toString(), provider }, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CONFIG.CHALLENGE_TTL,
+    audience: TWO_FACTOR_AUDIENCE,
+    algorithm: 'HS256'
+  }),
+  expiresIn: TWO_FACTOR_CONFIG.CHALLENGE_TTL
+});
+
+/**
+ * Completa el inicio de sesión de una cuenta con verificación en dos pasos
+ * @param challengeToken - Token del desafío devuelto por el inicio de sesión
+ * @param verification - Código de la app de autenticación o código de recuperación
+ * @param context - Origen de la petición (auditoría)
+ * @returns Promesa que resuelve con el token JWT y los datos del usuario
+ * @throws {Error} 401 si el desafío expiró o el código no es válido; 429 si la verificación está bloqueada
+ */
+export const completeTwoFactorLogin = async (
+  challengeToken: string,
+  verification: TwoFactorCodeInput,
+  context: RequestContext
+): Promise<AuthResponse> => {
+  let challenge: { userId: string; provider: AuthProvider };
+  try {
+    challenge = jwt.verify(challengeToken, JWT_SECRET, { audience: TWO_FACTOR_AUDIENCE }) as typeof challenge;
+  } catch {
+    await recordAuditEvent({
+      ...context,
+      action: 'TWO_FACTOR_LOGIN',
+      result: 'FAILURE',
+      metadata: { reason: 'INVALID_CHALLENGE' }
+    });
+    throw createError(AUTH_ERRORS.INVALID_TWO_FACTOR_CHALLENGE, 401, 'UNAUTHORIZED');
+  }
+
+  const userId = Number(challenge.userId);
+  try {
+    await verifyTwoFactorCode(userId, verification);
+  } catch (error) {
+    const locked = error instanceof Error && 'statusCode' in error && error.statusCode === 429;
+    await recordAuditEvent({
+      ...context,
+      action: 'TWO_FACTOR_LOGIN',
+      result: 'FAILURE',
+      targetUserId: userId,
+      metadata: {
+        provider: challenge.provider,
+        reason: locked ? 'LOCKED' : 'INVALID_CODE'
+      }
+    });
+    throw error;
+  }
+
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      auth_provider: true,
+      created_at: true,
+      updated_at: true,
+      avatar_url: true,
+      email_verified: true,
+      suspended_at: true,
+      deleted_at: true
+    }
+  });
+
+  if (!user || user.deleted_at) {
+    throw createError(AUTH_ERRORS.INVALID_TWO_FACTOR_CHALLENGE, 401, 'UNAUTHORIZED');
+  }
+
+  if (user.suspended_at) {
+    await recordAuditEvent({
+      ...context,
+      action: 'TWO_FACTOR_LOGIN',
+      result: 'FAILURE',
+      targetUserId: user.id,
+      metadata: { provider: challenge.provider, reason: 'SUSPENDED' }
+    });
+    throw forbidden(AUTH_ERRORS.ACCOUNT_SUSPENDED);
+  }
+
+  const { suspended_at, deleted_at, ...profile } = user;
+  const tokens = await issueAuthTokens(user.id, user.role);
+  await touchIdentity(user.id, challenge.provider);
+
+  logger.info(`Inicio de sesión con verificación en dos pasos para el usuario ${user.id}`);
+  await recordAuditEvent({
+    ...context,
+    action: 'TWO_FACTOR_LOGIN',
+    result: 'SUCCESS',
+    actorId: user.id,
+    targetUserId: user.id,
+    metadata: { provider: challenge.provider, recoveryCode: Boolean(verification.recoveryCode) }
+  });
+  return { ...tokens, user: profile };
+};
+
 /**
  * Registra un nuevo usuario en el sistema con autenticación local
  * @param name - Nombre completo del usuario
@@ -95,7 +272,6 @@ export const registerUser = async (
   email: string, 
   password: string
 ): Promise<AuthResponse> => {
-  logger.info(`Iniciando registro para: ${email}`);
   
   try {
     // Verificar si el usuario ya existe
@@ -105,7 +281,7 @@ export const registerUser = async (
     });
     
     if (existingUser) {
-      logger.warn(`Intento de registro con correo ya existente: ${email}`);
+      logger.warn('Intento de registro con un correo ya existente');
       throw createError(AUTH_ERRORS.EMAIL_ALREADY_EXISTS, 400, 'AUTH_ERROR');
     }
     
@@ -141,6 +317,9 @@ export const registerUser = async (
         }
       });
       
+      // Registrar la contraseña como método de inicio de sesión
+      await tx.user_identities.create({ data: localIdentityData(newUser.id, newUser.email) });
+      
       // Añadir los campos personalizados manualmente
       return {
         ...newUser,
@@ -149,13 +328,21 @@ export const registerUser = async (
       } as any; // Usamos 'as any' temporalmente
     });
     
-    // Generar token JWT
-    const token = generateToken(user.id, user.role);
+    // Generar el token de acceso y el refresh token
+    const tokens = await issueAuthTokens(user.id, user.role);
+    
+    // Enviar el enlace de verificación del correo (un fallo no impide el registro;
+    // el usuario puede pedir el reenvío)
+    try {
+      await sendVerificationEmail({ id: user.id, name: user.name, email: user.email });
+    } catch (error) {
+      logger.error('Error al enviar el correo de verificación', { error, userId: user.id });
+    }
     
     logger.info(`Usuario registrado exitosamente: ${user.id}`);
     
     return {
-      token,
+      ...tokens,
       user: {
         ...user,
         // Asegurarse de que los campos opcionales tengan valores por defecto
@@ -164,55 +351,98 @@ export const registerUser = async (
       }
     };
   } catch (error) {
-    logger.error('Error en registerUser', { error, email });
+    logger.error('Error en registerUser', { error });
     throw error;
   }
 };
 
+/**
+ * Hash de referencia para comparar la contraseña cuando la cuenta no existe o no tiene contraseña,
+ * de modo que el tiempo de respuesta no revele si el correo está registrado
+ */
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomUUID(), BCRYPT_CONFIG.SALT_ROUNDS);
+
 /**
  * Autentica a un usuario con credenciales locales (email/contraseña)
+ * Todos los fallos devuelven el mismo error para no revelar qué correos están registrados,
+ * y se contabilizan por cuenta y por IP (espera creciente y bloqueo temporal)
  * @param email - Correo electrónico del usuario
  * @param password - Contraseña en texto plano
- * @returns Promesa que resuelve con el token JWT y los datos del usuario
- * @throws {Error} Si las credenciales son incorrectas, el usuario no existe o hay un error
+ * @param context - Origen de la petición (contador de intentos fallidos por IP y auditoría)
+ * @returns Promesa que resuelve con el token JWT y los datos del usuario, o con el desafío
+ *          de la verificación en dos pasos si la cuenta la tiene activa
+ * @throws {Error} 401 si las credenciales son incorrectas; 429 si hay demasiados intentos fallidos
  */
 export const loginUser = async (
   email: string, 
-  password: string
-): Promise<AuthResponse> => {
-  console.log(`[AUTH_SERVICE] Iniciando proceso de login para: ${email}`);
-  
-  // Buscar usuario
-  console.log(`[AUTH_SERVICE] Buscando usuario: ${email}`);
-  const user = await prisma.users.findUnique({ where: { email } });
+  password: string,
+  context: RequestContext
+): Promise<AuthResponse | TwoFactorChallenge> => {
+  const ip = context.ip ?? 'unknown';
   
-  // Verificar si el usuario existe
-  if (!user) {
-    console.log(`[AUTH_SERVICE] Error: No existe cuenta para el correo: ${email}`);
-    throw createError('No existe una cuenta con este correo electrónico', 401, 'AUTH_ERROR');
+  // Rechazar el intento si la cuenta o la IP están bloqueadas o deben esperar
+  try {
+    await assertLoginAllowed(email, ip);
+  } catch (error) {
+    await recordAuditEvent({ ...context, action: 'LOGIN', result: 'FAILURE', metadata: { email, reason: 'THROTTLED' } });
+    throw error;
   }
   
-  console.log(`[AUTH_SERVICE] Usuario encontrado. ID: ${user.id}, Proveedor: ${user.auth_provider}`);
+  // Buscar usuario junto con su identidad LOCAL (la cuenta tiene contraseña)
+  const user = await prisma.users.findUnique({
+    where: { email },
+    include: { user_identities: { where: { provider: AuthProvider.LOCAL }, select: { id: true } } }
+  });
+  
+  // Verificar la contraseña (también sin cuenta o sin contraseña, para igualar el tiempo de respuesta)
+  const hasPassword = Boolean(user && user.user_identities.length > 0 && user.password_hash);
+  const isPasswordValid = await bcrypt.compare(
+    password,
+    hasPassword ? user!.password_hash : DUMMY_PASSWORD_HASH
+  );
   
-  // Verificar si el usuario usa autenticación local
-  if (user.auth_provider !== AuthProvider.LOCAL) {
-    console.log(`[AUTH_SERVICE] Error: Método de autenticación incorrecto para: ${email}. Usa: ${user.auth_provider}`);
-    throw createError('Por favor, inicia sesión con el método de autenticación correcto', 401, 'AUTH_ERROR');
+  if (!user || !hasPassword || !isPasswordValid) {
+    await recordLoginFailure(email, ip);
+    await recordAuditEvent({
+      ...context,
+      action: 'LOGIN',
+      result: 'FAILURE',
+      targetUserId: user?.id,
+      metadata: { email, reason: user ? 'INVALID_PASSWORD' : 'UNKNOWN_ACCOUNT' }
+    });
+    throw createError(AUTH_ERRORS.INVALID_CREDENTIALS, 401, 'AUTH_ERROR');
   }
-
-  // Verificar la contraseña
-  console.log(`[AUTH_SERVICE] Verificando contraseña para: ${email}`);
-  const passwordToCompare = user.password_hash || '';
-  const isPasswordValid = await bcrypt.compare(password, passwordToCompare);
   
-  if (!isPasswordValid) {
-    console.log(`[AUTH_SERVICE] Error: Contraseña incorrecta para: ${email}`);
-    throw createError('Contraseña incorrecta', 401, 'AUTH_ERROR');
+  await recordLoginSuccess(email);
+
+  // Las cuentas suspendidas no pueden iniciar sesión (se informa solo con la contraseña correcta)
+  if (user.suspended_at) {
+    await recordAuditEvent({
+      ...context,
+      action: 'LOGIN',
+      result: 'FAILURE',
+      targetUserId: user.id,
+      metadata: { email, reason: 'SUSPENDED' }
+    });
+    throw forbidden(AUTH_ERRORS.ACCOUNT_SUSPENDED);
   }
 
-  // Generar token JWT - Asegurarse de que el ID sea un string
-  console.log(`[AUTH_SERVICE] Generando token JWT para el usuario ID: ${user.id}`);
-  const token = generateToken(user.id.toString(), user.role);
+  // Con la verificación en dos pasos activa, los tokens se emiten al validar el código
+  if (await isTwoFactorEnabled(user.id)) {
+    await recordAuditEvent({
+      ...context,
+      action: 'LOGIN',
+      result: 'SUCCESS',
+      actorId: user.id,
+      targetUserId: user.id,
+      metadata: { twoFactorPending: true }
+    });
+    return createTwoFactorChallenge(user.id, AuthProvider.LOCAL);
+  }
+
+  // Generar el token de acceso y el refresh token
+  const tokens = await issueAuthTokens(user.id, user.role);
+  await touchIdentity(user.id, AuthProvider.LOCAL);
   
   // Devolver token y datos del usuario (sin la contraseña)
   const { password_hash, ...userWithoutPassword } = user;
@@ -230,8 +460,87 @@ export const loginUser = async (
     email_verified: ('email_verified' in user ? (user as any).email_verified : false) as boolean
   };
   
-  console.log(`[AUTH_SERVICE] Autenticación exitosa para: ${email}`);
-  return { token, user: userResponse };
+  logger.info(`Inicio de sesión del usuario ${user.id}`);
+  await recordAuditEvent({ ...context, action: 'LOGIN', result: 'SUCCESS', actorId: user.id, targetUserId: user.id });
+  return { ...tokens, user: userResponse };
+};
+
+/**
+ * Renueva la sesión a partir de un refresh token
+ * El refresh token usado queda invalidado y se entrega uno nuevo de la misma familia
+ * @param refreshToken - Refresh token en claro
+ * @returns Promesa que resuelve con el nuevo token de acceso y el nuevo refresh token
+ * @throws {Error} 401 si el refresh token no es válido, expiró o fue reutilizado
+ */
+export const refreshSession = async (refreshToken: string): Promise<AuthTokens> => {
+  const { userId, sessionId, refreshToken: newRefreshToken } = await rotateRefreshToken(refreshToken);
+
+  // Leer el rol actual por si cambió desde el último inicio de sesión
+  const user = await prisma.users.findUnique({ where: { id: userId }, select: { id: true, role: true } });
+  if (!user) {
+    await revokeSession(sessionId);
+    throw createError(AUTH_ERRORS.INVALID_REFRESH_TOKEN, 401, 'UNAUTHORIZED');
+  }
+
+  logger.debug(`Sesión ${sessionId} renovada para el usuario ${user.id}`);
+  return {
+    token: generateToken(user.id, user.role, sessionId),
+    refreshToken: newRefreshToken,
+    expiresIn: JWT_CONFIG.ACCESS_TOKEN_TTL
+  };
+};
+
+/**
+ * Cierra la sesión asociada a un refresh token
+ * Los tokens desconocidos se ignoran para que el cierre de sesión sea idempotente
+ * @param refreshToken - Refresh token en claro
+ */
+export const revokeSessionByRefreshToken = async (refreshToken: string): Promise<void> => {
+  const sessionId = await getRefreshTokenSessionId(refreshToken);
+  if (sessionId) {
+    await revokeSession(sessionId);
+  }
+};
+
+/**
+ * Cambia la contraseña de un usuario con autenticación local
+ * Cierra todas las demás sesiones del usuario; la sesión actual se conserva
+ * @param userId - ID del usuario autenticado
+ * @param sessionId - Sesión desde la que se hace el cambio
+ * @param currentPassword - Contraseña actual en texto plano
+ * @param newPassword - Nueva contraseña en texto plano (será hasheada)
+ * @returns Promesa que resuelve con el número de sesiones cerradas
+ * @throws {Error} Si la cuenta no tiene contraseña o la contraseña actual es incorrecta
+ */
+export const changeUserPassword = async (
+  userId: number,
+  sessionId: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<number> => {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      password_hash: true,
+      user_identities: { where: { provider: AuthProvider.LOCAL }, select: { id: true } }
+    }
+  });
+
+  if (!user || user.user_identities.length === 0) {
+    throw createError('La cuenta no tiene contraseña; agrégala desde tus métodos de inicio de sesión', 400, 'AUTH_ERROR');
+  }
+
+  const isPasswordValid = await bcrypt.compare(currentPassword, user.password_hash || '');
+  if (!isPasswordValid) {
+    throw createError('La contraseña actual es incorrecta', 400, 'VALIDATION_ERROR');
+  }
+
+  const newHash = await bcrypt.hash(newPassword, BCRYPT_CONFIG.SALT_ROUNDS);
+  await prisma.users.update({ where: { id: userId }, data: { password_hash: newHash } });
+
+  logger.info(`Contraseña actualizada para el usuario ${userId}`);
+  return revokeUserSessions(userId, sessionId);
 };
 
 /**
@@ -272,115 +581,157 @@ export const getUserProfile = async (userId: number) => {
 };
 
 /**
- * Restablece la contraseña de un usuario con autenticación local
- * @param email - Correo electrónico del usuario
- * @param newPassword - Nueva contraseña en texto plano (será hasheada)
- * @returns Promesa que resuelve cuando la contraseña ha sido actualizada
- * @throws {Error} Si el usuario no existe, no usa autenticación local o hay un error
+ * Vincula la cuenta de Google al usuario registrado con el mismo correo
+ * - Identidad migrada sin sub (guardada con el correo): se completa con el sub de Google
+ * - Cuenta sin Google: solo se vincula si Google y la cuenta verificaron el correo; de lo
+ *   contrario, quien registró el correo sin verificarlo conservaría el acceso con su contraseña
+ * @param user - Usuario encontrado por correo y su identidad de Google (si tiene)
+ * @param profile - Datos de la cuenta de Google verificada
+ * @throws {Error} 409 si el correo pertenece a otra cuenta de Google o no se puede vincular de forma segura
  */
-export const resetUserPassword = async (email: string, newPassword: string): Promise<void> => {
-  // Buscar usuario
-  const user = await prisma.users.findUnique({ where: { email } });
-  
-  // Verificar si el usuario existe y usa autenticación local
-  if (!user || user.auth_provider !== AuthProvider.LOCAL) {
-    throw createError('Usuario no encontrado o no usa autenticación local', 404, 'AUTH_ERROR');
+const linkGoogleAccountByEmail = async (
+  user: { id: number; email_verified: boolean; user_identities: { id: number; provider_account_id: string; email: string | null }[] },
+  profile: GoogleProfile
+): Promise<void> => {
+  const [googleIdentity] = user.user_identities;
+
+  if (googleIdentity) {
+    if (googleIdentity.provider_account_id !== googleIdentity.email) {
+      throw conflict('Este correo ya está vinculado a otra cuenta de Google');
+    }
+
+    await prisma.user_identities.update({
+      where: { id: googleIdentity.id },
+      data: { provider_account_id: profile.sub }
+    });
+    return;
   }
 
-  // Hashear la nueva contraseña
-  const newHash = await bcrypt.hash(newPassword, BCRYPT_CONFIG.SALT_ROUNDS);
-  
-  // Actualizar la contraseña
-  await prisma.users.update({ 
-    where: { email }, 
-    data: { password_hash: newHash } 
+  if (!profile.emailVerified || !user.email_verified) {
+    throw conflict(
+      'Ya existe una cuenta con este correo. Inicia sesión con tu contraseña y vincula Google desde tu cuenta'
+    );
+  }
+
+  await prisma.user_identities.create({
+    data: {
+      userId: user.id,
+      provider: AuthProvider.GOOGLE,
+      provider_account_id: profile.sub,
+      email: profile.email
+    }
   });
+  logger.info(`Cuenta de Google vinculada por correo verificado al usuario ${user.id}`);
 };
 
 /**
- * Busca un usuario por su correo electrónico o lo crea si no existe (para OAuth)
- * @param email - Correo electrónico del usuario
- * @param name - Nombre completo del usuario
- * @param avatar - URL de la imagen de perfil (opcional)
- * @returns Promesa que resuelve con el token JWT y los datos del usuario
- * @throws {Error} Si hay un error al buscar o crear el usuario
+ * Busca el usuario de una cuenta de Google o lo crea si no existe
+ * Si la cuenta de Google no está vinculada pero su correo pertenece a un usuario,
+ * se vincula a ese usuario (ver linkGoogleAccountByEmail)
+ * @param profile - Datos de la cuenta de Google (ID token verificado)
+ * @param context - Origen de la petición (auditoría)
+ * @returns Promesa que resuelve con el token JWT y los datos del usuario, o con el desafío
+ *          de la verificación en dos pasos si la cuenta la tiene activa
+ * @throws {Error} Si hay un error al buscar, vincular o crear el usuario
  */
 export const findOrCreateGoogleUser = async (
-  email: string, 
-  name: string, 
-  avatar?: string | null
-): Promise<AuthResponse> => {
+  profile: GoogleProfile,
+  context: RequestContext
+): Promise<AuthResponse | TwoFactorChallenge> => {
+  const { email, picture: avatar } = profile;
+  const name = profile.name || 'Usuario de Google';
+  let created = false;
+
   try {
-    console.log(`[AUTH_SERVICE] Buscando usuario con email: ${email}`);
-    
     // Validar email
     if (!email || !email.includes('@')) {
-      console.error('[AUTH_SERVICE] Error: Email no válido');
       throw createError('El correo electrónico no es válido', 400, 'VALIDATION_ERROR');
     }
 
-    // Buscar usuario existente
-    let user = await prisma.users.findUnique({ 
-      where: { email },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        password_hash: true,
-        role: true,
-        auth_provider: true,
-        created_at: true,
-        updated_at: true,
-        avatar_url: true,
-        email_verified: true
-      }
-    }) as any; // Usar aserción de tipo temporalmente
-    
-    console.log(`[AUTH_SERVICE] Usuario ${user ? 'encontrado' : 'no encontrado'}: ${email}`);
+    const userSelect = {
+      id: true,
+      name: true,
+      email: true,
+      password_hash: true,
+      role: true,
+      auth_provider: true,
+      created_at: true,
+      updated_at: true,
+      avatar_url: true,
+      email_verified: true,
+      suspended_at: true
+    } satisfies Prisma.usersSelect;
+
+    // Buscar primero por la cuenta de Google vinculada (claim sub)
+    const identity = await prisma.user_identities.findUnique({
+      where: { provider_provider_account_id: { provider: AuthProvider.GOOGLE, provider_account_id: profile.sub } },
+      select: { user: { select: userSelect } }
+    });
+    let user: Prisma.usersGetPayload<{ select: typeof userSelect }> | null = identity?.user ?? null;
     
-    // Si el usuario existe pero con otro proveedor
-    if (user && user.auth_provider !== AuthProvider.GOOGLE) {
-      console.error(`[AUTH_SERVICE] Error: El correo ${email} ya está registrado con otro método de autenticación`);
-      throw createError(
-        'Este correo ya está registrado con otro método de autenticación. Por favor, inicia sesión con el método original.', 
-        400, 
-        'AUTH_ERROR'
-      );
+    // Si la cuenta de Google no está vinculada, buscar por correo y vincularla
+    if (!user) {
+      const userByEmail = await prisma.users.findUnique({
+        where: { email },
+        select: {
+          ...userSelect,
+          user_identities: {
+            where: { provider: AuthProvider.GOOGLE },
+            select: { id: true, provider_account_id: true, email: true }
+          }
+        }
+      });
+      
+      if (userByEmail) {
+        await linkGoogleAccountByEmail(userByEmail, profile);
+        const { user_identities, ...userData } = userByEmail;
+        user = userData;
+      }
     }
     
     // Si no existe, crearlo
     if (!user) {
-      console.log(`[AUTH_SERVICE] Creando nuevo usuario con Google: ${email}`);
-      
       // Validar nombre
       const displayName = name?.trim() || email.split('@')[0];
       
       try {
         // Crear el usuario con los campos correctos
-        const userData: any = {
+        const userData: Prisma.usersCreateInput = {
           name: displayName,
           email,
           password_hash: '', // Cadena vacía para OAuth
-          role: 'USER',
+          role: Role.USER,
           auth_provider: AuthProvider.GOOGLE,
           email_verified: true,
           created_at: new Date(),
           updated_at: new Date(),
-          ...(avatar && { avatar_url: avatar }) // Agregar avatar_url solo si se proporciona
+          ...(avatar && { avatar_url: avatar }), // Agregar avatar_url solo si se proporciona
+          user_identities: {
+            create: { provider: AuthProvider.GOOGLE, provider_account_id: profile.sub, email }
+          }
         };
         
         user = await prisma.users.create({
           data: userData,
+          select: userSelect
         });
         
-        console.log(`[AUTH_SERVICE] Usuario creado exitosamente con ID: ${user.id}`);
+        logger.info(`Usuario registrado con Google: ${user.id}`);
+        created = true;
       } catch (error) {
-        console.error('[AUTH_SERVICE] Error al crear usuario:', error);
+        logger.error('Error al crear el usuario de Google', { error });
         throw createError('Error al crear el usuario', 500, 'DATABASE_ERROR');
       }
+
+      // Google ya verificó el correo: la bienvenida se envía al crear la cuenta
+      try {
+        await sendTemplatedMail(user.email, 'welcome', { name: user.name, shopUrl: MAIL_CONFIG.FRONTEND_URL });
+      } catch (error) {
+        logger.error(`Error al enviar el correo de bienvenida al usuario ${user.id}:`, error);
+      }
     } else {
       // Actualizar datos del usuario existente si es necesario
-      const updateData: any = { updated_at: new Date() };
+      const updateData: Prisma.usersUpdateInput = { updated_at: new Date() };
       
       // Actualizar avatar si no tiene uno y se proporciona uno nuevo
       if (!user.avatar_url && avatar) {
@@ -396,19 +747,37 @@ export const findOrCreateGoogleUser = async (
         try {
           user = await prisma.users.update({
             where: { id: user.id },
-            data: updateData
+            data: updateData,
+            select: userSelect
           });
-          console.log(`[AUTH_SERVICE] Usuario actualizado: ${user.id}`);
         } catch (error) {
-          console.error('[AUTH_SERVICE] Error al actualizar usuario:', error);
+          logger.error('Error al actualizar el usuario de Google', { error, userId: user.id });
           // No lanzamos error, continuamos con los datos existentes
         }
       }
     }
 
-    // Generar token JWT - Asegurarse de que el ID sea un string
-    console.log(`[AUTH_SERVICE] Generando token JWT para usuario ID: ${user.id}`);
-    const token = generateToken(user.id.toString(), user.role);
+    // Las cuentas suspendidas no pueden iniciar sesión
+    if (user.suspended_at) {
+      throw forbidden(AUTH_ERRORS.ACCOUNT_SUSPENDED);
+    }
+
+    // Con la verificación en dos pasos activa, los tokens se emiten al validar el código
+    if (await isTwoFactorEnabled(user.id)) {
+      await recordAuditEvent({
+        ...context,
+        action: 'GOOGLE_LOGIN',
+        result: 'SUCCESS',
+        actorId: user.id,
+        targetUserId: user.id,
+        metadata: { twoFactorPending: true }
+      });
+      return createTwoFactorChallenge(user.id, AuthProvider.GOOGLE);
+    }
+
+    // Generar el token de acceso y el refresh token
+    const tokens = await issueAuthTokens(user.id, user.role);
+    await touchIdentity(user.id, AuthProvider.GOOGLE);
     
     // Devolver token y datos del usuario (sin la contraseña)
     const { password_hash, ...userWithoutPassword } = user;
@@ -422,17 +791,31 @@ export const findOrCreateGoogleUser = async (
       auth_provider: user.auth_provider,
       created_at: user.created_at,
       updated_at: user.updated_at,
-      // Usar aserción de tipo para acceder a los campos personalizados
-      avatar_url: (user as any).avatar_url || null,
-      email_verified: (user as any).email_verified ?? false
+      avatar_url: user.avatar_url || null,
+      email_verified: user.email_verified
     };
     
+    await recordAuditEvent({
+      ...context,
+      action: 'GOOGLE_LOGIN',
+      result: 'SUCCESS',
+      actorId: user.id,
+      targetUserId: user.id,
+      metadata: { created }
+    });
+    
     return { 
-      token, 
+      ...tokens, 
       user: userResponse
     };
   } catch (error) {
-    console.error('[AUTH_SERVICE] Error en findOrCreateGoogleUser:', error);
+    logger.error('Error en findOrCreateGoogleUser', { error });
+    await recordAuditEvent({
+      ...context,
+      action: 'GOOGLE_LOGIN',
+      result: 'FAILURE',
+      metadata: { email, reason: error instanceof Error ? error.message : 'UNKNOWN_ERROR' }
+    });
     throw error; // Re-lanzar el error para que lo maneje el controlador
   }
 };
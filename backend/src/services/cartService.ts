@@ -0,0 +1,340 @@
+/**
+ * Servicio del carrito de compras
+ * Maneja la lógica de negocio del carrito persistente de cada usuario (tabla cart_items)
+ * y del carrito de invitado identificado por cookie (tablas guest_carts y guest_cart_items)
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import logger from '../utils/logger';
+import { createError, notFound, ERROR_TYPES } from '../middleware/errorHandler';
+
+/**
+ * Obtiene un producto y verifica que la cantidad solicitada no supere su stock
+ * @param productId - ID del producto
+ * @param quantity - Cantidad total que quedará en el carrito
+ * @throws {Error} Si el producto no existe o no hay stock suficiente
+ */
+const ensureStockAvailable = async (productId: number, quantity: number): Promise<void> => {
+  const product = await prisma.products.findUnique({
+    where: { id: productId },
+    select: { name: true, stock: true }
+  });
+
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  if (quantity > product.stock) {
+    throw createError(
+      `Stock insuficiente para "${product.name}" (disponible: ${product.stock})`,
+      409,
+      ERROR_TYPES.CONFLICT
+    );
+  }
+};
+
+/**
+ * Datos del producto que se incluyen en cada línea del carrito
+ */
+const cartProductSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  price: true,
+  stock: true,
+  images: { select: { url: true }, take: 1 }
+} satisfies Prisma.productsSelect;
+
+type CartLineSource = {
+  id: number;
+  productId: number;
+  quantity: number;
+  product: Prisma.productsGetPayload<{ select: typeof cartProductSelect }>;
+};
+
+/**
+ * Calcula el total de cada línea, el número de unidades y el subtotal del carrito
+ * @param items - Líneas del carrito con los datos del producto
+ * @returns Resumen del carrito
+ */
+const summarizeCart = (items: CartLineSource[]) => {
+  const lines = items.map((item) => ({
+    id: item.id,
+    productId: item.productId,
+    quantity: item.quantity,
+    product: item.product,
+    lineTotal: item.product.price * item.quantity
+  }));
+
+  return {
+    items: lines,
+    itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+    subtotal: lines.reduce((sum, line) => sum + line.lineTotal, 0)
+  };
+};
+
+/**
+ * Obtiene el carrito de un usuario con los datos de cada producto y el subtotal
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con las líneas del carrito, el número de unidades y el subtotal
+ */
+export const getCart = async (userId: number) => {
+  const items = await prisma.cart_items.findMany({
+    where: { userId },
+    include: { product: { select: cartProductSelect } },
+    orderBy: { id: 'asc' }
+  });
+
+  return summarizeCart(items);
+};
+
+/**
+ * Agrega un producto al carrito
+ * Si el producto ya está en el carrito, se suma la cantidad a la línea existente
+ * @param userId - ID del usuario
+ * @param productId - ID del producto
+ * @param quantity - Cantidad a agregar
+ * @returns Promesa que resuelve con el carrito actualizado
+ * @throws {Error} Si el producto no existe o la cantidad total supera el stock
+ */
+export const addItem = async (userId: number, productId: number, quantity: number) => {
+  const existing = await prisma.cart_items.findUnique({
+    where: { userId_productId: { userId, productId } },
+    select: { quantity: true }
+  });
+
+  const newQuantity = (existing?.quantity || 0) + quantity;
+  await ensureStockAvailable(productId, newQuantity);
+
+  await prisma.cart_items.upsert({
+    where: { userId_productId: { userId, productId } },
+    create: { userId, productId, quantity: newQuantity },
+    update: { quantity: newQuantity }
+  });
+
+  return getCart(userId);
+};
+
+/**
+ * Establece la cantidad de un producto del carrito
+ * @param userId - ID del usuario
+ * @param productId - ID del producto
+ * @param quantity - Nueva cantidad
+ * @returns Promesa que resuelve con el carrito actualizado
+ * @throws {Error} Si el producto no está en el carrito o la cantidad supera el stock
+ */
+export const setItemQuantity = async (userId: number, productId: number, quantity: number) => {
+  const existing = await prisma.cart_items.findUnique({
+    where: { userId_productId: { userId, productId } },
+    select: { id: true }
+  });
+
+  if (!existing) {
+    throw notFound('Producto en el carrito');
+  }
+
+  await ensureStockAvailable(productId, quantity);
+
+  await prisma.cart_items.update({
+    where: { id: existing.id },
+    data: { quantity }
+  });
+
+  return getCart(userId);
+};
+
+/**
+ * Elimina un producto del carrito
+ * @param userId - ID del usuario
+ * @param productId - ID del producto
+ * @returns Promesa que resuelve con el carrito actualizado
+ * @throws {Error} Si el producto no está en el carrito
+ */
+export const removeItem = async (userId: number, productId: number) => {
+  const { count } = await prisma.cart_items.deleteMany({ where: { userId, productId } });
+
+  if (count === 0) {
+    throw notFound('Producto en el carrito');
+  }
+
+  return getCart(userId);
+};
+
+/**
+ * Vacía el carrito de un usuario
+ * @param userId - ID del usuario
+ */
+export const clearCart = async (userId: number): Promise<void> => {
+  await prisma.cart_items.deleteMany({ where: { userId } });
+};
+
+/**
+ * Obtiene el carrito de invitado con los datos de cada producto y el subtotal
+ * @param guestCartId - Identificador del carrito de invitado (valor de la cookie)
+ * @returns Promesa que resuelve con el carrito, vacío si el identificador no existe
+ */
+export const getGuestCart = async (guestCartId?: string) => {
+  const items = guestCartId
+    ? await prisma.guest_cart_items.findMany({
+        where: { guestCartId },
+        include: { product: { select: cartProductSelect } },
+        orderBy: { id: 'asc' }
+      })
+    : [];
+
+  return summarizeCart(items);
+};
+
+/**
+ * Obtiene el carrito de invitado indicado o crea uno nuevo si no existe
+ * @param guestCartId - Identificador recibido en la cookie (opcional)
+ * @returns Promesa que resuelve con el identificador del carrito de invitado
+ */
+const findOrCreateGuestCart = async (guestCartId?: string): Promise<string> => {
+  if (guestCartId) {
+    const guestCart = await prisma.guest_carts.findUnique({
+      where: { id: guestCartId },
+      select: { id: true }
+    });
+
+    if (guestCart) {
+      return guestCart.id;
+    }
+  }
+
+  const guestCart = await prisma.guest_carts.create({ data: {}, select: { id: true } });
+  return guestCart.id;
+};
+
+/**
+ * Agrega un producto al carrito de invitado, creándolo si es necesario
+ * Si el producto ya está en el carrito, se suma la cantidad a la línea existente
+ * @param guestCartId - Identificador recibido en la cookie (opcional)
+ * @param productId - ID del producto
+ * @param quantity - Cantidad a agregar
+ * @returns Promesa que resuelve con el identificador del carrito y el carrito actualizado
+ * @throws {Error} Si el producto no existe o la cantidad total supera el stock
+ */
+export const addGuestItem = async (
+  guestCartId: string | undefined,
+  productId: number,
+  quantity: number
+) => {
+  const cartId = await findOrCreateGuestCart(guestCartId);
+
+  const existing = await prisma.guest_cart_items.findUnique({
+    where: { guestCartId_productId: { guestCartId: cartId, productId } },
+    select: { quantity: true }
+  });
+
+  const newQuantity = (existing?.quantity || 0) + quantity;
+  await ensureStockAvailable(productId, newQuantity);
+
+  await prisma.guest_cart_items.upsert({
+    where: { guestCartId_productId: { guestCartId: cartId, productId } },
+    create: { guestCartId: cartId, productId, quantity: newQuantity },
+    update: { quantity: newQuantity }
+  });
+
+  return { guestCartId: cartId, cart: await getGuestCart(cartId) };
+};
+
+/**
+ * Establece la cantidad de un producto del carrito de invitado
+ * @param guestCartId - Identificador del carrito de invitado
+ * @param productId - ID del producto
+ * @param quantity - Nueva cantidad
+ * @returns Promesa que resuelve con el carrito actualizado
+ * @throws {Error} Si el producto no está en el carrito o la cantidad supera el stock
+ */
+export const setGuestItemQuantity = async (
+  guestCartId: string | undefined,
+  productId: number,
+  quantity: number
+) => {
+  const existing = guestCartId
+    ? await prisma.guest_cart_items.findUnique({
+        where: { guestCartId_productId: { guestCartId, productId } },
+        select: { id: true }
+      })
+    : null;
+
+  if (!existing) {
+    throw notFound('Producto en el carrito');
+  }
+
+  await ensureStockAvailable(productId, quantity);
+
+  await prisma.guest_cart_items.update({
+    where: { id: existing.id },
+    data: { quantity }
+  });
+
+  return getGuestCart(guestCartId);
+};
+
+/**
+ * Elimina un producto del carrito de invitado
+ * @param guestCartId - Identificador del carrito de invitado
+ * @param productId - ID del producto
+ * @returns Promesa que resuelve con el carrito actualizado
+ * @throws {Error} Si el producto no está en el carrito
+ */
+export const removeGuestItem = async (guestCartId: string | undefined, productId: number) => {
+  const { count } = guestCartId
+    ? await prisma.guest_cart_items.deleteMany({ where: { guestCartId, productId } })
+    : { count: 0 };
+
+  if (count === 0) {
+    throw notFound('Producto en el carrito');
+  }
+
+  return getGuestCart(guestCartId);
+};
+
+/**
+ * Fusiona el carrito de invitado con el carrito del usuario y elimina el carrito de invitado
+ * Las cantidades se suman a las líneas existentes sin superar el stock disponible;
+ * los productos agotados se descartan
+ * @param userId - ID del usuario que acaba de autenticarse
+ * @param guestCartId - Identificador del carrito de invitado (valor de la cookie)
+ * @returns Promesa que resuelve con el número de líneas fusionadas
+ */
+export const mergeGuestCart = async (userId: number, guestCartId: string): Promise<number> => {
+  const merged = await prisma.$transaction(async (tx) => {
+    const guestItems = await tx.guest_cart_items.findMany({
+      where: { guestCartId },
+      include: { product: { select: { stock: true } } }
+    });
+
+    let mergedLines = 0;
+
+    for (const guestItem of guestItems) {
+      const existing = await tx.cart_items.findUnique({
+        where: { userId_productId: { userId, productId: guestItem.productId } },
+        select: { quantity: true }
+      });
+
+      const currentQuantity = existing?.quantity || 0;
+      const quantity = Math.min(currentQuantity + guestItem.quantity, guestItem.product.stock);
+
+      if (quantity <= currentQuantity) {
+        continue;
+      }
+
+      await tx.cart_items.upsert({
+        where: { userId_productId: { userId, productId: guestItem.productId } },
+        create: { userId, productId: guestItem.productId, quantity },
+        update: { quantity }
+      });
+      mergedLines++;
+    }
+
+    await tx.guest_carts.deleteMany({ where: { id: guestCartId } });
+    return mergedLines;
+  });
+
+  logger.info(`Carrito de invitado fusionado para el usuario ${userId}: ${merged} líneas`);
+  return merged;
+};
@@ -0,0 +1,266 @@
+/**
+ * Servicio de categorías
+ * Maneja la lógica de negocio de las categorías jerárquicas del catálogo
+ */
+
+import prisma from '../prisma/client';
+import { createError, notFound, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { generateUniqueSlug } from '../utils/slug';
+import { CategoryTreeNode } from '../types/category.types';
+import { CreateCategoryInput, UpdateCategoryInput } from '../schemas/category.schema';
+
+/**
+ * Indica si un slug de categoría ya está en uso
+ * @param slug - Slug a comprobar
+ * @returns Promesa que resuelve con true si el slug existe
+ */
+const slugExists = async (slug: string): Promise<boolean> => {
+  const category = await prisma.categories.findUnique({ where: { slug }, select: { id: true } });
+  return Boolean(category);
+};
+
+/**
+ * Verifica que un slug indicado manualmente no esté en uso por otra categoría
+ * @param slug - Slug solicitado
+ * @param excludeId - ID de la categoría que se está editando (opcional)
+ * @throws {Error} Si el slug ya pertenece a otra categoría
+ */
+const ensureSlugAvailable = async (slug: string, excludeId?: number): Promise<void> => {
+  const category = await prisma.categories.findUnique({ where: { slug }, select: { id: true } });
+
+  if (category && category.id !== excludeId) {
+    throw createError('Ya existe una categoría con este slug', 409, ERROR_TYPES.CONFLICT);
+  }
+};
+
+/**
+ * Obtiene un mapa de cada categoría a sus subcategorías directas
+ * @returns Promesa que resuelve con el mapa parentId -> IDs de hijos
+ */
+const getChildrenMap = async (): Promise<Map<number | null, number[]>> => {
+  const categories = await prisma.categories.findMany({ select: { id: true, parentId: true } });
+  const childrenMap = new Map<number | null, number[]>();
+
+  for (const { id, parentId } of categories) {
+    childrenMap.set(parentId, [...(childrenMap.get(parentId) || []), id]);
+  }
+
+  return childrenMap;
+};
+
+/**
+ * Obtiene los IDs de una categoría y de todas sus descendientes
+ * @param rootId - ID de la categoría raíz
+ * @param childrenMap - Mapa parentId -> IDs de hijos (se consulta si no se proporciona)
+ * @returns Promesa que resuelve con los IDs del subárbol, incluida la raíz
+ */
+const collectSubtreeIds = async (
+  rootId: number,
+  childrenMap?: Map<number | null, number[]>
+): Promise<number[]> => {
+  const map = childrenMap || (await getChildrenMap());
+  const ids: number[] = [];
+  const pending = [rootId];
+
+  while (pending.length) {
+    const id = pending.pop() as number;
+    ids.push(id);
+    pending.push(...(map.get(id) || []));
+  }
+
+  return ids;
+};
+
+/**
+ * Verifica que la categoría padre exista y que no genere un ciclo en el árbol
+ * @param parentId - ID de la categoría padre
+ * @param categoryId - ID de la categoría que se está editando (opcional)
+ * @throws {Error} Si el padre no existe o es la propia categoría o una de sus descendientes
+ */
+const ensureValidParent = async (parentId: number, categoryId?: number): Promise<void> => {
+  const parent = await prisma.categories.findUnique({ where: { id: parentId }, select: { id: true } });
+  if (!parent) {
+    throw createError('La categoría padre no existe', 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  if (categoryId !== undefined) {
+    const subtree = await collectSubtreeIds(categoryId);
+    if (subtree.includes(parentId)) {
+      throw createError(
+        'Una categoría no puede ser hija de sí misma ni de una de sus subcategorías',
+        400,
+        ERROR_TYPES.VALIDATION_ERROR
+      );
+    }
+  }
+};
+
+/**
+ * Lista todas las categorías en forma plana, ordenadas por nombre
+ * @returns Promesa que resuelve con las categorías
+ */
+export const listCategories = async () => {
+  return prisma.categories.findMany({
+    select: { id: true, name: true, slug: true, parentId: true, created_at: true, updated_at: true },
+    orderBy: { name: 'asc' }
+  });
+};
+
+/**
+ * Construye el árbol completo de categorías con el conteo de productos
+ * Se usa para la navegación del catálogo
+ * @returns Promesa que resuelve con las categorías raíz y sus subcategorías anidadas
+ */
+export const getCategoryTree = async (): Promise<CategoryTreeNode[]> => {
+  const categories = await prisma.categories.findMany({
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      parentId: true,
+      _count: { select: { products: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const nodes = new Map<number, CategoryTreeNode>();
+  for (const category of categories) {
+    nodes.set(category.id, {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      parentId: category.parentId,
+      productCount: category._count.products,
+      totalProductCount: category._count.products,
+      children: []
+    });
+  }
+
+  const roots: CategoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Acumular los productos de las subcategorías en cada nodo
+  const sumProducts = (node: CategoryTreeNode): number => {
+    node.totalProductCount = node.productCount + node.children.reduce((sum, child) => sum + sumProducts(child), 0);
+    return node.totalProductCount;
+  };
+  roots.forEach(sumProducts);
+
+  return roots;
+};
+
+/**
+ * Obtiene los IDs de la categoría con el slug indicado y de todas sus subcategorías
+ * Se usa para filtrar productos por categoría incluyendo las categorías hijas
+ * @param slug - Slug de la categoría
+ * @returns Promesa que resuelve con los IDs, o un arreglo vacío si la categoría no existe
+ */
+export const getCategorySubtreeIds = async (slug: string): Promise<number[]> => {
+  const category = await prisma.categories.findUnique({ where: { slug }, select: { id: true } });
+  if (!category) {
+    return [];
+  }
+
+  return collectSubtreeIds(category.id);
+};
+
+/**
+ * Crea una nueva categoría (solo administradores)
+ * Si no se indica un slug, se genera uno único a partir del nombre
+ * @param data - Datos validados de la categoría
+ * @returns Promesa que resuelve con la categoría creada
+ * @throws {Error} Si el slug indicado ya existe o la categoría padre no es válida
+ */
+export const createCategory = async (data: CreateCategoryInput) => {
+  const { name, slug, parentId } = data;
+
+  if (parentId) {
+    await ensureValidParent(parentId);
+  }
+
+  if (slug) {
+    await ensureSlugAvailable(slug);
+  }
+
+  const category = await prisma.categories.create({
+    data: {
+      name,
+      slug: slug || (await generateUniqueSlug(name, slugExists)),
+      parentId: parentId ?? null
+    }
+  });
+
+  logger.info(`Categoría creada: ${category.id} (${category.slug})`);
+  return category;
+};
+
+/**
+ * Actualiza una categoría existente (solo administradores)
+ * El slug solo cambia si se indica explícitamente, para no romper las URLs existentes
+ * @param id - ID de la categoría
+ * @param data - Campos validados a actualizar
+ * @returns Promesa que resuelve con la categoría actualizada
+ * @throws {Error} Si la categoría no existe, el slug está en uso o el padre genera un ciclo
+ */
+export const updateCategory = async (id: number, data: UpdateCategoryInput) => {
+  const existing = await prisma.categories.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw notFound('Categoría');
+  }
+
+  if (data.parentId) {
+    await ensureValidParent(data.parentId, id);
+  }
+
+  if (data.slug) {
+    await ensureSlugAvailable(data.slug, id);
+  }
+
+  const category = await prisma.categories.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.slug !== undefined && { slug: data.slug }),
+      ...(data.parentId !== undefined && { parentId: data.parentId })
+    }
+  });
+
+  logger.info(`Categoría actualizada: ${category.id}`);
+  return category;
+};
+
+/**
+ * Elimina una categoría (solo administradores)
+ * Solo se pueden eliminar categorías sin productos ni subcategorías
+ * @param id - ID de la categoría
+ * @throws {Error} Si la categoría no existe o aún tiene productos o subcategorías
+ */
+export const deleteCategory = async (id: number): Promise<void> => {
+  const category = await prisma.categories.findUnique({
+    where: { id },
+    select: { id: true, _count: { select: { products: true, children: true } } }
+  });
+
+  if (!category) {
+    throw notFound('Categoría');
+  }
+
+  if (category._count.products > 0 || category._count.children > 0) {
+    throw createError(
+      'No se puede eliminar una categoría que tiene productos o subcategorías',
+      409,
+      ERROR_TYPES.CONFLICT
+    );
+  }
+
+  await prisma.categories.delete({ where: { id } });
+  logger.info(`Categoría eliminada: ${id}`);
+};
@@ -0,0 +1,116 @@
+/**
+ * Servicio de checkout
+ * Convierte el carrito del usuario en un pedido de forma atómica
+ */
+
+import prisma from '../prisma/client';
+import { conflict, notFound, createError, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { PRODUCT_CONFIG } from '../constants/product.constants';
+
+/**
+ * Crea un pedido a partir del carrito del usuario
+ * En una única transacción:
+ * - Verifica que la dirección pertenezca al usuario
+ * - Copia el precio actual de cada producto en order_items
+ * - Descuenta el stock de cada producto
+ * - Calcula el total del pedido y registra el estado inicial en su historial
+ * - Vacía el carrito
+ * @param userId - ID del usuario autenticado
+ * @param addressId - ID de la dirección de envío
+ * @returns Promesa que resuelve con el pedido creado y sus líneas, y los productos que quedaron
+ *          con stock bajo
+ * @throws {Error} Si la dirección no es del usuario, el carrito está vacío o falta stock
+ */
+export const checkout = async (userId: number, addressId: number) => {
+  const { order, lowStockProducts } = await prisma.$transaction(async (tx) => {
+    // Bloquear la cuenta frente a su eliminación simultánea (userAdminService.deleteUser):
+    // si se está eliminando, se espera a que termine y la cuenta ya no se encuentra
+    const [account] = await tx.$queryRaw<{ id: number }[]>`
+      SELECT id FROM "users" WHERE id = ${userId} AND deleted_at IS NULL FOR SHARE
+    `;
+
+    if (!account) {
+      throw notFound('Usuario');
+    }
+
+    const address = await tx.addresses.findFirst({
+      where: { id: addressId, userId, archived_at: null },
+      select: { id: true }
+    });
+
+    if (!address) {
+      throw notFound('Dirección');
+    }
+
+    const cartItems = await tx.cart_items.findMany({
+      where: { userId },
+      include: { product: { select: { id: true, name: true, price: true, stock: true } } },
+      orderBy: { id: 'asc' }
+    });
+
+    if (cartItems.length === 0) {
+      throw createError('El carrito está vacío', 400, ERROR_TYPES.VALIDATION_ERROR);
+    }
+
+    // Reportar todas las líneas sin stock suficiente de una sola vez
+    const shortages = cartItems
+      .filter((item) => item.quantity > item.product.stock)
+      .map((item) => `${item.product.name}: disponible ${item.product.stock}, solicitado ${item.quantity}`);
+
+    if (shortages.length) {
+      throw conflict('No hay stock suficiente para completar la compra', shortages);
+    }
+
+    // Descontar el stock solo si sigue siendo suficiente (protege frente a compras simultáneas)
+    for (const item of cartItems) {
+      const { count } = await tx.products.updateMany({
+        where: { id: item.productId, stock: { gte: item.quantity } },
+        data: { stock: { decrement: item.quantity } }
+      });
+
+      if (count === 0) {
+        throw conflict('No hay stock suficiente para completar la compra', [
+          `${item.product.name}: el stock cambió mientras se procesaba la compra`
+        ]);
+      }
+    }
+
+    const total = cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+
+    const createdOrder = await tx.orders.create({
+      data: {
+        userId,
+        addressId,
+        total,
+        order_items: {
+          create: cartItems.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            price: item.product.price
+          }))
+        },
+        status_history: {
+          create: { status: 'PENDING' }
+        }
+      },
+      include: { order_items: true }
+    });
+
+    await tx.cart_items.deleteMany({ where: { userId } });
+
+    // Productos que quedaron con stock bajo tras la compra
+    const lowStock = await tx.products.findMany({
+      where: {
+        id: { in: cartItems.map((item) => item.productId) },
+        stock: { lte: PRODUCT_CONFIG.LOW_STOCK_THRESHOLD }
+      },
+      select: { id: true, name: true, slug: true, stock: true }
+    });
+
+    return { order: createdOrder, lowStockProducts: lowStock };
+  });
+
+  logger.info(`Pedido ${order.id} creado para el usuario ${userId} (total: ${order.total})`);
+  return { order, lowStockProducts };
+};
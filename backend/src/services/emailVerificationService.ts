@@ -0,0 +1,122 @@
+/**
+ * Servicio de verificación de correo
+ * Envía a las cuentas locales un enlace con un token de un solo uso (en la base de datos
+ * solo se guarda su hash) y marca el correo como verificado al confirmarlo
+ */
+
+import prisma from '../prisma/client';
+import { createError, notFound, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { generateSecureToken, hashToken } from '../utils/tokens';
+import { sendTemplatedMail } from './mailService';
+import { AUTH_ERRORS, EMAIL_VERIFICATION_CONFIG } from '../constants/auth.constants';
+import { MAIL_CONFIG } from '../constants/mail.constants';
+
+/**
+ * Genera un token de verificación para el usuario y le envía el enlace por correo
+ * Los enlaces enviados anteriormente dejan de ser válidos
+ * @param user - ID, nombre y correo del usuario
+ * @throws {Error} Si no se pudo guardar el token o enviar el correo
+ */
+export const sendVerificationEmail = async (user: { id: number; name: string; email: string }): Promise<void> => {
+  const token = generateSecureToken(32);
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.email_verification_tokens.updateMany({
+      where: { userId: user.id, used_at: null },
+      data: { used_at: now }
+    }),
+    prisma.email_verification_tokens.create({
+      data: {
+        userId: user.id,
+        token_hash: hashToken(token),
+        expires_at: new Date(now.getTime() + EMAIL_VERIFICATION_CONFIG.TOKEN_TTL_HOURS * 60 * 60 * 1000)
+      }
+    })
+  ]);
+
+  const verifyUrl = `${MAIL_CONFIG.FRONTEND_URL}${EMAIL_VERIFICATION_CONFIG.FRONTEND_PATH}?token=${token}`;
+  await sendTemplatedMail(user.email, 'email-verification', {
+    name: user.name,
+    verifyUrl,
+    expiresInHours: EMAIL_VERIFICATION_CONFIG.TOKEN_TTL_HOURS
+  });
+
+  logger.info(`Enlace de verificación de correo enviado al usuario ${user.id}`);
+};
+
+/**
+ * Reenvía el enlace de verificación al usuario autenticado
+ * @param userId - ID del usuario
+ * @throws {Error} Si el usuario no existe o su correo ya está verificado
+ */
+export const resendVerificationEmail = async (userId: number): Promise<void> => {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true, email_verified: true }
+  });
+
+  if (!user) {
+    throw notFound('Usuario');
+  }
+
+  if (user.email_verified) {
+    throw createError('El correo electrónico ya está verificado', 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  await sendVerificationEmail(user);
+};
+
+/**
+ * Confirma el correo del usuario con el token recibido por correo y le envía la bienvenida
+ * @param token - Token en claro del enlace
+ * @throws {Error} 400 si el token no existe, ya se usó o expiró
+ */
+export const verifyEmail = async (token: string): Promise<void> => {
+  const verificationToken = await prisma.email_verification_tokens.findUnique({
+    where: { token_hash: hashToken(token) },
+    select: { id: true, userId: true, expires_at: true, used_at: true }
+  });
+
+  if (!verificationToken || verificationToken.used_at || verificationToken.expires_at <= new Date()) {
+    throw createError(AUTH_ERRORS.INVALID_VERIFICATION_TOKEN, 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  const user = await prisma.$transaction(async (tx) => {
+    // Marcar el token como usado de forma atómica para que no se pueda usar dos veces
+    const { count } = await tx.email_verification_tokens.updateMany({
+      where: { id: verificationToken.id, used_at: null },
+      data: { used_at: new Date() }
+    });
+
+    if (count === 0) {
+      throw createError(AUTH_ERRORS.INVALID_VERIFICATION_TOKEN, 400, ERROR_TYPES.VALIDATION_ERROR);
+    }
+
+    return tx.users.update({
+      where: { id: verificationToken.userId },
+      data: { email_verified: true },
+      select: { id: true, name: true, email: true }
+    });
+  });
+
+  logger.info(`Correo verificado para el usuario ${user.id}`);
+
+  // La bienvenida se envía una vez confirmado el correo; un fallo no afecta la verificación
+  try {
+    await sendTemplatedMail(user.email, 'welcome', { name: user.name, shopUrl: MAIL_CONFIG.FRONTEND_URL });
+  } catch (error) {
+    logger.error(`Error al enviar el correo de bienvenida al usuario ${user.id}:`, error);
+  }
+};
+
+/**
+ * Indica si el correo de un usuario está verificado
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con true si el correo está verificado
+ */
+export const isEmailVerified = async (userId: number): Promise<boolean> => {
+  const user = await prisma.users.findUnique({ where: { id: userId }, select: { email_verified: true } });
+  return Boolean(user?.email_verified);
+};
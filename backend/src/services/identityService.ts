@@ -0,0 +1,231 @@
+/**
+ * Servicio de identidades (métodos de inicio de sesión)
+ * Un usuario puede iniciar sesión con varios proveedores: cada uno es un registro de
+ * user_identities. La identidad LOCAL indica que la cuenta tiene contraseña (users.password_hash)
+ * Vincular o desvincular un proveedor exige confirmar la identidad con un método ya vinculado,
+ * y nunca se permite quitar el último método de inicio de sesión
+ */
+
+import bcrypt from 'bcrypt';
+import { AuthProvider, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { conflict, createError, notFound, unauthorized, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { verifyGoogleIdToken } from '../utils/googleAuth';
+import { BCRYPT_CONFIG } from '../constants/auth.constants';
+import { ReauthInput } from '../schemas/identity.schema';
+
+/**
+ * Campos de la identidad que se envían al cliente
+ */
+const identitySelect = {
+  provider: true,
+  email: true,
+  created_at: true,
+  last_used_at: true
+} satisfies Prisma.user_identitiesSelect;
+
+/**
+ * Datos para crear la identidad LOCAL de un usuario
+ * El ID de cuenta de LOCAL es el propio ID del usuario (la contraseña vive en users)
+ * @param userId - ID del usuario
+ * @param email - Correo del usuario
+ */
+export const localIdentityData = (userId: number, email: string) => ({
+  userId,
+  provider: AuthProvider.LOCAL,
+  provider_account_id: String(userId),
+  email
+});
+
+/**
+ * Lista los métodos de inicio de sesión vinculados a un usuario
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con las identidades del usuario
+ */
+export const listIdentities = async (userId: number) =>
+  prisma.user_identities.findMany({
+    where: { userId },
+    select: identitySelect,
+    orderBy: { created_at: 'asc' }
+  });
+
+/**
+ * Registra el uso de una identidad al iniciar sesión
+ * @param userId - ID del usuario
+ * @param provider - Proveedor con el que inició sesión
+ */
+export const touchIdentity = async (userId: number, provider: AuthProvider): Promise<void> => {
+  await prisma.user_identities.updateMany({
+    where: { userId, provider },
+    data: { last_used_at: new Date() }
+  });
+};
+
+/**
+ * Confirma la identidad del usuario con uno de sus métodos vinculados
+ * (contraseña actual o un ID token de la cuenta de Google vinculada)
+ * @param userId - ID del usuario autenticado
+ * @param reauth - Contraseña o ID token de Google
+ * @throws {Error} 401 si ninguna de las credenciales corresponde a un método vinculado
+ */
+export const verifyReauthentication = async (userId: number, reauth: ReauthInput): Promise<void> => {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: {
+      password_hash: true,
+      user_identities: { select: { provider: true, provider_account_id: true, email: true } }
+    }
+  });
+
+  if (!user) {
+    throw notFound('Usuario');
+  }
+
+  const identity = (provider: AuthProvider) => user.user_identities.find((item) => item.provider === provider);
+
+  if (reauth.password && identity(AuthProvider.LOCAL)) {
+    if (await bcrypt.compare(reauth.password, user.password_hash)) {
+      return;
+    }
+  }
+
+  const googleIdentity = identity(AuthProvider.GOOGLE);
+  if (reauth.googleToken && googleIdentity) {
+    const profile = await verifyGoogleIdToken(reauth.googleToken);
+    if (profile.sub === googleIdentity.provider_account_id) {
+      return;
+    }
+  }
+
+  throw unauthorized('No se pudo confirmar tu identidad');
+};
+
+/**
+ * Vincula una cuenta de Google al usuario autenticado
+ * @param userId - ID del usuario autenticado
+ * @param googleToken - ID token de la cuenta de Google a vincular
+ * @param reauth - Credenciales para confirmar la identidad del usuario
+ * @returns Promesa que resuelve con las identidades del usuario
+ * @throws {Error} 409 si el usuario ya tiene Google vinculado o la cuenta de Google pertenece a otro usuario
+ */
+export const linkGoogleIdentity = async (userId: number, googleToken: string, reauth: ReauthInput) => {
+  await verifyReauthentication(userId, reauth);
+  const profile = await verifyGoogleIdToken(googleToken);
+
+  const existing = await prisma.user_identities.findFirst({
+    where: {
+      OR: [
+        { userId, provider: AuthProvider.GOOGLE },
+        { provider: AuthProvider.GOOGLE, provider_account_id: profile.sub }
+      ]
+    },
+    select: { userId: true }
+  });
+
+  if (existing) {
+    throw conflict(
+      existing.userId === userId
+        ? 'Ya tienes una cuenta de Google vinculada'
+        : 'Esta cuenta de Google ya está vinculada a otro usuario'
+    );
+  }
+
+  await prisma.user_identities.create({
+    data: {
+      userId,
+      provider: AuthProvider.GOOGLE,
+      provider_account_id: profile.sub,
+      email: profile.email
+    }
+  });
+
+  logger.info(`Cuenta de Google vinculada al usuario ${userId}`);
+  return listIdentities(userId);
+};
+
+/**
+ * Agrega una contraseña (identidad LOCAL) a un usuario que solo inicia sesión con otro proveedor
+ * @param userId - ID del usuario autenticado
+ * @param newPassword - Contraseña en texto plano (será hasheada)
+ * @param reauth - Credenciales para confirmar la identidad del usuario
+ * @returns Promesa que resuelve con las identidades del usuario
+ * @throws {Error} 409 si el usuario ya tiene contraseña
+ */
+export const linkLocalIdentity = async (userId: number, newPassword: string, reauth: ReauthInput) => {
+  await verifyReauthentication(userId, reauth);
+
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { email: true, user_identities: { where: { provider: AuthProvider.LOCAL }, select: { id: true } } }
+  });
+
+  if (!user) {
+    throw notFound('Usuario');
+  }
+
+  if (user.user_identities.length > 0) {
+    throw conflict('Tu cuenta ya tiene una contraseña; usa el cambio de contraseña');
+  }
+
+  const passwordHash = await bcrypt.hash(newPassword, BCRYPT_CONFIG.SALT_ROUNDS);
+
+  await prisma.$transaction([
+    prisma.users.update({ where: { id: userId }, data: { password_hash: passwordHash } }),
+    prisma.user_identities.create({ data: localIdentityData(userId, user.email) })
+  ]);
+
+  logger.info(`Contraseña vinculada al usuario ${userId}`);
+  return listIdentities(userId);
+};
+
+/**
+ * Desvincula un método de inicio de sesión del usuario autenticado
+ * Al quitar la identidad LOCAL también se borra la contraseña
+ * @param userId - ID del usuario autenticado
+ * @param provider - Proveedor a desvincular
+ * @param reauth - Credenciales para confirmar la identidad del usuario
+ * @returns Promesa que resuelve con las identidades restantes
+ * @throws {Error} 404 si el proveedor no está vinculado; 400 si es el último método de inicio de sesión
+ */
+export const unlinkIdentity = async (userId: number, provider: AuthProvider, reauth: ReauthInput) => {
+  await verifyReauthentication(userId, reauth);
+
+  await prisma.$transaction(async (tx) => {
+    const identities = await tx.user_identities.findMany({
+      where: { userId },
+      select: { id: true, provider: true }
+    });
+
+    const target = identities.find((identity) => identity.provider === provider);
+    if (!target) {
+      throw notFound('Método de inicio de sesión');
+    }
+
+    if (identities.length === 1) {
+      throw createError(
+        'No puedes desvincular tu único método de inicio de sesión',
+        400,
+        ERROR_TYPES.VALIDATION_ERROR
+      );
+    }
+
+    await tx.user_identities.delete({ where: { id: target.id } });
+
+    // auth_provider guarda el método principal: pasa a uno de los que quedan vinculados
+    const remaining = identities.find((identity) => identity.id !== target.id)!;
+    await tx.users.update({
+      where: { id: userId },
+      data: {
+        auth_provider: remaining.provider,
+        ...(provider === AuthProvider.LOCAL && { password_hash: '' })
+      }
+    });
+  }, {
+    // Evita que dos desvinculaciones simultáneas dejen la cuenta sin métodos de inicio de sesión
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+  });
+
+  logger.info(`Proveedor ${provider} desvinculado del usuario ${userId}`);
+  return listIdentities(userId);
+};
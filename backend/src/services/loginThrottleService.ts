@@ -0,0 +1,156 @@
+/**
+ * Servicio de protección contra la fuerza bruta en el inicio de sesión
+ * Lleva contadores de intentos fallidos por cuenta (correo) y por IP:
+ * - Tras unos intentos libres, cada fallo exige esperar un tiempo creciente antes del siguiente
+ * - Al superar el umbral, la cuenta o la IP quedan bloqueadas temporalmente
+ * Los contadores por correo se llevan aunque la cuenta no exista, para no revelar qué correos están registrados
+ */
+
+import prisma from '../prisma/client';
+import { tooManyRequests } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { AUTH_ERRORS, LOGIN_THROTTLE_CONFIG } from '../constants/auth.constants';
+
+type ThrottleScope = 'ACCOUNT' | 'IP';
+
+/**
+ * Clave del contador de una cuenta
+ */
+export const accountKey = (email: string): string => `account:${email.trim().toLowerCase()}`;
+
+/**
+ * Clave del contador de una IP
+ */
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+/**
+ * Espera exigida tras un número de fallos consecutivos
+ * @param failedCount - Intentos fallidos acumulados
+ * @param scope - Contador de cuenta o de IP
+ * @returns Milisegundos que deben pasar desde el último fallo
+ */
+const delayFor = (failedCount: number, scope: ThrottleScope): number => {
+  const extraFailures = failedCount - LOGIN_THROTTLE_CONFIG[scope].FREE_ATTEMPTS;
+  if (extraFailures <= 0) {
+    return 0;
+  }
+  return Math.min(
+    LOGIN_THROTTLE_CONFIG.BASE_DELAY_MS * 2 ** (extraFailures - 1),
+    LOGIN_THROTTLE_CONFIG.MAX_DELAY_MS
+  );
+};
+
+/**
+ * Indica si un contador ya caducó (sin fallos durante RESET_AFTER_MINUTES)
+ */
+const isExpired = (lastFailedAt: Date, now: Date): boolean =>
+  now.getTime() - lastFailedAt.getTime() > LOGIN_THROTTLE_CONFIG.RESET_AFTER_MINUTES * 60 * 1000;
+
+/**
+ * Crea el error 429 del inicio de sesión con los segundos de espera (cabecera Retry-After)
+ * @param retryAfterMs - Milisegundos hasta el siguiente intento permitido
+ */
+const tooManyAttempts = (retryAfterMs: number) =>
+  tooManyRequests(AUTH_ERRORS.TOO_MANY_LOGIN_ATTEMPTS, Math.ceil(retryAfterMs / 1000));
+
+/**
+ * Comprueba que la cuenta y la IP puedan intentar iniciar sesión ahora
+ * @param email - Correo con el que se intenta iniciar sesión
+ * @param ip - IP de la petición
+ * @throws {Error} 429 si están bloqueadas o aún deben esperar tras el último fallo
+ */
+export const assertLoginAllowed = async (email: string, ip: string): Promise<void> => {
+  const now = new Date();
+  const throttles = await prisma.login_throttles.findMany({
+    where: { key: { in: [accountKey(email), ipKey(ip)] } }
+  });
+
+  for (const throttle of throttles) {
+    if (throttle.locked_until && throttle.locked_until > now) {
+      throw tooManyAttempts(throttle.locked_until.getTime() - now.getTime());
+    }
+
+    if (isExpired(throttle.last_failed_at, now)) {
+      continue;
+    }
+
+    const scope: ThrottleScope = throttle.key.startsWith('ip:') ? 'IP' : 'ACCOUNT';
+    const nextAttemptAt = throttle.last_failed_at.getTime() + delayFor(throttle.failed_count, scope);
+    if (nextAttemptAt > now.getTime()) {
+      throw tooManyAttempts(nextAttemptAt - now.getTime());
+    }
+  }
+};
+
+/**
+ * Suma un intento fallido a un contador y lo bloquea si supera el umbral
+ * Tras un bloqueo el contador se conserva, de modo que cada nuevo fallo vuelve a bloquear
+ * hasta que pase RESET_AFTER_MINUTES sin fallos o se inicie sesión correctamente
+ */
+const incrementThrottle = async (key: string, scope: ThrottleScope, now: Date): Promise<void> => {
+  // Un contador caducado vuelve a empezar desde cero
+  await prisma.login_throttles.updateMany({
+    where: {
+      key,
+      last_failed_at: { lt: new Date(now.getTime() - LOGIN_THROTTLE_CONFIG.RESET_AFTER_MINUTES * 60 * 1000) }
+    },
+    data: { failed_count: 0, locked_until: null }
+  });
+
+  // Incremento atómico: los fallos simultáneos no pueden pisarse entre sí
+  const throttle = await prisma.login_throttles.upsert({
+    where: { key },
+    create: { key, failed_count: 1, last_failed_at: now },
+    update: { failed_count: { increment: 1 }, last_failed_at: now }
+  });
+
+  if (throttle.failed_count < LOGIN_THROTTLE_CONFIG[scope].LOCK_THRESHOLD) {
+    return;
+  }
+
+  await prisma.login_throttles.update({
+    where: { key },
+    data: { locked_until: new Date(now.getTime() + LOGIN_THROTTLE_CONFIG.LOCK_MINUTES * 60 * 1000) }
+  });
+
+  logger.warn(`Inicio de sesión bloqueado temporalmente para ${key} tras ${throttle.failed_count} intentos fallidos`);
+};
+
+/**
+ * Registra un intento fallido de inicio de sesión para la cuenta y para la IP
+ * @param email - Correo con el que se intentó iniciar sesión
+ * @param ip - IP de la petición
+ */
+export const recordLoginFailure = async (email: string, ip: string): Promise<void> => {
+  const now = new Date();
+  await incrementThrottle(accountKey(email), 'ACCOUNT', now);
+  await incrementThrottle(ipKey(ip), 'IP', now);
+};
+
+/**
+ * Reinicia el contador de la cuenta tras un inicio de sesión correcto
+ * El de la IP se conserva: una cuenta válida no debe servir para seguir probando otras
+ * @param email - Correo de la cuenta
+ */
+export const recordLoginSuccess = async (email: string): Promise<void> => {
+  await prisma.login_throttles.deleteMany({ where: { key: accountKey(email) } });
+};
+
+/**
+ * Desbloquea una cuenta: reinicia su contador de inicio de sesión y el bloqueo
+ * de la verificación en dos pasos
+ * @param user - ID y correo del usuario
+ * @returns Promesa que resuelve con true si la cuenta tenía un bloqueo o intentos fallidos
+ */
+export const unlockAccount = async (user: { id: number; email: string }): Promise<boolean> => {
+  const [throttle, twoFactor] = await prisma.$transaction([
+    prisma.login_throttles.deleteMany({ where: { key: accountKey(user.email) } }),
+    prisma.two_factor_auth.updateMany({
+      where: { userId: user.id, OR: [{ locked_until: { not: null } }, { failed_attempts: { gt: 0 } }] },
+      data: { locked_until: null, failed_attempts: 0 }
+    })
+  ]);
+
+  logger.info(`Cuenta desbloqueada para el usuario ${user.id}`);
+  return throttle.count + twoFactor.count > 0;
+};
@@ -0,0 +1,266 @@
+/**
+ * Servicio de correo
+ * Cada mensaje se registra en la bandeja de salida (tabla mail_outbox) y se envía a través
+ * del transporte configurado (MAIL_TRANSPORT). Si el envío falla, el mensaje queda pendiente
+ * y el proceso de reintentos lo vuelve a enviar con una espera creciente entre intentos
+ * El contenido se borra al enviarse y los correos con enlaces de un solo uso nunca lo guardan
+ * (ver SENSITIVE_MAIL_TEMPLATES); los mensajes antiguos se purgan tras RETENTION_DAYS
+ */
+
+import { mail_outbox } from '@prisma/client';
+import prisma from '../prisma/client';
+import logger from '../utils/logger';
+import { MAIL_CONFIG, MAIL_OUTBOX_CONFIG, SMTP_CONFIG } from '../constants/mail.constants';
+import { MailContent, MailMessage, MailTransport } from '../types/mail.types';
+import { consoleTransport } from '../mail/transports/console.transport';
+import { createFileTransport } from '../mail/transports/file.transport';
+import { createSmtpTransport } from '../mail/transports/smtp.transport';
+import { mailTemplates, MailTemplateData, MailTemplateName, SENSITIVE_MAIL_TEMPLATES } from '../mail/templates';
+
+/**
+ * Crea el transporte indicado en la configuración
+ * @returns Transporte de correo
+ * @throws {Error} Si MAIL_TRANSPORT no es un transporte conocido
+ */
+const createTransport = (): MailTransport => {
+  switch (MAIL_CONFIG.TRANSPORT) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: SMTP_CONFIG.HOST,
+        port: SMTP_CONFIG.PORT,
+        secure: SMTP_CONFIG.SECURE,
+        user: SMTP_CONFIG.USER,
+        pass: SMTP_CONFIG.PASS
+      });
+    case 'file':
+      return createFileTransport(MAIL_CONFIG.OUTBOX_DIR);
+    case 'console':
+      return consoleTransport;
+    default:
+      // Sin respaldo en la consola: escribiría en los logs los enlaces de un solo uso de los correos
+      throw new Error(`Transporte de correo no válido: "${MAIL_CONFIG.TRANSPORT}" (console, file o smtp)`);
+  }
+};
+
+let transport: MailTransport = createTransport();
+
+/**
+ * Reemplaza el transporte de correo (ej: para usar un proveedor externo)
+ * @param customTransport - Transporte a utilizar
+ */
+export const setMailTransport = (customTransport: MailTransport): void => {
+  transport = customTransport;
+};
+
+/**
+ * Contenido de los correos con enlaces de un solo uso pendientes de envío
+ * Solo vive en memoria: si el proceso se reinicia, el mensaje se marca como fallido
+ * y el usuario puede solicitar un nuevo enlace
+ */
+const sensitiveContents = new Map<number, MailContent>();
+
+/**
+ * Intenta enviar un mensaje de la bandeja de salida y guarda el resultado
+ * Si falla, se programa el siguiente intento (1, 2, 4, ... minutos) hasta agotar MAX_ATTEMPTS
+ * @param message - Mensaje registrado en la bandeja de salida
+ * @returns Promesa que resuelve con true si el mensaje se envió
+ */
+const deliver = async (message: mail_outbox): Promise<boolean> => {
+  const attempts = message.attempts + 1;
+  const content = sensitiveContents.get(message.id)
+    ?? (message.text !== null ? { subject: message.subject, text: message.text, html: message.html ?? undefined } : null);
+
+  if (!content) {
+    await prisma.mail_outbox.update({
+      where: { id: message.id },
+      data: { status: 'FAILED', attempts, last_error: 'El contenido del mensaje ya no está disponible' }
+    });
+    logger.error(`Correo ${message.id} a ${message.to} descartado: su contenido ya no está disponible`);
+    return false;
+  }
+
+  try {
+    await transport.send({
+      to: message.to,
+      ...content,
+      from: MAIL_CONFIG.FROM
+    });
+
+    // El contenido enviado no se conserva
+    sensitiveContents.delete(message.id);
+    await prisma.mail_outbox.update({
+      where: { id: message.id },
+      data: { status: 'SENT', attempts, sent_at: new Date(), last_error: null, text: null, html: null }
+    });
+
+    logger.info(`Correo "${message.subject}" enviado a ${message.to} (transporte ${transport.name})`);
+    return true;
+  } catch (error) {
+    const failed = attempts >= MAIL_OUTBOX_CONFIG.MAX_ATTEMPTS;
+    const retryDelay = MAIL_OUTBOX_CONFIG.RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+
+    await prisma.mail_outbox.update({
+      where: { id: message.id },
+      data: {
+        status: failed ? 'FAILED' : 'PENDING',
+        attempts,
+        last_error: error instanceof Error ? error.message : String(error),
+        next_attempt_at: new Date(Date.now() + retryDelay)
+      }
+    });
+
+    if (failed) {
+      sensitiveContents.delete(message.id);
+      logger.error(`Correo ${message.id} a ${message.to} descartado tras ${attempts} intentos:`, error);
+    } else {
+      logger.warn(`Error al enviar el correo ${message.id} a ${message.to} (intento ${attempts}), se reintentará`);
+    }
+    return false;
+  }
+};
+
+/**
+ * Registra un correo en la bandeja de salida e intenta enviarlo de inmediato
+ * Un fallo del transporte no se propaga: el mensaje queda pendiente para reintentarse
+ * @param message - Destinatario, asunto y contenido del correo
+ * @param template - Nombre de la plantilla usada (para consultar la bandeja de salida);
+ *                   el contenido de las plantillas sensibles no se guarda
+ * @returns Promesa que resuelve con true si el correo se envió en el primer intento
+ * @throws {Error} Si no se pudo registrar el mensaje en la bandeja de salida
+ */
+export const sendMail = async (message: MailMessage, template?: MailTemplateName): Promise<boolean> => {
+  const isSensitive = Boolean(template && SENSITIVE_MAIL_TEMPLATES.has(template));
+
+  const outboxMessage = await prisma.mail_outbox.create({
+    data: {
+      to: message.to,
+      subject: message.subject,
+      text: isSensitive ? null : message.text,
+      html: isSensitive ? null : message.html,
+      template,
+      // Reservado mientras se hace el primer intento para que el proceso de reintentos no lo duplique
+      next_attempt_at: new Date(Date.now() + MAIL_OUTBOX_CONFIG.LOCK_MS)
+    }
+  });
+
+  if (isSensitive) {
+    const { to, ...content } = message;
+    sensitiveContents.set(outboxMessage.id, content);
+  }
+
+  return deliver(outboxMessage);
+};
+
+/**
+ * Genera un correo a partir de una plantilla y lo envía con sendMail
+ * @param to - Correo del destinatario
+ * @param template - Nombre de la plantilla
+ * @param data - Datos de la plantilla
+ * @returns Promesa que resuelve con true si el correo se envió en el primer intento
+ */
+export const sendTemplatedMail = async <T extends MailTemplateName>(
+  to: string,
+  template: T,
+  data: MailTemplateData<T>
+): Promise<boolean> => {
+  const render = mailTemplates[template] as (data: MailTemplateData<T>) => MailContent;
+  return sendMail({ to, ...render(data) }, template);
+};
+
+/**
+ * Reintenta los correos pendientes cuyo siguiente intento ya venció
+ * Cada mensaje se reserva antes de enviarlo para que varias instancias del servidor
+ * no lo envíen dos veces
+ * @returns Promesa que resuelve con el número de correos enviados
+ */
+export const processMailOutbox = async (): Promise<number> => {
+  const now = new Date();
+  const pending = await prisma.mail_outbox.findMany({
+    where: {
+      status: 'PENDING',
+      next_attempt_at: { lte: now },
+      // Los correos sin contenido guardado solo los reintenta la instancia que los tiene en memoria
+      OR: [{ text: { not: null } }, { id: { in: [...sensitiveContents.keys()] } }]
+    },
+    orderBy: { next_attempt_at: 'asc' },
+    take: MAIL_OUTBOX_CONFIG.BATCH_SIZE
+  });
+
+  let sent = 0;
+  for (const message of pending) {
+    const { count } = await prisma.mail_outbox.updateMany({
+      where: { id: message.id, status: 'PENDING', next_attempt_at: message.next_attempt_at },
+      data: { next_attempt_at: new Date(now.getTime() + MAIL_OUTBOX_CONFIG.LOCK_MS) }
+    });
+
+    if (count === 1 && (await deliver(message))) {
+      sent++;
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Elimina los mensajes más antiguos que el periodo de retención
+ * (incluye los pendientes cuyo contenido se perdió al reiniciarse el proceso)
+ * @returns Promesa que resuelve con el número de mensajes eliminados
+ */
+export const purgeMailOutbox = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - MAIL_OUTBOX_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.mail_outbox.deleteMany({
+    where: { created_at: { lt: cutoff } }
+  });
+
+  if (count > 0) {
+    logger.info(`Bandeja de salida: ${count} correo(s) anteriores a ${cutoff.toISOString()} eliminado(s)`);
+  }
+  return count;
+};
+
+/**
+ * Inicia el proceso periódico de reintentos y la purga diaria de la bandeja de salida
+ * @returns Función que detiene ambos procesos
+ */
+export const startMailOutboxWorker = (): (() => void) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Evitar pasadas solapadas si el transporte responde lento
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const sent = await processMailOutbox();
+      if (sent > 0) {
+        logger.info(`Bandeja de salida: ${sent} correo(s) reenviado(s)`);
+      }
+    } catch (error) {
+      logger.error('Error al procesar la bandeja de salida de correos:', error);
+    } finally {
+      running = false;
+    }
+  }, MAIL_OUTBOX_CONFIG.WORKER_INTERVAL_MS);
+
+  const purge = async () => {
+    try {
+      await purgeMailOutbox();
+    } catch (error) {
+      logger.error('Error al purgar la bandeja de salida de correos:', error);
+    }
+  };
+
+  purge();
+  const purgeTimer = setInterval(purge, MAIL_OUTBOX_CONFIG.PURGE_INTERVAL_MS);
+
+  // No mantener vivo el proceso solo por los temporizadores
+  timer.unref();
+  purgeTimer.unref();
+
+  return () => {
+    clearInterval(timer);
+    clearInterval(purgeTimer);
+  };
+};
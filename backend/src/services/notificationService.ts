@@ -0,0 +1,212 @@
+/**
+ * Servicio de notificaciones
+ * Guarda las notificaciones de los usuarios (para que el listado y su estado de lectura
+ * sobrevivan a una recarga) y las emite en tiempo real por Socket.IO
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { notFound } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { emitToAdmins, emitToUser } from '../socket/notifications';
+import { ORDER_STATUS_LABELS } from '../constants/order.constants';
+import { TWO_FACTOR_CONFIG } from '../constants/auth.constants';
+import { NotificationQueryInput } from '../schemas/notification.schema';
+import type {
+  AppServer,
+  NotificationCreatedEvent,
+  NotificationEventName,
+  ServerToClientEvents
+} from '../types/socket.types';
+
+type EventPayload<E extends NotificationEventName> = Parameters<ServerToClientEvents[E]>[0];
+
+/**
+ * Título y mensaje que se guardan para cada evento del catálogo
+ */
+const notificationTemplates: {
+  [E in NotificationEventName]: (payload: EventPayload<E>) => { title: string; message: string };
+} = {
+  'order:status-changed': ({ orderId, status }) => ({
+    title: 'Tu pedido cambió de estado',
+    message: `El pedido #${orderId} ahora está ${ORDER_STATUS_LABELS[status]}`
+  }),
+  'order:created': ({ orderId, itemCount, total }) => ({
+    title: 'Nuevo pedido',
+    message: `Se recibió el pedido #${orderId} con ${itemCount} producto(s) por $${total.toLocaleString('es-CO')}`
+  }),
+  'product:low-stock': ({ name, stock }) => ({
+    title: 'Stock bajo',
+    message: `Quedan ${stock} unidad(es) de "${name}"`
+  }),
+  'question:answered': ({ product }) => ({
+    title: 'Respondieron tu pregunta',
+    message: `Tu pregunta sobre "${product.name}" ya tiene respuesta`
+  })
+};
+
+/**
+ * Campos de la notificación que se envían al cliente
+ */
+const notificationSelect = {
+  id: true,
+  type: true,
+  title: true,
+  message: true,
+  data: true,
+  read_at: true,
+  created_at: true
+} satisfies Prisma.notificationsSelect;
+
+/**
+ * Convierte los datos del evento en un valor JSON serializable para Prisma
+ */
+const toJson = (payload: unknown): Prisma.InputJsonValue =>
+  JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+
+/**
+ * Guarda una notificación para un usuario y le emite el evento del catálogo
+ * junto con la notificación creada ('notification:created')
+ * Los errores se registran en el log sin interrumpir la operación que originó el aviso
+ * @param io - Servidor de Socket.IO (req.io)
+ * @param userId - ID del usuario destinatario
+ * @param event - Nombre del evento del catálogo
+ * @param payload - Datos del evento
+ */
+export const notifyUser = async <E extends NotificationEventName>(
+  io: AppServer | undefined,
+  userId: number,
+  event: E,
+  payload: EventPayload<E>
+): Promise<void> => {
+  try {
+    const notification = await prisma.notifications.create({
+      data: { userId, type: event, ...notificationTemplates[event](payload), data: toJson(payload) },
+      select: notificationSelect
+    });
+
+    emitToUser(io, userId, event, ...([payload] as Parameters<ServerToClientEvents[E]>));
+    emitToUser(io, userId, 'notification:created', notification as NotificationCreatedEvent);
+  } catch (error) {
+    logger.error(`Error al notificar el evento ${event} al usuario ${userId}:`, error);
+  }
+};
+
+/**
+ * Guarda una notificación para cada administrador y les emite el evento del catálogo
+ * @param io - Servidor de Socket.IO (req.io)
+ * @param event - Nombre del evento del catálogo
+ * @param payload - Datos del evento
+ */
+export const notifyAdmins = async <E extends NotificationEventName>(
+  io: AppServer | undefined,
+  event: E,
+  payload: EventPayload<E>
+): Promise<void> => {
+  try {
+    // Con TWO_FACTOR_REQUIRED_FOR_ADMINS, solo los administradores con la verificación en dos pasos activa
+    // reciben los avisos (como en la sala de administradores del socket)
+    const admins = await prisma.users.findMany({
+      where: {
+        role: 'ADMIN',
+        suspended_at: null,
+        ...(TWO_FACTOR_CONFIG.REQUIRED_FOR_ADMINS && { two_factor_auth: { is: { enabled_at: { not: null } } } })
+      },
+      select: { id: true }
+    });
+    const content = notificationTemplates[event](payload);
+    const data = toJson(payload);
+
+    const notifications = await prisma.notifications.createManyAndReturn({
+      data: admins.map((admin) => ({ userId: admin.id, type: event, ...content, data })),
+      select: { ...notificationSelect, userId: true }
+    });
+
+    emitToAdmins(io, event, ...([payload] as Parameters<ServerToClientEvents[E]>));
+    for (const { userId, ...notification } of notifications) {
+      emitToUser(io, userId, 'notification:created', notification as NotificationCreatedEvent);
+    }
+  } catch (error) {
+    logger.error(`Error al notificar el evento ${event} a los administradores:`, error);
+  }
+};
+
+/**
+ * Lista las notificaciones de un usuario, de la más reciente a la más antigua
+ * @param userId - ID del usuario
+ * @param query - Página, tamaño de página y filtro de no leídas
+ * @returns Promesa que resuelve con las notificaciones, el total de no leídas y la paginación
+ */
+export const listNotifications = async (userId: number, query: NotificationQueryInput) => {
+  const { page, limit, unread } = query;
+
+  const where: Prisma.notificationsWhereInput = {
+    userId,
+    ...(unread !== undefined && { read_at: unread ? null : { not: null } })
+  };
+
+  const [total, unreadCount, notifications] = await prisma.$transaction([
+    prisma.notifications.count({ where }),
+    prisma.notifications.count({ where: { userId, read_at: null } }),
+    prisma.notifications.findMany({
+      where,
+      select: notificationSelect,
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    notifications,
+    unreadCount,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Marca una notificación del usuario como leída
+ * @param userId - ID del usuario
+ * @param id - ID de la notificación
+ * @returns Promesa que resuelve con la notificación actualizada
+ * @throws {Error} Si la notificación no existe o pertenece a otro usuario
+ */
+export const markAsRead = async (userId: number, id: number) => {
+  const notification = await prisma.notifications.findFirst({
+    where: { id, userId },
+    select: notificationSelect
+  });
+
+  if (!notification) {
+    throw notFound('Notificación');
+  }
+
+  if (notification.read_at) {
+    return notification;
+  }
+
+  return prisma.notifications.update({
+    where: { id },
+    data: { read_at: new Date() },
+    select: notificationSelect
+  });
+};
+
+/**
+ * Marca como leídas todas las notificaciones pendientes del usuario
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con el número de notificaciones actualizadas
+ */
+export const markAllAsRead = async (userId: number): Promise<number> => {
+  const { count } = await prisma.notifications.updateMany({
+    where: { userId, read_at: null },
+    data: { read_at: new Date() }
+  });
+
+  return count;
+};
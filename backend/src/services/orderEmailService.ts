@@ -0,0 +1,87 @@
+/**
+ * Correos de los pedidos
+ * Avisa al cliente por correo de la confirmación y del envío de sus pedidos
+ * Los errores se registran en el log sin interrumpir la operación que originó el aviso
+ */
+
+import prisma from '../prisma/client';
+import logger from '../utils/logger';
+import { sendTemplatedMail } from './mailService';
+import { MAIL_CONFIG } from '../constants/mail.constants';
+
+/**
+ * Carga los datos del pedido que necesitan las plantillas de correo
+ * @param orderId - ID del pedido
+ * @returns Promesa que resuelve con el pedido, su cliente, dirección y líneas, o null si no existe
+ */
+const getOrderForMail = (orderId: number) =>
+  prisma.orders.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      total: true,
+      user: { select: { name: true, email: true } },
+      address: { select: { name: true, street: true, municipio: true, city: true, country: true } },
+      order_items: {
+        select: { quantity: true, price: true, product: { select: { name: true } } },
+        orderBy: { id: 'asc' }
+      }
+    }
+  });
+
+/**
+ * Enlace al detalle del pedido en el frontend
+ */
+const orderUrl = (orderId: number): string => `${MAIL_CONFIG.FRONTEND_URL}${MAIL_CONFIG.ORDERS_PATH}/${orderId}`;
+
+/**
+ * Envía al cliente el correo de confirmación de un pedido recién creado
+ * @param orderId - ID del pedido
+ */
+export const sendOrderConfirmationEmail = async (orderId: number): Promise<void> => {
+  try {
+    const order = await getOrderForMail(orderId);
+    if (!order) {
+      return;
+    }
+
+    await sendTemplatedMail(order.user.email, 'order-confirmation', {
+      name: order.user.name,
+      orderId: order.id,
+      items: order.order_items.map((item) => ({
+        name: item.product.name,
+        quantity: item.quantity,
+        price: item.price
+      })),
+      total: order.total,
+      address: order.address,
+      orderUrl: orderUrl(order.id)
+    });
+  } catch (error) {
+    logger.error(`Error al enviar la confirmación del pedido ${orderId}:`, error);
+  }
+};
+
+/**
+ * Envía al cliente el aviso de que su pedido fue enviado
+ * @param orderId - ID del pedido
+ * @param note - Nota del cambio de estado (ej: transportadora y número de guía)
+ */
+export const sendShippingNotificationEmail = async (orderId: number, note?: string | null): Promise<void> => {
+  try {
+    const order = await getOrderForMail(orderId);
+    if (!order) {
+      return;
+    }
+
+    await sendTemplatedMail(order.user.email, 'shipping-notification', {
+      name: order.user.name,
+      orderId: order.id,
+      note,
+      address: order.address,
+      orderUrl: orderUrl(order.id)
+    });
+  } catch (error) {
+    logger.error(`Error al enviar el aviso de envío del pedido ${orderId}:`, error);
+  }
+};
@@ -0,0 +1,243 @@
+/**
+ * Servicio de pedidos
+ * Maneja la consulta del historial y el detalle de los pedidos,
+ * y la administración de sus estados
+ */
+
+import { OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { conflict, notFound } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { ORDER_STATUS_TRANSITIONS, SALE_RECORDING_STATUSES } from '../constants/order.constants';
+import { recordSale, removeSale } from './salesService';
+import { OrderQueryInput, AdminOrderQueryInput } from '../schemas/order.schema';
+
+/**
+ * Obtiene el ID del usuario propietario de un pedido
+ * Se usa con el middleware isOwnerOrAdmin para proteger las rutas de pedidos
+ * @param orderId - ID del pedido (valor del parámetro de ruta)
+ * @returns Promesa que resuelve con el ID del propietario, o null si el pedido no existe
+ */
+export const getOrderOwnerId = async (orderId: string): Promise<number | null> => {
+  const id = Number(orderId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return null;
+  }
+
+  const order = await prisma.orders.findUnique({ where: { id }, select: { userId: true } });
+  return order?.userId ?? null;
+};
+
+/**
+ * Lista los pedidos de un usuario, del más reciente al más antiguo
+ * @param userId - ID del usuario
+ * @param query - Página y tamaño de página
+ * @returns Promesa que resuelve con el resumen de cada pedido y los datos de paginación
+ */
+export const listUserOrders = async (userId: number, query: OrderQueryInput) => {
+  const { page, limit } = query;
+
+  const [total, orders] = await prisma.$transaction([
+    prisma.orders.count({ where: { userId } }),
+    prisma.orders.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        status: true,
+        total: true,
+        created_at: true,
+        updated_at: true,
+        order_items: { select: { quantity: true } }
+      },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    orders: orders.map(({ order_items, ...order }) => ({
+      ...order,
+      itemCount: order_items.reduce((sum, item) => sum + item.quantity, 0)
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Obtiene el detalle de un pedido: líneas, dirección de envío e historial de estados
+ * @param orderId - ID del pedido
+ * @returns Promesa que resuelve con el pedido y su línea de tiempo de estados
+ * @throws {Error} Si el pedido no existe
+ */
+export const getOrderDetail = async (orderId: number) => {
+  const order = await prisma.orders.findUnique({
+    where: { id: orderId },
+    include: {
+      order_items: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+              images: { select: { url: true }, take: 1 }
+            }
+          }
+        },
+        orderBy: { id: 'asc' }
+      },
+      address: true,
+      status_history: {
+        select: { status: true, note: true, created_at: true },
+        orderBy: { created_at: 'asc' }
+      }
+    }
+  });
+
+  if (!order) {
+    throw notFound('Pedido');
+  }
+
+  const { order_items, status_history, ...orderData } = order;
+
+  return {
+    ...orderData,
+    items: order_items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      product: item.product,
+      quantity: item.quantity,
+      price: item.price,
+      lineTotal: item.price * item.quantity
+    })),
+    itemCount: order_items.reduce((sum, item) => sum + item.quantity, 0),
+    timeline: status_history
+  };
+};
+
+/**
+ * Lista todos los pedidos para administración con filtros y paginación
+ * @param query - Filtros validados (estado, rango de fechas, email del cliente) y paginación
+ * @returns Promesa que resuelve con los pedidos, su cliente y los datos de paginación
+ */
+export const listAllOrders = async (query: AdminOrderQueryInput) => {
+  const { page, limit, status, from, to, email } = query;
+
+  const where: Prisma.ordersWhereInput = {
+    ...(status && { status }),
+    ...((from || to) && {
+      created_at: {
+        ...(from && { gte: from }),
+        ...(to && { lte: to })
+      }
+    }),
+    ...(email && { user: { email: { contains: email, mode: 'insensitive' } } })
+  };
+
+  const [total, orders] = await prisma.$transaction([
+    prisma.orders.count({ where }),
+    prisma.orders.findMany({
+      where,
+      select: {
+        id: true,
+        status: true,
+        total: true,
+        created_at: true,
+        updated_at: true,
+        user: { select: { id: true, name: true, email: true } },
+        order_items: { select: { quantity: true } }
+      },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    orders: orders.map(({ order_items, ...order }) => ({
+      ...order,
+      itemCount: order_items.reduce((sum, item) => sum + item.quantity, 0)
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Cambia el estado de un pedido validando la transición (solo administradores)
+ * Al pagar o entregar el pedido se registra su venta; al cancelarlo se devuelve el stock
+ * de sus productos y se anula la venta
+ * @param orderId - ID del pedido
+ * @param status - Nuevo estado
+ * @param note - Nota opcional que se guarda en el historial
+ * @returns Promesa que resuelve con el detalle actualizado del pedido y su estado anterior
+ * @throws {Error} Si el pedido no existe o la transición no está permitida
+ */
+export const updateOrderStatus = async (orderId: number, status: OrderStatus, note?: string) => {
+  const previousStatus = await prisma.$transaction(async (tx) => {
+    const order = await tx.orders.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        userId: true,
+        total: true,
+        status: true,
+        order_items: { select: { productId: true, quantity: true } }
+      }
+    });
+
+    if (!order) {
+      throw notFound('Pedido');
+    }
+
+    if (!ORDER_STATUS_TRANSITIONS[order.status].includes(status)) {
+      throw conflict(`No se puede cambiar un pedido de ${order.status} a ${status}`);
+    }
+
+    // Devolver el stock de los productos del pedido cancelado
+    if (status === 'CANCELLED') {
+      for (const item of order.order_items) {
+        await tx.products.update({
+          where: { id: item.productId },
+          data: { stock: { increment: item.quantity } }
+        });
+      }
+    }
+
+    // Solo se actualiza si el estado no cambió desde la lectura (evita transiciones simultáneas)
+    const { count } = await tx.orders.updateMany({
+      where: { id: orderId, status: order.status },
+      data: { status }
+    });
+
+    if (count === 0) {
+      throw conflict('El estado del pedido cambió mientras se procesaba la solicitud');
+    }
+
+    await tx.order_status_history.create({
+      data: { orderId, status, note }
+    });
+
+    // Registrar la venta al pagar o entregar el pedido; una cancelación la anula
+    if (SALE_RECORDING_STATUSES.includes(status)) {
+      await recordSale(tx, order);
+    } else if (status === 'CANCELLED') {
+      await removeSale(tx, orderId);
+    }
+
+    return order.status;
+  });
+
+  logger.info(`Pedido ${orderId}: estado cambiado de ${previousStatus} a ${status}`);
+  return { order: await getOrderDetail(orderId), previousStatus };
+};
@@ -0,0 +1,135 @@
+/**
+ * Servicio de restablecimiento de contraseña
+ * Flujo en dos pasos: la solicitud envía por correo un enlace con un token de un solo uso
+ * (en la base de datos solo se guarda su hash) y la confirmación cambia la contraseña
+ * y cierra todas las sesiones abiertas del usuario
+ * Las cuentas que solo usan Google también pueden usarlo para crear su primera contraseña
+ */
+
+import bcrypt from 'bcrypt';
+import prisma from '../prisma/client';
+import { createError, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { generateSecureToken, hashToken } from '../utils/tokens';
+import { sendTemplatedMail } from './mailService';
+import { revokeUserSessions } from './sessionService';
+import { localIdentityData } from './identityService';
+import { recordAuditEvent } from './auditService';
+import { RequestContext } from '../utils/requestContext';
+import { AUTH_ERRORS, BCRYPT_CONFIG, PASSWORD_RESET_CONFIG } from '../constants/auth.constants';
+import { MAIL_CONFIG } from '../constants/mail.constants';
+
+/**
+ * Solicita el restablecimiento de la contraseña de una cuenta
+ * Para no revelar qué correos están registrados, no falla si la cuenta no existe:
+ * simplemente no envía nada
+ * @param email - Correo electrónico de la cuenta
+ * @param context - Origen de la petición (auditoría)
+ */
+export const requestPasswordReset = async (email: string, context: RequestContext): Promise<void> => {
+  const user = await prisma.users.findUnique({
+    where: { email },
+    select: { id: true, name: true, email: true }
+  });
+
+  if (!user) {
+    await recordAuditEvent({
+      ...context,
+      action: 'PASSWORD_RESET_REQUEST',
+      result: 'FAILURE',
+      metadata: { email, reason: 'UNKNOWN_ACCOUNT' }
+    });
+    return;
+  }
+
+  const token = generateSecureToken(32);
+  const now = new Date();
+
+  await prisma.$transaction([
+    // Solo el último enlace enviado es válido
+    prisma.password_reset_tokens.updateMany({
+      where: { userId: user.id, used_at: null },
+      data: { used_at: now }
+    }),
+    prisma.password_reset_tokens.create({
+      data: {
+        userId: user.id,
+        token_hash: hashToken(token),
+        expires_at: new Date(now.getTime() + PASSWORD_RESET_CONFIG.TOKEN_TTL_MINUTES * 60 * 1000)
+      }
+    })
+  ]);
+
+  await recordAuditEvent({ ...context, action: 'PASSWORD_RESET_REQUEST', result: 'SUCCESS', targetUserId: user.id });
+
+  const resetUrl = `${MAIL_CONFIG.FRONTEND_URL}${PASSWORD_RESET_CONFIG.FRONTEND_PATH}?token=${token}`;
+
+  // Un fallo del correo no se informa al cliente para no revelar que la cuenta existe
+  try {
+    await sendTemplatedMail(user.email, 'password-reset', {
+      name: user.name,
+      resetUrl,
+      expiresInMinutes: PASSWORD_RESET_CONFIG.TOKEN_TTL_MINUTES
+    });
+    logger.info(`Enlace de restablecimiento de contraseña enviado al usuario ${user.id}`);
+  } catch (error) {
+    logger.error(`Error al enviar el enlace de restablecimiento al usuario ${user.id}:`, error);
+  }
+};
+
+/**
+ * Confirma el restablecimiento de contraseña con el token recibido por correo
+ * El token se marca como usado y se cierran todas las sesiones del usuario
+ * @param token - Token en claro del enlace
+ * @param newPassword - Nueva contraseña en texto plano (será hasheada)
+ * @param context - Origen de la petición (auditoría)
+ * @throws {Error} 400 si el token no existe, ya se usó o expiró
+ */
+export const resetPassword = async (token: string, newPassword: string, context: RequestContext): Promise<void> => {
+  const resetToken = await prisma.password_reset_tokens.findUnique({
+    where: { token_hash: hashToken(token) },
+    select: { id: true, userId: true, expires_at: true, used_at: true }
+  });
+
+  if (!resetToken || resetToken.used_at || resetToken.expires_at <= new Date()) {
+    await recordAuditEvent({
+      ...context,
+      action: 'PASSWORD_RESET',
+      result: 'FAILURE',
+      targetUserId: resetToken?.userId,
+      metadata: { reason: !resetToken ? 'INVALID_TOKEN' : resetToken.used_at ? 'USED_TOKEN' : 'EXPIRED_TOKEN' }
+    });
+    throw createError(AUTH_ERRORS.INVALID_RESET_TOKEN, 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  const passwordHash = await bcrypt.hash(newPassword, BCRYPT_CONFIG.SALT_ROUNDS);
+
+  await prisma.$transaction(async (tx) => {
+    // Marcar el token como usado de forma atómica para que no se pueda usar dos veces
+    const { count } = await tx.password_reset_tokens.updateMany({
+      where: { id: resetToken.id, used_at: null },
+      data: { used_at: new Date() }
+    });
+
+    if (count === 0) {
+      throw createError(AUTH_ERRORS.INVALID_RESET_TOKEN, 400, ERROR_TYPES.VALIDATION_ERROR);
+    }
+
+    const user = await tx.users.update({
+      where: { id: resetToken.userId },
+      data: { password_hash: passwordHash },
+      select: { id: true, email: true }
+    });
+
+    // Si la cuenta no tenía contraseña (solo Google), queda vinculada como método de inicio de sesión
+    await tx.user_identities.upsert({
+      where: { userId_provider: { userId: user.id, provider: 'LOCAL' } },
+      create: localIdentityData(user.id, user.email),
+      update: {}
+    });
+  });
+
+  await revokeUserSessions(resetToken.userId);
+  logger.info(`Contraseña restablecida para el usuario ${resetToken.userId}`);
+  await recordAuditEvent({ ...context, action: 'PASSWORD_RESET', result: 'SUCCESS', targetUserId: resetToken.userId });
+};
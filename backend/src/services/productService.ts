@@ -0,0 +1,229 @@
+/**
+ * Servicio de productos
+ * Maneja la lógica de negocio del catálogo: listado, detalle y administración de productos
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { createError, notFound, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { generateUniqueSlug } from '../utils/slug';
+import { getCategorySubtreeIds } from './categoryService';
+import { getRatingSummaries } from './reviewService';
+import {
+  ProductQueryInput,
+  CreateProductInput,
+  UpdateProductInput
+} from '../schemas/product.schema';
+
+/**
+ * Relaciones que se incluyen en las respuestas de productos
+ */
+const productInclude = {
+  category: { select: { id: true, name: true, slug: true } },
+  images: { select: { id: true, url: true } }
+} satisfies Prisma.productsInclude;
+
+/**
+ * Verifica que la categoría indicada exista
+ * @param categoryId - ID de la categoría
+ * @throws {Error} Si la categoría no existe
+ */
+const ensureCategoryExists = async (categoryId: number): Promise<void> => {
+  const category = await prisma.categories.findUnique({
+    where: { id: categoryId },
+    select: { id: true }
+  });
+
+  if (!category) {
+    throw createError('La categoría indicada no existe', 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+};
+
+/**
+ * Agrega a cada producto el resumen de sus calificaciones (promedio y conteo por estrellas)
+ * @param products - Productos a completar
+ * @returns Promesa que resuelve con los productos y su propiedad rating
+ */
+const withRatings = async <T extends { id: number }>(products: T[]) => {
+  const summaries = await getRatingSummaries(products.map((product) => product.id));
+  return products.map((product) => ({ ...product, rating: summaries.get(product.id)! }));
+};
+
+/**
+ * Indica si un slug de producto ya está en uso
+ * @param slug - Slug a comprobar
+ * @returns Promesa que resuelve con true si el slug existe
+ */
+const productSlugExists = async (slug: string): Promise<boolean> => {
+  const product = await prisma.products.findUnique({ where: { slug }, select: { id: true } });
+  return Boolean(product);
+};
+
+/**
+ * Lista los productos del catálogo con paginación, orden y filtros
+ * @param query - Filtros validados (página, límite, orden, categoría y rango de precios)
+ * @returns Promesa que resuelve con los productos de la página (con sus calificaciones)
+ *          y los datos de paginación
+ */
+export const listProducts = async (query: ProductQueryInput) => {
+  const { page, limit, sort, order, category, minPrice, maxPrice } = query;
+
+  // El filtro por categoría incluye los productos de sus subcategorías
+  const categoryIds = category ? await getCategorySubtreeIds(category) : undefined;
+
+  const where: Prisma.productsWhereInput = {
+    ...(categoryIds && { categoryId: { in: categoryIds } }),
+    ...((minPrice !== undefined || maxPrice !== undefined) && {
+      price: {
+        ...(minPrice !== undefined && { gte: minPrice }),
+        ...(maxPrice !== undefined && { lte: maxPrice })
+      }
+    })
+  };
+
+  const [total, products] = await prisma.$transaction([
+    prisma.products.count({ where }),
+    prisma.products.findMany({
+      where,
+      include: productInclude,
+      orderBy: [{ [sort]: order }, { id: order }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    products: await withRatings(products),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Obtiene el detalle de un producto a partir de su slug
+ * @param slug - Slug del producto
+ * @returns Promesa que resuelve con el producto, su categoría, imágenes y calificaciones
+ * @throws {Error} Si el producto no existe
+ */
+export const getProductBySlug = async (slug: string) => {
+  const product = await prisma.products.findUnique({
+    where: { slug },
+    include: productInclude
+  });
+
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  const [productWithRating] = await withRatings([product]);
+  return productWithRating;
+};
+
+/**
+ * Crea un nuevo producto (solo administradores)
+ * Si no se indica un slug, se genera uno único a partir del nombre
+ * @param data - Datos validados del producto
+ * @returns Promesa que resuelve con el producto creado
+ * @throws {Error} Si la categoría no existe o el slug ya está en uso
+ */
+export const createProduct = async (data: CreateProductInput) => {
+  const { images, slug, ...productData } = data;
+
+  await ensureCategoryExists(productData.categoryId);
+
+  const product = await prisma.products.create({
+    data: {
+      ...productData,
+      slug: slug || (await generateUniqueSlug(productData.name, productSlugExists)),
+      ...(images?.length && {
+        images: { create: images.map((url) => ({ url })) }
+      })
+    },
+    include: productInclude
+  });
+
+  logger.info(`Producto creado: ${product.id} (${product.slug})`);
+  return product;
+};
+
+/**
+ * Actualiza un producto existente (solo administradores)
+ * Si se envía el arreglo de imágenes, reemplaza las imágenes actuales
+ * @param id - ID del producto
+ * @param data - Campos validados a actualizar
+ * @returns Promesa que resuelve con el producto actualizado
+ * @throws {Error} Si el producto o la categoría no existen
+ */
+export const updateProduct = async (id: number, data: UpdateProductInput) => {
+  const { images, ...productData } = data;
+
+  const existing = await prisma.products.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw notFound('Producto');
+  }
+
+  if (productData.categoryId !== undefined) {
+    await ensureCategoryExists(productData.categoryId);
+  }
+
+  const product = await prisma.$transaction(async (tx) => {
+    if (images) {
+      await tx.product_images.deleteMany({ where: { productId: id } });
+    }
+
+    return tx.products.update({
+      where: { id },
+      data: {
+        ...productData,
+        ...(images && {
+          images: { create: images.map((url) => ({ url })) }
+        })
+      },
+      include: productInclude
+    });
+  });
+
+  logger.info(`Producto actualizado: ${product.id}`);
+  return product;
+};
+
+/**
+ * Elimina un producto (solo administradores)
+ * Los productos que ya forman parte de pedidos no se pueden eliminar
+ * @param id - ID del producto
+ * @throws {Error} Si el producto no existe o tiene pedidos asociados
+ */
+export const deleteProduct = async (id: number): Promise<void> => {
+  const product = await prisma.products.findUnique({
+    where: { id },
+    select: { id: true, _count: { select: { order_items: true } } }
+  });
+
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  if (product._count.order_items > 0) {
+    throw createError(
+      'No se puede eliminar un producto que forma parte de pedidos',
+      409,
+      ERROR_TYPES.CONFLICT
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.product_images.deleteMany({ where: { productId: id } }),
+    prisma.cart_items.deleteMany({ where: { productId: id } }),
+    prisma.guest_cart_items.deleteMany({ where: { productId: id } }),
+    prisma.reviews.deleteMany({ where: { productId: id } }),
+    prisma.questions.deleteMany({ where: { productId: id } }),
+    prisma.products.delete({ where: { id } })
+  ]);
+
+  logger.info(`Producto eliminado: ${id}`);
+};
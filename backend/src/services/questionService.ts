@@ -0,0 +1,139 @@
+/**
+ * Servicio de preguntas y respuestas
+ * Maneja las preguntas de los clientes sobre los productos y sus respuestas
+ */
+
+import prisma from '../prisma/client';
+import { conflict, notFound } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { CreateQuestionInput, QuestionQueryInput } from '../schemas/question.schema';
+
+/**
+ * Lista las preguntas respondidas de un producto
+ * @param slug - Slug del producto
+ * @param query - Página y tamaño de página
+ * @returns Promesa que resuelve con las preguntas y los datos de paginación
+ * @throws {Error} Si el producto no existe
+ */
+export const listAnsweredQuestions = async (slug: string, query: QuestionQueryInput) => {
+  const { page, limit } = query;
+
+  const product = await prisma.products.findUnique({ where: { slug }, select: { id: true } });
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  const where = { productId: product.id, answer: { not: null } };
+
+  const [total, questions] = await prisma.$transaction([
+    prisma.questions.count({ where }),
+    prisma.questions.findMany({
+      where,
+      select: {
+        id: true,
+        question: true,
+        answer: true,
+        created_at: true,
+        answered_at: true,
+        user: { select: { name: true } }
+      },
+      orderBy: [{ answered_at: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    questions,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Lista las preguntas pendientes de respuesta, de la más antigua a la más reciente
+ * @param query - Página y tamaño de página
+ * @returns Promesa que resuelve con las preguntas, su producto y autor, y los datos de paginación
+ */
+export const listUnansweredQuestions = async (query: QuestionQueryInput) => {
+  const { page, limit } = query;
+  const where = { answer: null };
+
+  const [total, questions] = await prisma.$transaction([
+    prisma.questions.count({ where }),
+    prisma.questions.findMany({
+      where,
+      select: {
+        id: true,
+        question: true,
+        created_at: true,
+        product: { select: { id: true, name: true, slug: true } },
+        user: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    })
+  ]);
+
+  return {
+    questions,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * Registra una pregunta sobre un producto
+ * @param userId - ID del usuario que pregunta
+ * @param data - Datos validados de la pregunta
+ * @returns Promesa que resuelve con la pregunta creada
+ * @throws {Error} Si el producto no existe
+ */
+export const createQuestion = async (userId: number, data: CreateQuestionInput) => {
+  const product = await prisma.products.findUnique({ where: { id: data.productId }, select: { id: true } });
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  const question = await prisma.questions.create({
+    data: { userId, productId: data.productId, question: data.question }
+  });
+
+  logger.info(`Pregunta ${question.id} registrada por el usuario ${userId} para el producto ${data.productId}`);
+  return question;
+};
+
+/**
+ * Responde una pregunta (solo administradores)
+ * @param id - ID de la pregunta
+ * @param answer - Texto de la respuesta
+ * @returns Promesa que resuelve con la pregunta respondida y los datos de su producto
+ * @throws {Error} Si la pregunta no existe o ya fue respondida
+ */
+export const answerQuestion = async (id: number, answer: string) => {
+  const { count } = await prisma.questions.updateMany({
+    where: { id, answer: null },
+    data: { answer, answered_at: new Date() }
+  });
+
+  if (count === 0) {
+    const exists = await prisma.questions.findUnique({ where: { id }, select: { id: true } });
+    throw exists ? conflict('La pregunta ya fue respondida') : notFound('Pregunta');
+  }
+
+  logger.info(`Pregunta ${id} respondida`);
+
+  return prisma.questions.findUniqueOrThrow({
+    where: { id },
+    include: { product: { select: { id: true, name: true, slug: true } } }
+  });
+};
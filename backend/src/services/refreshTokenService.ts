@@ -0,0 +1,139 @@
+/**
+ * Servicio de refresh tokens
+ * Emite y rota los refresh tokens guardados en el servidor. Los tokens de una misma sesión
+ * forman una familia; cada rotación invalida el token usado y emite otro de la misma
+ * familia. Si un token ya rotado se vuelve a presentar, se asume que fue robado y se
+ * revoca toda la sesión, salvo en los primeros segundos tras la rotación (peticiones
+ * simultáneas de varias pestañas o una respuesta perdida), en los que se devuelve su sucesor
+ */
+
+import prisma from '../prisma/client';
+import { unauthorized } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { decryptSecret, encryptSecret, generateSecureToken, hashToken } from '../utils/tokens';
+import { AUTH_ERRORS, REFRESH_TOKEN_CONFIG } from '../constants/auth.constants';
+import { revokeSession, touchSession } from './sessionService';
+
+/**
+ * Calcula la fecha de expiración de un refresh token nuevo
+ */
+const refreshTokenExpiry = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_CONFIG.TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Emite un refresh token para una sesión
+ * @param userId - ID del usuario
+ * @param sessionId - Sesión (familia) a la que pertenece el token
+ * @returns Promesa que resuelve con el token en claro (solo se guarda su hash)
+ */
+export const issueRefreshToken = async (userId: number, sessionId: string): Promise<string> => {
+  const token = generateSecureToken();
+
+  await prisma.refresh_tokens.create({
+    data: {
+      userId,
+      token_hash: hashToken(token),
+      family_id: sessionId,
+      expires_at: refreshTokenExpiry()
+    }
+  });
+
+  return token;
+};
+
+/**
+ * Busca el sucesor de un token rotado hace menos de REUSE_GRACE_MS
+ * @param tokenId - ID del token rotado
+ * @returns Promesa que resuelve con el sucesor en claro si sigue vigente, o null
+ */
+const findGraceSuccessor = async (tokenId: number): Promise<string | null> => {
+  const current = await prisma.refresh_tokens.findUnique({
+    where: { id: tokenId },
+    select: { replaced_at: true, revoked_at: true, successor_token: true }
+  });
+
+  if (
+    !current?.replaced_at ||
+    current.revoked_at ||
+    !current.successor_token ||
+    Date.now() - current.replaced_at.getTime() > REFRESH_TOKEN_CONFIG.REUSE_GRACE_MS
+  ) {
+    return null;
+  }
+
+  const successor = decryptSecret(current.successor_token);
+  const active = await prisma.refresh_tokens.count({
+    where: { token_hash: hashToken(successor), replaced_at: null, revoked_at: null, expires_at: { gt: new Date() } }
+  });
+
+  return active > 0 ? successor : null;
+};
+
+/**
+ * Rota un refresh token: lo marca como usado y emite uno nuevo de la misma familia
+ * El sucesor se guarda cifrado en el token usado para devolverlo si este se vuelve a presentar
+ * dentro del margen REUSE_GRACE_MS
+ * @param token - Refresh token en claro presentado por el cliente
+ * @returns Promesa que resuelve con el ID del usuario, el ID de la sesión y el nuevo refresh token
+ * @throws {Error} 401 si el token no existe, expiró, fue revocado o ya se había usado
+ */
+export const rotateRefreshToken = async (token: string) => {
+  const stored = await prisma.refresh_tokens.findUnique({
+    where: { token_hash: hashToken(token) },
+    select: { id: true, userId: true, family_id: true, expires_at: true, revoked_at: true }
+  });
+
+  if (!stored || stored.revoked_at || stored.expires_at <= new Date()) {
+    throw unauthorized(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+  }
+
+  // El sucesor se guarda antes de marcar el token como usado para que una petición simultánea
+  // que pierda la carrera siempre lo encuentre
+  const refreshToken = await issueRefreshToken(stored.userId, stored.family_id);
+
+  // Marcar el token como usado de forma atómica; si ya estaba usado, es una reutilización
+  const { count } = await prisma.refresh_tokens.updateMany({
+    where: { id: stored.id, replaced_at: null, revoked_at: null },
+    data: { replaced_at: new Date(), successor_token: encryptSecret(refreshToken) }
+  });
+
+  if (count === 0) {
+    await prisma.refresh_tokens.deleteMany({ where: { token_hash: hashToken(refreshToken) } });
+
+    const successor = await findGraceSuccessor(stored.id);
+    if (successor) {
+      logger.debug(`Refresh token rotado hace unos segundos en la sesión ${stored.family_id}: se devuelve su sucesor`);
+      return { userId: stored.userId, sessionId: stored.family_id, refreshToken: successor };
+    }
+
+    await revokeSession(stored.family_id);
+    logger.warn(
+      `Reutilización de refresh token detectada para el usuario ${stored.userId}: ` +
+      `sesión ${stored.family_id} revocada`
+    );
+    throw unauthorized(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+  }
+
+  // Solo el último token rotado conserva su sucesor
+  await prisma.refresh_tokens.updateMany({
+    where: { family_id: stored.family_id, id: { not: stored.id }, successor_token: { not: null } },
+    data: { successor_token: null }
+  });
+  await touchSession(stored.family_id);
+
+  return { userId: stored.userId, sessionId: stored.family_id, refreshToken };
+};
+
+/**
+ * Obtiene la sesión a la que pertenece un refresh token
+ * @param token - Refresh token en claro
+ * @returns Promesa que resuelve con el ID de la sesión, o null si el token no existe
+ */
+export const getRefreshTokenSessionId = async (token: string): Promise<string | null> => {
+  const stored = await prisma.refresh_tokens.findUnique({
+    where: { token_hash: hashToken(token) },
+    select: { family_id: true }
+  });
+
+  return stored?.family_id ?? null;
+};
@@ -0,0 +1,140 @@
+/**
+ * Servicio de reportes
+ * Genera los reportes de ventas a partir de las tablas sales y order_items
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { toCsv } from '../utils/csv';
+import { SalesReportQueryInput } from '../schemas/report.schema';
+
+type SalesPeriodRow = { period: Date; revenue: number; order_count: number };
+type ProductSalesRow = { id: number; name: string; slug: string; units: number; revenue: number };
+type CategorySalesRow = ProductSalesRow & { order_count: number };
+
+/**
+ * Calcula el valor promedio por pedido evitando divisiones por cero
+ * @param revenue - Ingresos totales
+ * @param orderCount - Número de pedidos
+ * @returns Valor promedio redondeado a dos decimales
+ */
+const averageOrderValue = (revenue: number, orderCount: number): number =>
+  orderCount ? Math.round((revenue / orderCount) * 100) / 100 : 0;
+
+/**
+ * Obtiene los productos más vendidos en el rango de fechas
+ * @param from - Fecha inicial
+ * @param to - Fecha final
+ * @param top - Número máximo de productos
+ * @param orderBy - Criterio de orden (unidades o ingresos)
+ * @returns Promesa que resuelve con los productos y sus unidades e ingresos
+ */
+const getTopProducts = (from: Date, to: Date, top: number, orderBy: 'units' | 'revenue') =>
+  prisma.$queryRaw<ProductSalesRow[]>`
+    SELECT p.id, p.name, p.slug,
+           SUM(oi.quantity)::int AS units,
+           SUM(oi.quantity * oi.price)::float AS revenue
+    FROM "order_items" oi
+    JOIN "sales" s ON s."orderId" = oi."orderId"
+    JOIN "products" p ON p.id = oi."productId"
+    WHERE s.sale_date BETWEEN ${from} AND ${to}
+    GROUP BY p.id, p.name, p.slug
+    ORDER BY ${Prisma.raw(orderBy === 'units' ? 'units DESC, revenue DESC' : 'revenue DESC, units DESC')}
+    LIMIT ${top}
+  `;
+
+/**
+ * Genera el reporte de ventas de un rango de fechas
+ * - Ingresos, número de pedidos y valor promedio agrupados por día, semana o mes
+ * - Productos más vendidos por unidades y por ingresos
+ * - Desglose por categoría
+ * @param query - Rango de fechas, agrupación y número de productos destacados
+ * @returns Promesa que resuelve con el reporte
+ */
+export const getSalesReport = async (query: SalesReportQueryInput) => {
+  const { from, to, groupBy, top } = query;
+
+  const [periods, topByUnits, topByRevenue, categories] = await Promise.all([
+    prisma.$queryRaw<SalesPeriodRow[]>`
+      SELECT date_trunc(${groupBy}, s.sale_date) AS period,
+             SUM(s.total_amount)::float AS revenue,
+             COUNT(*)::int AS order_count
+      FROM "sales" s
+      WHERE s.sale_date BETWEEN ${from} AND ${to}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    getTopProducts(from, to, top, 'units'),
+    getTopProducts(from, to, top, 'revenue'),
+    prisma.$queryRaw<CategorySalesRow[]>`
+      SELECT c.id, c.name, c.slug,
+             SUM(oi.quantity)::int AS units,
+             SUM(oi.quantity * oi.price)::float AS revenue,
+             COUNT(DISTINCT oi."orderId")::int AS order_count
+      FROM "order_items" oi
+      JOIN "sales" s ON s."orderId" = oi."orderId"
+      JOIN "products" p ON p.id = oi."productId"
+      JOIN "categories" c ON c.id = p."categoryId"
+      WHERE s.sale_date BETWEEN ${from} AND ${to}
+      GROUP BY c.id, c.name, c.slug
+      ORDER BY revenue DESC
+    `
+  ]);
+
+  const series = periods.map((row) => ({
+    period: row.period,
+    revenue: row.revenue,
+    orderCount: row.order_count,
+    averageOrderValue: averageOrderValue(row.revenue, row.order_count)
+  }));
+
+  const revenue = series.reduce((sum, row) => sum + row.revenue, 0);
+  const orderCount = series.reduce((sum, row) => sum + row.orderCount, 0);
+
+  return {
+    range: { from, to, groupBy },
+    summary: {
+      revenue,
+      orderCount,
+      averageOrderValue: averageOrderValue(revenue, orderCount)
+    },
+    series,
+    topProducts: {
+      byUnits: topByUnits,
+      byRevenue: topByRevenue
+    },
+    categories: categories.map(({ order_count, ...category }) => ({
+      ...category,
+      orderCount: order_count
+    }))
+  };
+};
+
+/**
+ * Convierte el reporte de ventas en un archivo CSV con una sección por cada bloque de datos
+ * @param report - Reporte generado por getSalesReport
+ * @returns Texto CSV
+ */
+export const salesReportToCsv = (report: Awaited<ReturnType<typeof getSalesReport>>): string => {
+  const sections = [
+    toCsv([
+      ['Periodo', 'Ingresos', 'Pedidos', 'Valor promedio'],
+      ...report.series.map((row) => [row.period, row.revenue, row.orderCount, row.averageOrderValue]),
+      ['Total', report.summary.revenue, report.summary.orderCount, report.summary.averageOrderValue]
+    ]),
+    toCsv([
+      ['Productos por unidades', 'Slug', 'Unidades', 'Ingresos'],
+      ...report.topProducts.byUnits.map((row) => [row.name, row.slug, row.units, row.revenue])
+    ]),
+    toCsv([
+      ['Productos por ingresos', 'Slug', 'Unidades', 'Ingresos'],
+      ...report.topProducts.byRevenue.map((row) => [row.name, row.slug, row.units, row.revenue])
+    ]),
+    toCsv([
+      ['Categoría', 'Slug', 'Unidades', 'Ingresos', 'Pedidos'],
+      ...report.categories.map((row) => [row.name, row.slug, row.units, row.revenue, row.orderCount])
+    ])
+  ];
+
+  return sections.join('\r\n\r\n');
+};
@@ -0,0 +1,209 @@
+/**
+ * Servicio de reseñas
+ * Maneja las reseñas de productos de compradores verificados y sus calificaciones agregadas
+ */
+
+import prisma from '../prisma/client';
+import { conflict, forbidden, notFound } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { RatingSummary } from '../types/review.types';
+import { CreateReviewInput, UpdateReviewInput, ReviewQueryInput } from '../schemas/review.schema';
+
+/**
+ * Crea un resumen de calificaciones vacío
+ * @returns Resumen sin reseñas
+ */
+const emptyRatingSummary = (): RatingSummary => ({
+  average: 0,
+  count: 0,
+  distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+});
+
+/**
+ * Calcula el promedio y la distribución por estrellas de varios productos
+ * @param productIds - IDs de los productos
+ * @returns Promesa que resuelve con un mapa productId -> resumen de calificaciones
+ */
+export const getRatingSummaries = async (productIds: number[]): Promise<Map<number, RatingSummary>> => {
+  const summaries = new Map<number, RatingSummary>(
+    productIds.map((id) => [id, emptyRatingSummary()])
+  );
+
+  if (productIds.length === 0) {
+    return summaries;
+  }
+
+  const groups = await prisma.reviews.groupBy({
+    by: ['productId', 'rating'],
+    where: { productId: { in: productIds } },
+    _count: { _all: true }
+  });
+
+  for (const group of groups) {
+    const summary = summaries.get(group.productId);
+    if (!summary) continue;
+
+    summary.distribution[group.rating as keyof RatingSummary['distribution']] = group._count._all;
+    summary.count += group._count._all;
+    summary.average += group.rating * group._count._all;
+  }
+
+  for (const summary of summaries.values()) {
+    summary.average = summary.count ? Math.round((summary.average / summary.count) * 10) / 10 : 0;
+  }
+
+  return summaries;
+};
+
+/**
+ * Indica si el usuario recibió al menos un pedido entregado que contiene el producto
+ * @param userId - ID del usuario
+ * @param productId - ID del producto
+ * @returns Promesa que resuelve con true si es una compra verificada
+ */
+const hasDeliveredPurchase = async (userId: number, productId: number): Promise<boolean> => {
+  const item = await prisma.order_items.findFirst({
+    where: { productId, order: { userId, status: 'DELIVERED' } },
+    select: { id: true }
+  });
+
+  return Boolean(item);
+};
+
+/**
+ * Obtiene el ID del usuario autor de una reseña
+ * Se usa con el middleware isOwnerOrAdmin para proteger la edición y eliminación
+ * @param reviewId - ID de la reseña (valor del parámetro de ruta)
+ * @returns Promesa que resuelve con el ID del autor, o null si la reseña no existe
+ */
+export const getReviewOwnerId = async (reviewId: string): Promise<number | null> => {
+  const id = Number(reviewId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return null;
+  }
+
+  const review = await prisma.reviews.findUnique({ where: { id }, select: { userId: true } });
+  return review?.userId ?? null;
+};
+
+/**
+ * Lista las reseñas de un producto con su resumen de calificaciones
+ * @param slug - Slug del producto
+ * @param query - Página y tamaño de página
+ * @returns Promesa que resuelve con las reseñas, el resumen y los datos de paginación
+ * @throws {Error} Si el producto no existe
+ */
+export const listProductReviews = async (slug: string, query: ReviewQueryInput) => {
+  const { page, limit } = query;
+
+  const product = await prisma.products.findUnique({ where: { slug }, select: { id: true } });
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  const [reviews, summaries] = await Promise.all([
+    prisma.reviews.findMany({
+      where: { productId: product.id },
+      select: {
+        id: true,
+        rating: true,
+        comment: true,
+        created_at: true,
+        updated_at: true,
+        user: { select: { id: true, name: true, avatar_url: true } }
+      },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    getRatingSummaries([product.id])
+  ]);
+
+  const rating = summaries.get(product.id) as RatingSummary;
+
+  return {
+    reviews,
+    rating,
+    pagination: {
+      page,
+      limit,
+      total: rating.count,
+      totalPages: Math.ceil(rating.count / limit)
+    }
+  };
+};
+
+/**
+ * Publica una reseña de un producto
+ * Solo pueden reseñar los usuarios con un pedido entregado que incluya el producto,
+ * y cada usuario puede publicar una sola reseña por producto
+ * @param userId - ID del usuario autenticado
+ * @param data - Datos validados de la reseña
+ * @returns Promesa que resuelve con la reseña creada
+ * @throws {Error} Si el producto no existe, no es una compra verificada o ya existe una reseña
+ */
+export const createReview = async (userId: number, data: CreateReviewInput) => {
+  const { productId, rating, comment } = data;
+
+  const product = await prisma.products.findUnique({ where: { id: productId }, select: { id: true } });
+  if (!product) {
+    throw notFound('Producto');
+  }
+
+  if (!(await hasDeliveredPurchase(userId, productId))) {
+    throw forbidden('Solo puedes reseñar productos de pedidos que ya te fueron entregados');
+  }
+
+  const existing = await prisma.reviews.findUnique({
+    where: { userId_productId: { userId, productId } },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw conflict('Ya publicaste una reseña para este producto; puedes editarla');
+  }
+
+  const review = await prisma.reviews.create({
+    data: { userId, productId, rating, comment }
+  });
+
+  logger.info(`Reseña ${review.id} publicada por el usuario ${userId} para el producto ${productId}`);
+  return review;
+};
+
+/**
+ * Edita una reseña
+ * @param id - ID de la reseña
+ * @param data - Campos validados a actualizar
+ * @returns Promesa que resuelve con la reseña actualizada
+ * @throws {Error} Si la reseña no existe
+ */
+export const updateReview = async (id: number, data: UpdateReviewInput) => {
+  const existing = await prisma.reviews.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw notFound('Reseña');
+  }
+
+  return prisma.reviews.update({
+    where: { id },
+    data: {
+      ...(data.rating !== undefined && { rating: data.rating }),
+      ...(data.comment !== undefined && { comment: data.comment })
+    }
+  });
+};
+
+/**
+ * Elimina una reseña
+ * @param id - ID de la reseña
+ * @throws {Error} Si la reseña no existe
+ */
+export const deleteReview = async (id: number): Promise<void> => {
+  const { count } = await prisma.reviews.deleteMany({ where: { id } });
+
+  if (count === 0) {
+    throw notFound('Reseña');
+  }
+
+  logger.info(`Reseña ${id} eliminada`);
+};
@@ -0,0 +1,48 @@
+/**
+ * Servicio de ventas
+ * Maneja el registro de ventas (tabla sales) a partir de los pedidos
+ */
+
+import { Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+
+/**
+ * Registra la venta de un pedido dentro de una transacción existente
+ * Es idempotente: si el pedido ya tiene su venta registrada no se crea otra
+ * @param tx - Cliente de Prisma de la transacción en curso
+ * @param order - Pedido pagado o entregado
+ * @returns Promesa que resuelve con el registro de venta
+ */
+export const recordSale = async (
+  tx: Prisma.TransactionClient,
+  order: { id: number; userId: number; total: number }
+) => {
+  const { count } = await tx.sales.createMany({
+    data: [{
+      orderId: order.id,
+      userId: order.userId,
+      total_amount: order.total,
+      sale_date: new Date()
+    }],
+    skipDuplicates: true
+  });
+  const sale = await tx.sales.findUniqueOrThrow({ where: { orderId: order.id } });
+
+  if (count > 0) {
+    logger.info(`Venta registrada para el pedido ${order.id}: ${sale.id}`);
+  }
+  return sale;
+};
+
+/**
+ * Elimina la venta de un pedido cancelado dentro de una transacción existente
+ * @param tx - Cliente de Prisma de la transacción en curso
+ * @param orderId - ID del pedido cancelado
+ */
+export const removeSale = async (tx: Prisma.TransactionClient, orderId: number): Promise<void> => {
+  const { count } = await tx.sales.deleteMany({ where: { orderId } });
+
+  if (count > 0) {
+    logger.info(`Venta del pedido ${orderId} eliminada por cancelación`);
+  }
+};
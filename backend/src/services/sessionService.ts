@@ -0,0 +1,113 @@
+/**
+ * Servicio de sesiones
+ * Cada inicio de sesión crea una sesión en el servidor. Los tokens de acceso llevan su ID
+ * (claim sid) y el middleware authenticate la consulta en cada petición, de modo que revocar
+ * la sesión invalida de inmediato sus tokens de acceso y sus refresh tokens, y cierra sus
+ * conexiones de Socket.IO
+ */
+
+import prisma from '../prisma/client';
+import logger from '../utils/logger';
+import { disconnectSessionSockets, disconnectUserSockets } from '../socket/sessions';
+
+/**
+ * Crea una sesión para un usuario
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con el ID de la sesión
+ */
+export const createSession = async (userId: number): Promise<string> => {
+  const session = await prisma.sessions.create({ data: { userId }, select: { id: true } });
+  return session.id;
+};
+
+/**
+ * Crea una sesión de suplantación: un administrador actúa como el usuario
+ * @param userId - ID del usuario suplantado
+ * @param impersonatorId - ID del administrador
+ * @returns Promesa que resuelve con el ID de la sesión
+ */
+export const createImpersonationSession = async (userId: number, impersonatorId: number): Promise<string> => {
+  const session = await prisma.sessions.create({ data: { userId, impersonatorId }, select: { id: true } });
+  return session.id;
+};
+
+/**
+ * Obtiene una sesión activa junto con el estado de la cuenta del usuario
+ * @param sessionId - ID de la sesión (claim sid del token)
+ * @param userId - ID del usuario del token
+ * @returns Promesa que resuelve con la sesión, o null si no existe, pertenece a otro usuario o fue revocada
+ */
+export const findActiveSession = async (sessionId: string, userId: number) => {
+  const session = await prisma.sessions.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      revoked_at: true,
+      impersonatorId: true,
+      user: { select: { suspended_at: true, deleted_at: true } }
+    }
+  });
+
+  return session && session.userId === userId && !session.revoked_at ? session : null;
+};
+
+/**
+ * Registra el último uso de una sesión (al renovar sus tokens)
+ * @param sessionId - ID de la sesión
+ */
+export const touchSession = async (sessionId: string): Promise<void> => {
+  await prisma.sessions.update({ where: { id: sessionId }, data: { last_used_at: new Date() } });
+};
+
+/**
+ * Revoca una sesión y todos sus refresh tokens activos, y cierra sus conexiones en tiempo real
+ * @param sessionId - ID de la sesión
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.sessions.updateMany({
+      where: { id: sessionId, revoked_at: null },
+      data: { revoked_at: now }
+    }),
+    prisma.refresh_tokens.updateMany({
+      where: { family_id: sessionId, revoked_at: null },
+      data: { revoked_at: now }
+    })
+  ]);
+
+  disconnectSessionSockets(sessionId);
+};
+
+/**
+ * Revoca todas las sesiones activas de un usuario y cierra sus conexiones en tiempo real
+ * @param userId - ID del usuario
+ * @param exceptSessionId - Sesión que se conserva (ej: la del cambio de contraseña)
+ * @returns Promesa que resuelve con el número de sesiones revocadas
+ */
+export const revokeUserSessions = async (userId: number, exceptSessionId?: string): Promise<number> => {
+  const now = new Date();
+  const where = {
+    userId,
+    revoked_at: null,
+    ...(exceptSessionId && { NOT: { id: exceptSessionId } })
+  };
+
+  const [{ count }] = await prisma.$transaction([
+    prisma.sessions.updateMany({ where, data: { revoked_at: now } }),
+    prisma.refresh_tokens.updateMany({
+      where: {
+        userId,
+        revoked_at: null,
+        ...(exceptSessionId && { NOT: { family_id: exceptSessionId } })
+      },
+      data: { revoked_at: now }
+    })
+  ]);
+
+  disconnectUserSockets(userId, exceptSessionId);
+
+  logger.info(`Sesiones revocadas para el usuario ${userId}: ${count}`);
+  return count;
+};
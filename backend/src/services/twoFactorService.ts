@@ -0,0 +1,314 @@
+/**
+ * Servicio de verificación en dos pasos (TOTP)
+ * - Configuración: se genera un secreto (cifrado en la base de datos) y el URI otpauth para el QR;
+ *   la verificación queda activa cuando el usuario confirma el primer código de su app
+ * - Códigos de recuperación de un solo uso (solo se guarda su hash)
+ * - Verificación del segundo factor con bloqueo temporal tras varios códigos incorrectos
+ * La configuración TWO_FACTOR_REQUIRED_FOR_ADMINS la exige a todos los administradores; en ese caso
+ * la activación se confirma además con un código enviado por correo, para que quien solo conozca
+ * la contraseña no pueda registrar su propia app como segundo factor
+ */
+
+import prisma from '../prisma/client';
+import { conflict, createError, forbidden, notFound, unauthorized, ERROR_TYPES } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { buildOtpauthUri, generateTotpSecret, randomBase32, verifyTotp } from '../utils/totp';
+import { decryptSecret, encryptSecret, hashToken } from '../utils/tokens';
+import { verifyReauthentication } from './identityService';
+import { revokeUserSessions } from './sessionService';
+import { sendTemplatedMail } from './mailService';
+import { AUTH_ERRORS, TWO_FACTOR_CONFIG } from '../constants/auth.constants';
+import { ReauthInput } from '../schemas/identity.schema';
+import { TwoFactorCodeInput, TwoFactorEnableInput } from '../schemas/twoFactor.schema';
+
+/**
+ * Normaliza un código de recuperación (sin guiones ni espacios, en mayúsculas)
+ */
+const normalizeRecoveryCode = (code: string): string => code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+/**
+ * Genera un nuevo juego de códigos de recuperación y reemplaza los anteriores
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con los códigos en claro (solo se muestran una vez)
+ */
+const replaceRecoveryCodes = async (userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: TWO_FACTOR_CONFIG.RECOVERY_CODES }, () =>
+    // 80 bits en base32 → 4 grupos de 4 caracteres (ej: AB2C-DE3F-GH4I-JK5L)
+    randomBase32(10).match(/.{4}/g)!.join('-')
+  );
+
+  await prisma.$transaction([
+    prisma.two_factor_recovery_codes.deleteMany({ where: { userId } }),
+    prisma.two_factor_recovery_codes.createMany({
+      data: codes.map((code) => ({ userId, code_hash: hashToken(normalizeRecoveryCode(code)) }))
+    })
+  ]);
+
+  return codes;
+};
+
+/**
+ * Indica si el usuario tiene activa la verificación en dos pasos
+ * @param userId - ID del usuario
+ * @returns Promesa que resuelve con true si la verificación está activa
+ */
+export const isTwoFactorEnabled = async (userId: number): Promise<boolean> => {
+  const record = await prisma.two_factor_auth.findUnique({ where: { userId }, select: { enabled_at: true } });
+  return Boolean(record?.enabled_at);
+};
+
+/**
+ * Indica si el usuario cumple la política de verificación en dos pasos para su rol
+ * (con TWO_FACTOR_REQUIRED_FOR_ADMINS, los administradores deben tenerla activa)
+ * @param userId - ID del usuario
+ * @param role - Rol del usuario
+ * @returns Promesa que resuelve con true si el usuario puede usar los permisos de su rol
+ */
+export const meetsTwoFactorPolicy = async (userId: number, role: string): Promise<boolean> => {
+  if (role !== 'ADMIN' || !TWO_FACTOR_CONFIG.REQUIRED_FOR_ADMINS) {
+    return true;
+  }
+  return isTwoFactorEnabled(userId);
+};
+
+/**
+ * Obtiene el estado de la verificación en dos pasos del usuario
+ * @param userId - ID del usuario
+ * @param role - Rol del usuario
+ * @returns Promesa que resuelve con el estado, si es obligatoria y los códigos de recuperación restantes
+ */
+export const getTwoFactorStatus = async (userId: number, role: string) => {
+  const [record, recoveryCodesRemaining] = await Promise.all([
+    prisma.two_factor_auth.findUnique({ where: { userId }, select: { enabled_at: true } }),
+    prisma.two_factor_recovery_codes.count({ where: { userId, used_at: null } })
+  ]);
+
+  return {
+    enabled: Boolean(record?.enabled_at),
+    enabledAt: record?.enabled_at ?? null,
+    required: role === 'ADMIN' && TWO_FACTOR_CONFIG.REQUIRED_FOR_ADMINS,
+    recoveryCodesRemaining
+  };
+};
+
+/**
+ * Inicia la configuración de la verificación en dos pasos
+ * Genera un secreto nuevo (pendiente de confirmar) que reemplaza cualquier configuración sin terminar
+ * Si la verificación es obligatoria para el rol del usuario, envía a su correo el código que
+ * confirma la activación
+ * @param userId - ID del usuario autenticado
+ * @param reauth - Credenciales para confirmar la identidad del usuario
+ * @returns Promesa que resuelve con el secreto (para ingresarlo a mano), el URI otpauth (para el QR)
+ *          y si la activación exige el código enviado por correo
+ * @throws {Error} 409 si la verificación ya está activa
+ */
+export const startTwoFactorSetup = async (userId: number, reauth: ReauthInput) => {
+  await verifyReauthentication(userId, reauth);
+
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true, role: true, two_factor_auth: { select: { enabled_at: true } } }
+  });
+
+  if (!user) {
+    throw notFound('Usuario');
+  }
+
+  if (user.two_factor_auth?.enabled_at) {
+    throw conflict('La verificación en dos pasos ya está activa');
+  }
+
+  const secret = generateTotpSecret();
+  const enrollmentCodeRequired = user.role === 'ADMIN' && TWO_FACTOR_CONFIG.REQUIRED_FOR_ADMINS;
+  // 40 bits en base32 → 8 caracteres (ej: AB2CDE3F)
+  const enrollmentCode = enrollmentCodeRequired ? randomBase32(5) : null;
+  const enrollment = {
+    enrollment_code_hash: enrollmentCode ? hashToken(enrollmentCode) : null,
+    enrollment_code_expires_at: enrollmentCode
+      ? new Date(Date.now() + TWO_FACTOR_CONFIG.ENROLLMENT_CODE_TTL_MINUTES * 60 * 1000)
+      : null
+  };
+
+  await prisma.two_factor_auth.upsert({
+    where: { userId },
+    create: { userId, secret: encryptSecret(secret), ...enrollment },
+    update: { secret: encryptSecret(secret), last_used_step: null, failed_attempts: 0, locked_until: null, ...enrollment }
+  });
+
+  if (enrollmentCode) {
+    await sendTemplatedMail(user.email, 'two-factor-enrollment', {
+      name: user.name,
+      code: enrollmentCode,
+      expiresInMinutes: TWO_FACTOR_CONFIG.ENROLLMENT_CODE_TTL_MINUTES
+    });
+  }
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email), enrollmentCodeRequired };
+};
+
+/**
+ * Activa la verificación en dos pasos con el primer código de la app de autenticación
+ * Cierra las demás sesiones del usuario, que no pasaron por el segundo factor
+ * @param userId - ID del usuario autenticado
+ * @param sessionId - Sesión desde la que se activa (se conserva)
+ * @param input - Código actual de la app y, si la activación lo exige, el código enviado por correo
+ * @returns Promesa que resuelve con los códigos de recuperación (solo se muestran una vez)
+ * @throws {Error} 400 si no hay una configuración pendiente o alguno de los códigos no es válido
+ */
+export const enableTwoFactor = async (
+  userId: number,
+  sessionId: string,
+  input: TwoFactorEnableInput
+): Promise<string[]> => {
+  const record = await prisma.two_factor_auth.findUnique({ where: { userId } });
+
+  if (!record || record.enabled_at) {
+    throw createError('No hay una configuración de verificación en dos pasos pendiente', 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  if (
+    record.enrollment_code_hash &&
+    (!input.enrollmentCode ||
+      !record.enrollment_code_expires_at ||
+      record.enrollment_code_expires_at <= new Date() ||
+      hashToken(normalizeRecoveryCode(input.enrollmentCode)) !== record.enrollment_code_hash)
+  ) {
+    throw createError(AUTH_ERRORS.INVALID_TWO_FACTOR_ENROLLMENT_CODE, 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  const step = verifyTotp(decryptSecret(record.secret), input.code);
+  if (step === null) {
+    throw createError(AUTH_ERRORS.INVALID_TWO_FACTOR_CODE, 400, ERROR_TYPES.VALIDATION_ERROR);
+  }
+
+  await prisma.two_factor_auth.update({
+    where: { userId },
+    data: { enabled_at: new Date(), last_used_step: step, enrollment_code_hash: null, enrollment_code_expires_at: null }
+  });
+
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+  await revokeUserSessions(userId, sessionId);
+
+  logger.info(`Verificación en dos pasos activada para el usuario ${userId}`);
+  return recoveryCodes;
+};
+
+/**
+ * Verifica el segundo factor de un usuario (código TOTP o código de recuperación)
+ * Cada código TOTP solo puede usarse una vez y cada código de recuperación se consume al usarlo
+ * Tras MAX_FAILED_ATTEMPTS códigos incorrectos la verificación se bloquea LOCK_MINUTES minutos
+ * @param userId - ID del usuario
+ * @param input - Código de la app o código de recuperación
+ * @throws {Error} 401 si el código no es válido o la verificación no está activa; 429 si está bloqueada
+ */
+export const verifyTwoFactorCode = async (userId: number, input: TwoFactorCodeInput): Promise<void> => {
+  const record = await prisma.two_factor_auth.findUnique({ where: { userId } });
+
+  if (!record?.enabled_at) {
+    throw unauthorized(AUTH_ERRORS.INVALID_TWO_FACTOR_CHALLENGE);
+  }
+
+  if (record.locked_until && record.locked_until > new Date()) {
+    throw createError(AUTH_ERRORS.TWO_FACTOR_LOCKED, 429, ERROR_TYPES.RATE_LIMIT);
+  }
+
+  let valid = false;
+
+  if (input.code) {
+    const step = verifyTotp(decryptSecret(record.secret), input.code, record.last_used_step);
+    if (step !== null) {
+      // Registrar el intervalo usado de forma atómica para que el mismo código no sirva dos veces
+      const { count } = await prisma.two_factor_auth.updateMany({
+        where: { userId, OR: [{ last_used_step: null }, { last_used_step: { lt: step } }] },
+        data: { last_used_step: step }
+      });
+      valid = count === 1;
+    }
+  } else if (input.recoveryCode) {
+    const { count } = await prisma.two_factor_recovery_codes.updateMany({
+      where: { userId, code_hash: hashToken(normalizeRecoveryCode(input.recoveryCode)), used_at: null },
+      data: { used_at: new Date() }
+    });
+    valid = count === 1;
+
+    if (valid) {
+      logger.info(`Código de recuperación de la verificación en dos pasos usado por el usuario ${userId}`);
+    }
+  }
+
+  if (valid) {
+    await prisma.two_factor_auth.update({
+      where: { userId },
+      data: { failed_attempts: 0, locked_until: null }
+    });
+    return;
+  }
+
+  const { failed_attempts } = await prisma.two_factor_auth.update({
+    where: { userId },
+    data: { failed_attempts: { increment: 1 } },
+    select: { failed_attempts: true }
+  });
+
+  if (failed_attempts >= TWO_FACTOR_CONFIG.MAX_FAILED_ATTEMPTS) {
+    await prisma.two_factor_auth.update({
+      where: { userId },
+      data: {
+        failed_attempts: 0,
+        locked_until: new Date(Date.now() + TWO_FACTOR_CONFIG.LOCK_MINUTES * 60 * 1000)
+      }
+    });
+    logger.warn(`Verificación en dos pasos bloqueada para el usuario ${userId} por códigos incorrectos`);
+  }
+
+  throw unauthorized(AUTH_ERRORS.INVALID_TWO_FACTOR_CODE);
+};
+
+/**
+ * Genera un nuevo juego de códigos de recuperación (los anteriores dejan de servir)
+ * @param userId - ID del usuario autenticado
+ * @param reauth - Credenciales para confirmar la identidad del usuario
+ * @param verification - Código de la app o código de recuperación
+ * @returns Promesa que resuelve con los nuevos códigos de recuperación
+ */
+export const regenerateRecoveryCodes = async (
+  userId: number,
+  reauth: ReauthInput,
+  verification: TwoFactorCodeInput
+): Promise<string[]> => {
+  await verifyReauthentication(userId, reauth);
+  await verifyTwoFactorCode(userId, verification);
+
+  const codes = await replaceRecoveryCodes(userId);
+  logger.info(`Códigos de recuperación regenerados para el usuario ${userId}`);
+  return codes;
+};
+
+/**
+ * Desactiva la verificación en dos pasos y elimina los códigos de recuperación
+ * @param userId - ID del usuario autenticado
+ * @param role - Rol del usuario
+ * @param reauth - Credenciales para confirmar la identidad del usuario
+ * @param verification - Código de la app o código de recuperación
+ * @throws {Error} 403 si la verificación es obligatoria para el rol del usuario
+ */
+export const disableTwoFactor = async (
+  userId: number,
+  role: string,
+  reauth: ReauthInput,
+  verification: TwoFactorCodeInput
+): Promise<void> => {
+  if (role === 'ADMIN' && TWO_FACTOR_CONFIG.REQUIRED_FOR_ADMINS) {
+    throw forbidden('La verificación en dos pasos es obligatoria para los administradores');
+  }
+
+  await verifyReauthentication(userId, reauth);
+  await verifyTwoFactorCode(userId, verification);
+
+  await prisma.$transaction([
+    prisma.two_factor_recovery_codes.deleteMany({ where: { userId } }),
+    prisma.two_factor_auth.delete({ where: { userId } })
+  ]);
+
+  logger.info(`Verificación en dos pasos desactivada para el usuario ${userId}`);
+};
@@ -0,0 +1,267 @@
+/**
+ * Servicio de administración de usuarios
+ * Cambio de rol, suspensión y reactivación, eliminación con anonimización de los datos
+ * personales y suplantación temporal para soporte. Todas las acciones cierran las sesiones
+ * que corresponda y quedan en el registro de auditoría
+ */
+
+import { Prisma, Role } from '@prisma/client';
+import prisma from '../prisma/client';
+import { conflict, forbidden, notFound } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { RequestContext } from '../utils/requestContext';
+import { recordAuditEvent } from './auditService';
+import { revokeUserSessions } from './sessionService';
+import { issueImpersonationToken } from './authService';
+import { accountKey } from './loginThrottleService';
+import { OPEN_ORDER_STATUSES } from '../constants/order.constants';
+import { ImpersonateUserInput, SuspendUserInput } from '../schemas/user.schema';
+
+/**
+ * Campos del usuario que se envían al cliente
+ */
+export const adminUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  auth_provider: true,
+  suspended_at: true,
+  suspension_reason: true,
+  created_at: true,
+  updated_at: true
+} satisfies Prisma.usersSelect;
+
+/**
+ * Busca un usuario no eliminado sobre el que el administrador puede actuar
+ * @param userId - ID del usuario
+ * @param context - Origen de la petición (administrador que actúa)
+ * @throws {Error} 404 si el usuario no existe o fue eliminado; 403 si es la propia cuenta del administrador
+ */
+const findManageableUser = async (userId: number, context: RequestContext) => {
+  const user = await prisma.users.findFirst({
+    where: { id: userId, deleted_at: null },
+    select: adminUserSelect
+  });
+
+  if (!user) {
+    throw notFound('Usuario');
+  }
+
+  if (user.id === context.actorId) {
+    throw forbidden('No puedes realizar esta acción sobre tu propia cuenta');
+  }
+
+  return user;
+};
+
+/**
+ * Cambia el rol de un usuario
+ * Se cierran sus sesiones para que los tokens emitidos con el rol anterior dejen de valer
+ * @param userId - ID del usuario
+ * @param role - Nuevo rol
+ * @param context - Origen de la petición (auditoría)
+ * @returns Promesa que resuelve con el usuario actualizado
+ * @throws {Error} 404 si el usuario no existe; 403 si es la propia cuenta del administrador
+ */
+export const changeUserRole = async (userId: number, role: Role, context: RequestContext) => {
+  const user = await findManageableUser(userId, context);
+
+  if (user.role === role) {
+    return user;
+  }
+
+  const updated = await prisma.users.update({
+    where: { id: user.id },
+    data: { role },
+    select: adminUserSelect
+  });
+
+  await revokeUserSessions(user.id);
+  await recordAuditEvent({
+    ...context,
+    action: 'ROLE_CHANGE',
+    result: 'SUCCESS',
+    targetUserId: user.id,
+    metadata: { from: user.role, to: role }
+  });
+
+  logger.info(`Rol del usuario ${user.id} cambiado de ${user.role} a ${role} por el usuario ${context.actorId}`);
+  return updated;
+};
+
+/**
+ * Suspende una cuenta: se cierran sus sesiones y no puede volver a iniciar sesión
+ * @param userId - ID del usuario
+ * @param input - Motivo de la suspensión (opcional)
+ * @param context - Origen de la petición (auditoría)
+ * @returns Promesa que resuelve con el usuario actualizado
+ * @throws {Error} 404 si el usuario no existe; 403 si es la propia cuenta; 409 si ya está suspendida
+ */
+export const suspendUser = async (userId: number, input: SuspendUserInput, context: RequestContext) => {
+  const user = await findManageableUser(userId, context);
+
+  if (user.suspended_at) {
+    throw conflict('La cuenta ya está suspendida');
+  }
+
+  const updated = await prisma.users.update({
+    where: { id: user.id },
+    data: { suspended_at: new Date(), suspension_reason: input.reason ?? null },
+    select: adminUserSelect
+  });
+
+  const revoked = await revokeUserSessions(user.id);
+  await recordAuditEvent({
+    ...context,
+    action: 'USER_SUSPEND',
+    result: 'SUCCESS',
+    targetUserId: user.id,
+    metadata: { reason: input.reason ?? null, revokedSessions: revoked }
+  });
+
+  logger.info(`Cuenta del usuario ${user.id} suspendida por el usuario ${context.actorId}`);
+  return updated;
+};
+
+/**
+ * Reactiva una cuenta suspendida
+ * @param userId - ID del usuario
+ * @param context - Origen de la petición (auditoría)
+ * @returns Promesa que resuelve con el usuario actualizado
+ * @throws {Error} 404 si el usuario no existe; 403 si es la propia cuenta; 409 si no está suspendida
+ */
+export const reactivateUser = async (userId: number, context: RequestContext) => {
+  const user = await findManageableUser(userId, context);
+
+  if (!user.suspended_at) {
+    throw conflict('La cuenta no está suspendida');
+  }
+
+  const updated = await prisma.users.update({
+    where: { id: user.id },
+    data: { suspended_at: null, suspension_reason: null },
+    select: adminUserSelect
+  });
+
+  await recordAuditEvent({ ...context, action: 'USER_REACTIVATE', result: 'SUCCESS', targetUserId: user.id });
+
+  logger.info(`Cuenta del usuario ${user.id} reactivada por el usuario ${context.actorId}`);
+  return updated;
+};
+
+/**
+ * Elimina una cuenta con anonimización de sus datos personales
+ * - El usuario se conserva (pedidos, ventas, reseñas y preguntas siguen siendo válidos)
+ *   con nombre y correo anónimos, sin contraseña ni métodos de inicio de sesión
+ * - Las direcciones se archivan sin los datos de contacto (los pedidos conservan ciudad y país)
+ * - Se borran tokens, notificaciones, carrito, verificación en dos pasos, contadores de intentos
+ *   y los correos dirigidos a la cuenta que quedaban en la bandeja de salida
+ * - Los eventos de auditoría que guardaban su correo pierden esos datos
+ * No se permite mientras tenga pedidos abiertos, que aún necesitan la dirección de entrega
+ * @param userId - ID del usuario
+ * @param context - Origen de la petición (auditoría)
+ * @throws {Error} 404 si el usuario no existe o ya fue eliminado; 403 si es la propia cuenta;
+ *                 409 si tiene pedidos abiertos
+ */
+export const deleteUser = async (userId: number, context: RequestContext): Promise<void> => {
+  const user = await findManageableUser(userId, context);
+  const now = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    // Bloquear la cuenta: un checkout simultáneo espera a la eliminación y luego la ve eliminada
+    // (checkoutService.checkout), o la eliminación espera al checkout y cuenta su pedido
+    const [account] = await tx.$queryRaw<{ id: number }[]>`
+      SELECT id FROM "users" WHERE id = ${user.id} AND deleted_at IS NULL FOR UPDATE
+    `;
+    if (!account) {
+      throw notFound('Usuario');
+    }
+
+    const openOrders = await tx.orders.count({
+      where: { userId: user.id, status: { in: OPEN_ORDER_STATUSES } }
+    });
+    if (openOrders > 0) {
+      throw conflict('No se puede eliminar la cuenta mientras tenga pedidos abiertos');
+    }
+
+    await tx.users.update({
+      where: { id: user.id },
+      data: {
+        name: 'Usuario eliminado',
+        email: `eliminado-${user.id}@usuarios-eliminados.invalid`,
+        password_hash: '',
+        avatar_url: null,
+        email_verified: false,
+        role: Role.USER,
+        suspended_at: null,
+        suspension_reason: null,
+        deleted_at: now
+      }
+    });
+    await tx.addresses.updateMany({
+      where: { userId: user.id },
+      data: { name: 'Usuario eliminado', cedula: '', phone: '', street: '', postal_code: '', is_default: false }
+    });
+    await tx.addresses.updateMany({
+      where: { userId: user.id, archived_at: null },
+      data: { archived_at: now }
+    });
+    await tx.user_identities.deleteMany({ where: { userId: user.id } });
+    await tx.two_factor_recovery_codes.deleteMany({ where: { userId: user.id } });
+    await tx.two_factor_auth.deleteMany({ where: { userId: user.id } });
+    await tx.password_reset_tokens.deleteMany({ where: { userId: user.id } });
+    await tx.email_verification_tokens.deleteMany({ where: { userId: user.id } });
+    await tx.notifications.deleteMany({ where: { userId: user.id } });
+    await tx.cart_items.deleteMany({ where: { userId: user.id } });
+    await tx.login_throttles.deleteMany({ where: { key: accountKey(user.email) } });
+    await tx.mail_outbox.deleteMany({ where: { to: { equals: user.email, mode: 'insensitive' } } });
+    await tx.audit_events.updateMany({
+      where: { metadata: { path: ['email'], equals: user.email } },
+      data: { metadata: Prisma.DbNull }
+    });
+  });
+
+  await revokeUserSessions(user.id);
+  await recordAuditEvent({ ...context, action: 'USER_DELETE', result: 'SUCCESS', targetUserId: user.id });
+
+  logger.info(`Cuenta del usuario ${user.id} eliminada y anonimizada por el usuario ${context.actorId}`);
+};
+
+/**
+ * Emite un token de suplantación para que soporte vea la aplicación como el usuario
+ * Solo se pueden suplantar clientes activos; el motivo queda en el registro de auditoría
+ * @param userId - ID del usuario
+ * @param input - Motivo de la suplantación
+ * @param context - Origen de la petición (administrador que suplanta y auditoría)
+ * @returns Promesa que resuelve con el token, su duración y los datos del usuario
+ * @throws {Error} 404 si el usuario no existe; 403 si es un administrador o la propia cuenta; 409 si está suspendido
+ */
+export const impersonateUser = async (userId: number, input: ImpersonateUserInput, context: RequestContext) => {
+  const user = await findManageableUser(userId, context);
+
+  if (user.role === Role.ADMIN) {
+    throw forbidden('No se puede suplantar a un administrador');
+  }
+
+  if (user.suspended_at) {
+    throw conflict('No se puede suplantar una cuenta suspendida');
+  }
+
+  const { token, sessionId, expiresIn } = await issueImpersonationToken(context.actorId!, user);
+
+  await recordAuditEvent({
+    ...context,
+    action: 'IMPERSONATION_START',
+    result: 'SUCCESS',
+    targetUserId: user.id,
+    metadata: { reason: input.reason, sessionId, expiresIn }
+  });
+
+  logger.info(`El usuario ${context.actorId} suplanta al usuario ${user.id} (sesión ${sessionId})`);
+  return {
+    token,
+    expiresIn,
+    user: { id: user.id, name: user.name, email: user.email, role: user.role }
+  };
+};
@@ -0,0 +1,90 @@
+/**
+ * Módulo de configuración de Socket.IO
+ * - Autentica cada conexión en el handshake con el mismo JWT de la API (token o cookie)
+ *   y comprueba que su sesión no haya sido revocada
+ * - Une cada conexión a la sala privada de su usuario, a la de su sesión y, si es administrador,
+ *   a la sala de administradores
+ * - Al revocar una sesión se cierran sus conexiones (socket/sessions.ts)
+ */
+
+import { authenticateToken } from '../middleware/auth';
+import { meetsTwoFactorPolicy } from '../services/twoFactorService';
+import logger from '../utils/logger';
+import { ADMIN_ROOM, sessionRoom, userRoom } from './notifications';
+import { registerSocketServer } from './sessions';
+import type { AppServer, AppSocket } from '../types/socket.types';
+
+/**
+ * Obtiene el valor de una cookie a partir del header Cookie
+ * @param cookieHeader - Valor del header Cookie
+ * @param name - Nombre de la cookie
+ * @returns Valor decodificado de la cookie o undefined
+ */
+const readCookie = (cookieHeader: string | undefined, name: string): string | undefined => {
+  const cookie = cookieHeader
+    ?.split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+/**
+ * Obtiene el token del handshake de Socket.IO
+ * Orden: auth.token del cliente, header Authorization y cookie 'token'
+ * @param socket - Conexión entrante
+ * @returns Token JWT o undefined si no se envió
+ */
+const getHandshakeToken = (socket: AppSocket): string | undefined => {
+  const { auth, headers } = socket.handshake;
+
+  if (typeof auth?.token === 'string' && auth.token) {
+    return auth.token.replace(/^Bearer /, '');
+  }
+
+  const authHeader = headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+
+  return readCookie(headers.cookie, 'token');
+};
+
+/**
+ * Registra la autenticación y el manejo de conexiones en el servidor de Socket.IO
+ * @param io - Servidor de Socket.IO de la aplicación
+ */
+export const initializeSocket = (io: AppServer): void => {
+  registerSocketServer(io);
+
+  // Handshake: rechazar las conexiones sin un token válido
+  io.use(async (socket, next) => {
+    const token = getHandshakeToken(socket);
+    if (!token) {
+      return next(new Error('No se proporcionó un token de autenticación'));
+    }
+
+    try {
+      socket.data.user = await authenticateToken(token);
+      next();
+    } catch (error) {
+      next(new Error(error instanceof Error && error.message ? error.message : 'Token inválido'));
+    }
+  });
+
+  io.on('connection', async (socket) => {
+    const { userId, role, sid } = socket.data.user;
+
+    socket.join([userRoom(userId), sessionRoom(sid)]);
+    // Los avisos de administración exigen la misma política de verificación en dos pasos que la API
+    if (role === 'ADMIN' && (await meetsTwoFactorPolicy(Number(userId), role).catch(() => false))) {
+      socket.join(ADMIN_ROOM);
+    }
+
+    logger.debug(`Socket ${socket.id} conectado (usuario ${userId}, rol ${role})`);
+
+    socket.on('disconnect', (reason) => {
+      logger.debug(`Socket ${socket.id} desconectado: ${reason}`);
+    });
+  });
+};
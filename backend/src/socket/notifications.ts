@@ -0,0 +1,57 @@
+/**
+ * Módulo de notificaciones en tiempo real
+ * Centraliza los nombres de las salas de Socket.IO y la emisión de eventos tipados
+ * Para notificaciones que deben quedar guardadas, usar services/notificationService
+ */
+
+import type { AppServer, ServerToClientEvents } from '../types/socket.types';
+
+/**
+ * Sala a la que se unen todas las conexiones de administradores
+ */
+export const ADMIN_ROOM = 'admins';
+
+/**
+ * Nombre de la sala privada de un usuario
+ * @param userId - ID del usuario
+ * @returns Nombre de la sala (ej: 'user:15')
+ */
+export const userRoom = (userId: number | string): string => `user:${userId}`;
+
+/**
+ * Nombre de la sala de las conexiones abiertas con una sesión
+ * @param sessionId - ID de la sesión (claim sid del token)
+ * @returns Nombre de la sala (ej: 'session:3f2a...')
+ */
+export const sessionRoom = (sessionId: string): string => `session:${sessionId}`;
+
+/**
+ * Emite un evento a todas las conexiones de un usuario
+ * Si el servidor de sockets no está disponible, el evento se omite sin error
+ * @param io - Servidor de Socket.IO (req.io)
+ * @param userId - ID del usuario destinatario
+ * @param event - Nombre del evento del catálogo
+ * @param payload - Datos del evento
+ */
+export const emitToUser = <E extends keyof ServerToClientEvents>(
+  io: AppServer | undefined,
+  userId: number | string,
+  event: E,
+  ...payload: Parameters<ServerToClientEvents[E]>
+): void => {
+  io?.to(userRoom(userId)).emit(event, ...payload);
+};
+
+/**
+ * Emite un evento a todos los administradores conectados
+ * @param io - Servidor de Socket.IO (req.io)
+ * @param event - Nombre del evento del catálogo
+ * @param payload - Datos del evento
+ */
+export const emitToAdmins = <E extends keyof ServerToClientEvents>(
+  io: AppServer | undefined,
+  event: E,
+  ...payload: Parameters<ServerToClientEvents[E]>
+): void => {
+  io?.to(ADMIN_ROOM).emit(event, ...payload);
+};
@@ -0,0 +1,37 @@
+/**
+ * Cierre de las conexiones de Socket.IO de las sesiones revocadas
+ * Las sesiones se revocan desde servicios que no reciben req.io, por lo que el servidor
+ * de sockets se registra al inicializarlo
+ */
+
+import { sessionRoom, userRoom } from './notifications';
+import type { AppServer } from '../types/socket.types';
+
+let socketServer: AppServer | undefined;
+
+/**
+ * Registra el servidor de Socket.IO cuyas conexiones se cierran al revocar sesiones
+ * @param io - Servidor de Socket.IO de la aplicación
+ */
+export const registerSocketServer = (io: AppServer): void => {
+  socketServer = io;
+};
+
+/**
+ * Cierra las conexiones abiertas con una sesión
+ * Si el servidor de sockets no está registrado, no hace nada
+ * @param sessionId - ID de la sesión revocada
+ */
+export const disconnectSessionSockets = (sessionId: string): void => {
+  socketServer?.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
+
+/**
+ * Cierra todas las conexiones de un usuario
+ * @param userId - ID del usuario
+ * @param exceptSessionId - Sesión cuyas conexiones se conservan
+ */
+export const disconnectUserSockets = (userId: number, exceptSessionId?: string): void => {
+  const sockets = socketServer?.in(userRoom(userId));
+  (exceptSessionId ? sockets?.except(sessionRoom(exceptSessionId)) : sockets)?.disconnectSockets(true);
+};
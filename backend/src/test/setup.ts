@@ -0,0 +1,28 @@
+/**
+ * Configuración común de las pruebas
+ * Sustituye el cliente de Prisma y el logger por dobles de prueba en todos los archivos de pruebas;
+ * cada modelo del cliente y cada uno de sus métodos se crean como jest.fn() la primera vez que se usan
+ */
+
+jest.mock('../prisma/client', () => {
+  const mockModel = () =>
+    new Proxy({} as Record<string, jest.Mock>, {
+      get: (methods, method) =>
+        typeof method === 'string' ? (methods[method] ??= jest.fn()) : undefined
+    });
+
+  const models: Record<string, unknown> = { $transaction: jest.fn() };
+
+  return {
+    __esModule: true,
+    default: new Proxy(models, {
+      get: (target, model) =>
+        typeof model === 'string' && model !== 'then' ? (target[model] ??= mockModel()) : undefined
+    })
+  };
+});
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
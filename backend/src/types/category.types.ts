@@ -0,0 +1,14 @@
+/**
+ * Interfaz que representa un nodo del árbol de categorías
+ */
+export interface CategoryTreeNode {
+  id: number;
+  name: string;
+  slug: string;
+  parentId: number | null;
+  /** Productos asignados directamente a la categoría */
+  productCount: number;
+  /** Productos de la categoría y de todas sus subcategorías */
+  totalProductCount: number;
+  children: CategoryTreeNode[];
+}
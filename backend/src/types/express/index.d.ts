@@ -4,6 +4,7 @@
  */
 
 import 'express';
+import type { AppServer } from '../socket.types';
 
 /**
  * Extensión de la interfaz Request de Express para incluir propiedades personalizadas
@@ -32,6 +33,12 @@ declare global {
         /** Timestamp de expiración del token (expiration) */
         exp: number;
       };
+
+      /**
+       * Servidor de Socket.IO de la aplicación.
+       * Definido por el middleware de index.ts para emitir eventos en tiempo real desde las rutas.
+       */
+      io?: AppServer;
     }
   }
 }
@@ -0,0 +1,25 @@
+/**
+ * Mensaje de correo listo para enviar
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Asunto y contenido de un correo generado por una plantilla
+ */
+export type MailContent = Omit<MailMessage, 'to'>;
+
+/**
+ * Transporte de correo: implementa el envío real del mensaje
+ * (consola, archivo local, SMTP, ...)
+ */
+export interface MailTransport {
+  /** Nombre del transporte (para logs) */
+  name: string;
+  /** Envía el mensaje; debe lanzar un error si el envío falla */
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
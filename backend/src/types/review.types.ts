@@ -0,0 +1,13 @@
+/**
+ * Interfaz que representa el resumen de calificaciones de un producto
+ */
+export interface RatingSummary {
+  /** Promedio de calificaciones redondeado a un decimal (0 si no hay reseñas) */
+  average: number;
+  
+  /** Número total de reseñas */
+  count: number;
+  
+  /** Número de reseñas por cada número de estrellas (1 a 5) */
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
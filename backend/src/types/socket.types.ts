@@ -0,0 +1,99 @@
+import type { Server, Socket } from 'socket.io';
+import type { OrderStatus } from '@prisma/client';
+import type { AuthTokenPayload } from '../middleware/auth';
+
+/**
+ * Evento: cambio de estado de un pedido (enviado al cliente dueño del pedido)
+ */
+export interface OrderStatusChangedEvent {
+  orderId: number;
+  previousStatus: OrderStatus;
+  status: OrderStatus;
+  note?: string | null;
+  changedAt: string;
+}
+
+/**
+ * Evento: nuevo pedido creado (enviado a los administradores)
+ */
+export interface OrderCreatedEvent {
+  orderId: number;
+  userId: number;
+  total: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+/**
+ * Evento: producto con stock bajo (enviado a los administradores)
+ */
+export interface LowStockEvent {
+  productId: number;
+  name: string;
+  slug: string;
+  stock: number;
+  threshold: number;
+}
+
+/**
+ * Evento: pregunta respondida (enviado al usuario que la hizo)
+ */
+export interface QuestionAnsweredEvent {
+  questionId: number;
+  question: string;
+  answer: string | null;
+  product: { id: number; name: string; slug: string };
+  answeredAt: Date | null;
+}
+
+/**
+ * Evento: nueva notificación guardada para el usuario (alimenta el centro de notificaciones)
+ */
+export interface NotificationCreatedEvent {
+  id: number;
+  type: NotificationEventName;
+  title: string;
+  message: string;
+  data: unknown;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Catálogo de eventos que el servidor emite a los clientes
+ */
+export interface ServerToClientEvents {
+  'order:status-changed': (event: OrderStatusChangedEvent) => void;
+  'order:created': (event: OrderCreatedEvent) => void;
+  'product:low-stock': (event: LowStockEvent) => void;
+  'question:answered': (event: QuestionAnsweredEvent) => void;
+  'notification:created': (event: NotificationCreatedEvent) => void;
+}
+
+/**
+ * Eventos del catálogo que generan una notificación persistente
+ */
+export type NotificationEventName = Exclude<keyof ServerToClientEvents, 'notification:created'>;
+
+/**
+ * Eventos que los clientes pueden emitir al servidor (ninguno por ahora)
+ */
+export interface ClientToServerEvents {}
+
+/**
+ * Eventos entre instancias del servidor (no se usan)
+ */
+export interface InterServerEvents {}
+
+/**
+ * Datos asociados a cada conexión autenticada
+ */
+export interface SocketData {
+  user: AuthTokenPayload;
+}
+
+/**
+ * Servidor y socket de Socket.IO tipados con el catálogo de eventos de la aplicación
+ */
+export type AppServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+export type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
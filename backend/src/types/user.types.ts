@@ -28,10 +28,28 @@ export interface CreateUserData {
   avatar_url?: string;
 }
 
+/**
+ * Tokens emitidos al iniciar sesión o al renovar la sesión
+ */
+export interface AuthTokens {
+  token: string;          // Token de acceso (JWT de corta duración)
+  refreshToken: string;   // Refresh token opaco y rotativo
+  expiresIn: number;      // Segundos de validez del token de acceso
+}
+
 /**
  * Interfaz para la respuesta de autenticación
  */
-export interface AuthResponse {
-  token: string;
+export interface AuthResponse extends AuthTokens {
   user: Omit<User, 'password_hash'>;
 }
+
+/**
+ * Respuesta del inicio de sesión cuando la cuenta tiene activa la verificación en dos pasos
+ * El cliente debe enviar el challengeToken junto con el código a POST /api/login/2fa
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string; // Token de corta duración que solo sirve para completar la verificación
+  expiresIn: number;      // Segundos de validez del desafío
+}
@@ -0,0 +1,27 @@
+/**
+ * Utilidades para generar archivos CSV
+ */
+
+type CsvValue = string | number | Date | null | undefined;
+
+/**
+ * Escapa un valor para incluirlo en una celda CSV
+ * @param value - Valor de la celda
+ * @returns Valor escapado (entre comillas si contiene separadores, comillas o saltos de línea)
+ */
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convierte un arreglo de filas en texto CSV
+ * @param rows - Filas a convertir (la primera suele ser el encabezado)
+ * @returns Texto CSV con saltos de línea CRLF
+ */
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
@@ -0,0 +1,50 @@
+/**
+ * Utilidades para los ID tokens de Google (Google Identity Services)
+ */
+
+import { OAuth2Client } from 'google-auth-library';
+import { createError } from '../middleware/errorHandler';
+
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || '';
+const googleClient = new OAuth2Client(GOOGLE_CLIENT_ID);
+
+/**
+ * Datos de la cuenta de Google contenidos en un ID token verificado
+ */
+export interface GoogleProfile {
+  /** ID estable de la cuenta de Google (claim sub) */
+  sub: string;
+  email: string;
+  name?: string;
+  picture?: string;
+  /** Indica si Google verificó la propiedad del correo */
+  emailVerified: boolean;
+}
+
+/**
+ * Verifica la firma, la audiencia y la vigencia de un ID token de Google
+ * @param idToken - ID token recibido del cliente
+ * @returns Promesa que resuelve con los datos de la cuenta de Google
+ * @throws {Error} 401 si el token no es válido, expiró o no incluye el correo
+ */
+export const verifyGoogleIdToken = async (idToken: string): Promise<GoogleProfile> => {
+  let payload;
+  try {
+    const ticket = await googleClient.verifyIdToken({ idToken, audience: GOOGLE_CLIENT_ID });
+    payload = ticket.getPayload();
+  } catch {
+    throw createError('Token de Google inválido o expirado', 401, 'AUTH_ERROR');
+  }
+
+  if (!payload?.sub || !payload.email) {
+    throw createError('Token de Google inválido', 401, 'AUTH_ERROR');
+  }
+
+  return {
+    sub: payload.sub,
+    email: payload.email,
+    name: payload.name,
+    picture: payload.picture,
+    emailVerified: payload.email_verified === true
+  };
+};
@@ -0,0 +1,13 @@
+/**
+ * Utilidades para leer parámetros de ruta
+ */
+
+/**
+ * Obtiene un ID numérico a partir de un parámetro de ruta
+ * @param value - Valor del parámetro (ej: req.params.id)
+ * @returns ID numérico o null si no es un entero positivo
+ */
+export const parseId = (value: string): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
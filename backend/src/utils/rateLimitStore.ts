@@ -0,0 +1,147 @@
+/**
+ * Almacenes de contadores para el límite de peticiones
+ * - Memoria (por defecto): los contadores viven en el proceso, cada instancia limita por su cuenta
+ * - Redis: los contadores se comparten entre todas las instancias de la API
+ *
+ * index.ts registra el almacén de Redis al iniciar la aplicación si se define RATE_LIMIT_REDIS_URL:
+ *   setRateLimitStore(createRedisRateLimitStore((...args) => client.sendCommand(args)))
+ * Si Redis no responde, los comandos fallan tras REDIS_COMMAND_TIMEOUT_MS y el limitador deja pasar
+ * la petición (middleware/rateLimit.ts) en lugar de bloquear las rutas
+ */
+
+import type { ClientRateLimitInfo } from 'express-rate-limit';
+import { RATE_LIMIT_STORE_CONFIG } from '../constants/rateLimit.constants';
+
+/**
+ * Interfaz común de los almacenes de contadores
+ */
+export interface RateLimitCounterStore {
+  increment: (key: string, windowMs: number) => Promise<ClientRateLimitInfo>;
+  decrement: (key: string) => Promise<void>;
+  resetKey: (key: string) => Promise<void>;
+}
+
+/**
+ * Función que ejecuta un comando de Redis y devuelve su respuesta
+ * Compatible con node-redis (client.sendCommand(args)) e ioredis (client.call(...args))
+ */
+export type RedisSendCommand = (...args: string[]) => Promise<unknown>;
+
+/**
+ * Crea el almacén de contadores en memoria
+ * Los contadores vencidos se eliminan periódicamente
+ */
+export const createMemoryRateLimitStore = (): RateLimitCounterStore => {
+  const counters = new Map<string, { totalHits: number; resetTime: Date }>();
+
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, counter] of counters) {
+      if (counter.resetTime.getTime() <= now) {
+        counters.delete(key);
+      }
+    }
+  }, RATE_LIMIT_STORE_CONFIG.MEMORY_CLEANUP_INTERVAL_MS);
+  cleanup.unref();
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = Date.now();
+      const current = counters.get(key);
+      const counter = current && current.resetTime.getTime() > now
+        ? { totalHits: current.totalHits + 1, resetTime: current.resetTime }
+        : { totalHits: 1, resetTime: new Date(now + windowMs) };
+
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    decrement: async (key) => {
+      const counter = counters.get(key);
+      if (counter && counter.totalHits > 0) {
+        counter.totalHits -= 1;
+      }
+    },
+    resetKey: async (key) => {
+      counters.delete(key);
+    }
+  };
+};
+
+/**
+ * Incrementa el contador y fija su vencimiento en la primera petición de la ventana
+ * Devuelve el número de peticiones y los milisegundos que faltan para reiniciarlo
+ */
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl <= 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+/**
+ * Decrementa el contador solo si sigue vigente (no crea claves sin vencimiento)
+ */
+const DECREMENT_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return redis.call('DECR', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Rechaza la promesa si no se resuelve en el tiempo indicado
+ * @param promise - Promesa del comando
+ * @param timeoutMs - Milisegundos de espera
+ */
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Redis no respondió en ${timeoutMs} ms`)), timeoutMs);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+/**
+ * Crea un almacén de contadores sobre Redis (o un servidor compatible)
+ * @param send - Función que envía un comando al servidor
+ * @param commandTimeoutMs - Espera máxima de cada comando
+ */
+export const createRedisRateLimitStore = (
+  send: RedisSendCommand,
+  commandTimeoutMs: number = RATE_LIMIT_STORE_CONFIG.REDIS_COMMAND_TIMEOUT_MS
+): RateLimitCounterStore => {
+  const sendCommand: RedisSendCommand = (...args) => withTimeout(send(...args), commandTimeoutMs);
+
+  return {
+    increment: async (key, windowMs) => {
+      const reply = await sendCommand('EVAL', INCREMENT_SCRIPT, '1', key, String(windowMs));
+      const [totalHits, ttl] = (reply as Array<number | string>).map(Number);
+
+      return { totalHits, resetTime: new Date(Date.now() + ttl) };
+    },
+    decrement: async (key) => {
+      await sendCommand('EVAL', DECREMENT_SCRIPT, '1', key);
+    },
+    resetKey: async (key) => {
+      await sendCommand('DEL', key);
+    }
+  };
+};
+
+let activeStore: RateLimitCounterStore = createMemoryRateLimitStore();
+
+/**
+ * Reemplaza el almacén de contadores de todas las políticas
+ * Las políticas consultan el almacén en cada petición, por lo que puede registrarse
+ * después de montar las rutas
+ * @param store - Almacén a usar
+ */
+export const setRateLimitStore = (store: RateLimitCounterStore): void => {
+  activeStore = store;
+};
+
+/**
+ * Devuelve el almacén de contadores activo
+ */
+export const getRateLimitStore = (): RateLimitCounterStore => activeStore;
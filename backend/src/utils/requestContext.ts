@@ -0,0 +1,28 @@
+/**
+ * Utilidades para leer el contexto de una petición (registro de auditoría)
+ */
+
+import { Request } from 'express';
+
+/**
+ * Origen de una petición: quién la hizo, desde qué IP y con qué agente de usuario
+ */
+export interface RequestContext {
+  actorId?: number | null;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Obtiene el contexto de una petición
+ * La IP es la que vio el servidor de Next.js (última entrada de X-Forwarded-For) o, si la
+ * petición no llega desde él, la de la conexión; nunca un valor escrito por el cliente
+ * (un único salto de confianza, utils/trustProxy.ts). El agente de usuario es el del navegador
+ * @param req - Objeto de solicitud de Express
+ * @returns Usuario autenticado (si lo hay), IP y agente de usuario
+ */
+export const getRequestContext = (req: Request): RequestContext => ({
+  actorId: req.user ? Number(req.user.userId) : null,
+  ip: req.ip ?? null,
+  userAgent: req.get('user-agent') ?? null
+});
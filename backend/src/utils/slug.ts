@@ -0,0 +1,43 @@
+/**
+ * Utilidades para generar slugs amigables para URLs
+ */
+
+/**
+ * Convierte un texto en un slug (minúsculas, sin tildes y separado por guiones)
+ * @param text - Texto de origen (ej: nombre de un producto)
+ * @returns Slug normalizado
+ *
+ * @example
+ * slugify('Vestido de Baño Señora'); // 'vestido-de-bano-senora'
+ */
+export const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Eliminar tildes y diacríticos
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/[\s_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Genera un slug único agregando un sufijo numérico cuando el slug base ya existe
+ * @param text - Texto de origen para el slug
+ * @param exists - Función que indica si un slug ya está en uso
+ * @returns Promesa que resuelve con el primer slug disponible (ej: 'vestidos', 'vestidos-2', ...)
+ */
+export const generateUniqueSlug = async (
+  text: string,
+  exists: (slug: string) => Promise<boolean>
+): Promise<string> => {
+  const base = slugify(text) || 'item';
+  let slug = base;
+  let suffix = 2;
+
+  while (await exists(slug)) {
+    slug = `${base}-${suffix}`;
+    suffix++;
+  }
+
+  return slug;
+};
@@ -0,0 +1,60 @@
+/**
+ * Utilidades para tokens opacos (refresh tokens, enlaces de un solo uso) y secretos cifrados
+ * Los tokens se entregan al cliente en claro y solo se guarda su hash en la base de datos
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Genera un token aleatorio seguro para URLs
+ * @param bytes - Cantidad de bytes aleatorios (48 por defecto)
+ * @returns Token en base64url
+ */
+export const generateSecureToken = (bytes = 48): string =>
+  crypto.randomBytes(bytes).toString('base64url');
+
+/**
+ * Calcula el hash SHA-256 de un token para guardarlo o buscarlo en la base de datos
+ * @param token - Token en claro
+ * @returns Hash en hexadecimal
+ */
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Clave de cifrado de los secretos guardados en la base de datos (ej: secretos TOTP)
+ * Se deriva de SECRETS_ENCRYPTION_KEY o, si no está definida, de JWT_SECRET
+ */
+const encryptionKey = (): Buffer =>
+  crypto
+    .createHash('sha256')
+    .update(process.env.SECRETS_ENCRYPTION_KEY || process.env.JWT_SECRET || '')
+    .digest();
+
+/**
+ * Cifra un secreto con AES-256-GCM para guardarlo en la base de datos
+ * A diferencia de los tokens, estos secretos deben poder recuperarse (no basta con un hash)
+ * @param value - Secreto en claro
+ * @returns Texto "iv.tag.cifrado" en base64url
+ */
+export const encryptSecret = (value: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+};
+
+/**
+ * Descifra un secreto cifrado con encryptSecret
+ * @param payload - Texto "iv.tag.cifrado" en base64url
+ * @returns Secreto en claro
+ * @throws {Error} Si el texto fue alterado o se cifró con otra clave
+ */
+export const decryptSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,143 @@
+/**
+ * Utilidades TOTP (RFC 6238) para la verificación en dos pasos
+ * Compatibles con Google Authenticator, Authy, 1Password, ...
+ */
+
+import crypto from 'crypto';
+import { TWO_FACTOR_CONFIG } from '../constants/auth.constants';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codifica bytes en base32 (RFC 4648, sin relleno), el formato de los secretos TOTP
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodifica un texto base32 (ignora espacios, relleno y mayúsculas/minúsculas)
+ */
+const base32Decode = (input: string): Buffer => {
+  const clean = input.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Secreto TOTP no válido');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Genera un texto aleatorio en base32 (letras mayúsculas y dígitos 2-7, fácil de transcribir)
+ * @param bytes - Cantidad de bytes aleatorios
+ * @returns Texto en base32 (8 caracteres por cada 5 bytes)
+ */
+export const randomBase32 = (bytes: number): string => base32Encode(crypto.randomBytes(bytes));
+
+/**
+ * Genera un secreto TOTP aleatorio de 160 bits
+ * @returns Secreto en base32
+ */
+export const generateTotpSecret = (): string => randomBase32(20);
+
+/**
+ * Intervalo de tiempo TOTP correspondiente a una fecha
+ * @param date - Fecha (ahora por defecto)
+ * @returns Número de intervalo
+ */
+export const currentTotpStep = (date = new Date()): number =>
+  Math.floor(date.getTime() / 1000 / TWO_FACTOR_CONFIG.PERIOD_SECONDS);
+
+/**
+ * Calcula el código TOTP de un intervalo (HOTP con HMAC-SHA1)
+ * @param secret - Secreto en base32
+ * @param step - Número de intervalo
+ * @returns Código con ceros a la izquierda
+ */
+export const generateTotp = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TWO_FACTOR_CONFIG.DIGITS).padStart(TWO_FACTOR_CONFIG.DIGITS, '0');
+};
+
+/**
+ * Verifica un código TOTP dentro de la ventana de tolerancia
+ * @param secret - Secreto en base32
+ * @param code - Código introducido por el usuario
+ * @param afterStep - Último intervalo ya usado: los códigos de ese intervalo o anteriores se rechazan
+ * @returns Intervalo del código si es válido, o null
+ */
+export const verifyTotp = (secret: string, code: string, afterStep?: number | null): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TWO_FACTOR_CONFIG.DIGITS) {
+    return null;
+  }
+
+  const now = currentTotpStep();
+  for (let step = now - TWO_FACTOR_CONFIG.WINDOW; step <= now + TWO_FACTOR_CONFIG.WINDOW; step++) {
+    if (afterStep != null && step <= afterStep) {
+      continue;
+    }
+
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Construye el URI otpauth:// que las apps de autenticación leen desde un código QR
+ * @param secret - Secreto en base32
+ * @param accountName - Cuenta que se muestra en la app (correo del usuario)
+ * @returns URI otpauth
+ */
+export const buildOtpauthUri = (secret: string, accountName: string): string => {
+  const issuer = TWO_FACTOR_CONFIG.ISSUER;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TWO_FACTOR_CONFIG.DIGITS),
+    period: String(TWO_FACTOR_CONFIG.PERIOD_SECONDS)
+  });
+
+  return `otpauth://totp/${encodeURIComponent(`${issuer}:${accountName}`)}?${params.toString()}`;
+};
@@ -0,0 +1,45 @@
+/**
+ * Configuración de los proxies de confianza (setting 'trust proxy' de Express)
+ * Solo se confía en un salto: si la conexión llega desde una dirección de confianza (el servidor
+ * de Next.js), req.ip toma la última entrada de X-Forwarded-For, que es la dirección que ese
+ * proxy vio; el resto de la cabecera lo escribe el cliente y nunca se usa
+ */
+
+import { BlockList, isIP } from 'net';
+
+/**
+ * Crea la función de confianza de Express a partir de una lista de direcciones y subredes
+ * @param value - Lista separada por comas (ej: 'loopback', '10.0.0.5', '10.0.0.0/8'); vacío o 'false' no confía en nadie
+ * @returns Función (dirección, salto) que solo acepta el primer salto desde una dirección de la lista
+ */
+export const createTrustProxy = (value: string) => {
+  const trusted = new BlockList();
+
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    if (entry === 'false') {
+      continue;
+    }
+
+    if (entry === 'loopback') {
+      trusted.addSubnet('127.0.0.0', 8, 'ipv4');
+      trusted.addAddress('::1', 'ipv6');
+      continue;
+    }
+
+    const [address, prefix] = entry.split('/');
+    if (!isIP(address)) {
+      throw new Error(`Dirección de proxy de confianza no válida: ${entry}`);
+    }
+
+    const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+
+    if (prefix) {
+      trusted.addSubnet(address, Number(prefix), family);
+    } else {
+      trusted.addAddress(address, family);
+    }
+  }
+
+  return (address: string, hop: number): boolean =>
+    hop === 0 && isIP(address) !== 0 && trusted.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
@@ -7,6 +7,10 @@ const publicPaths = [
   '/',
   '/auth/login',
   '/auth/register',
+  '/auth/two-factor',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
   '/auth/error',
   '/api/auth',
   '/_next',
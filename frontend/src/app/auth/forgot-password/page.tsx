@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { postAccountRequest } from '@/lib/auth-requests';
+
+/**
+ * Solicitud del enlace para restablecer la contraseña
+ * El backend responde igual exista o no la cuenta, para no revelar qué correos están registrados
+ */
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setIsLoading(true);
+
+    try {
+      setMessage(await postAccountRequest('/api/forgot-password', { email }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al enviar la solicitud. Por favor, inténtalo de nuevo.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            ¿Olvidaste tu contraseña?
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Ingresa tu correo y te enviaremos un enlace para restablecerla
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border-l-4 border-green-400 p-4">
+            <p className="text-sm text-green-700">{message}</p>
+          </div>
+        )}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="email" className="sr-only">
+              Email
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              autoFocus
+              className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+                isLoading ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {isLoading ? 'Enviando...' : 'Enviar enlace'}
+            </button>
+          </div>
+
+          <div className="text-center text-sm">
+            <Link href="/auth/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Volver a iniciar sesión
+            </Link>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ export default function LoginPage() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const callbackUrl = searchParams?.get('callbackUrl') || '/';
+  const registered = searchParams?.get('registered') === 'true';
 
   // Redirigir si ya está autenticado
   useEffect(() => {
@@ -41,7 +42,10 @@ export default function LoginPage() {
 
       console.log('Respuesta de signIn:', result);
 
-      if (result?.error) {
+      // Cuenta con verificación en dos pasos: pedir el código en la página siguiente
+      if (result?.code === 'two_factor_required') {
+        router.push(`/auth/two-factor?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+      } else if (result?.error) {
         console.error('Error en signIn:', result.error);
         setError('Correo electrónico o contraseña incorrectos');
       } else if (result?.url) {
@@ -103,6 +107,14 @@ export default function LoginPage() {
           </p>
         </div>
 
+        {registered && !error && (
+          <div className="bg-green-50 border-l-4 border-green-400 p-4">
+            <p className="text-sm text-green-700">
+              Cuenta creada. Te enviamos un enlace para verificar tu correo electrónico antes de tu primera compra.
+            </p>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border-l-4 border-red-400 p-4">
             <div className="flex">
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { postAccountRequest } from '@/lib/auth-requests';
+
+/**
+ * Restablecimiento de la contraseña con el token del enlace enviado por correo (?token=...)
+ * Al cambiarla, el backend cierra todas las sesiones abiertas de la cuenta
+ */
+export default function ResetPasswordPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token') || '';
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('Las contraseñas no coinciden.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      setMessage(await postAccountRequest('/api/reset-password', { token, newPassword }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al restablecer la contraseña. Por favor, inténtalo de nuevo.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Restablecer contraseña
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Elige una contraseña de al menos 8 caracteres con al menos un número
+          </p>
+        </div>
+
+        {!token && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">
+              El enlace no es válido. Solicita uno nuevo desde{' '}
+              <Link href="/auth/forgot-password" className="font-medium underline">
+                ¿Olvidaste tu contraseña?
+              </Link>
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {message ? (
+          <div className="space-y-6">
+            <div className="bg-green-50 border-l-4 border-green-400 p-4">
+              <p className="text-sm text-green-700">{message}</p>
+            </div>
+            <div className="text-center text-sm">
+              <Link href="/auth/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+                Ir a iniciar sesión
+              </Link>
+            </div>
+          </div>
+        ) : (
+          token && (
+            <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+              <div className="rounded-md shadow-sm -space-y-px">
+                <div>
+                  <label htmlFor="new-password" className="sr-only">
+                    Nueva contraseña
+                  </label>
+                  <input
+                    id="new-password"
+                    name="newPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    minLength={8}
+                    className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                    placeholder="Nueva contraseña"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="confirm-password" className="sr-only">
+                    Confirmar contraseña
+                  </label>
+                  <input
+                    id="confirm-password"
+                    name="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    minLength={8}
+                    className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                    placeholder="Confirmar contraseña"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+                    isLoading ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {isLoading ? 'Guardando...' : 'Guardar contraseña'}
+                </button>
+              </div>
+            </form>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { signIn } from 'next-auth/react';
+import Link from 'next/link';
+
+/**
+ * Segundo paso del inicio de sesión de las cuentas con verificación en dos pasos
+ * El desafío lo guarda el servidor en una cookie al validar la contraseña o la cuenta de Google
+ */
+export default function TwoFactorPage() {
+  const searchParams = useSearchParams();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const callbackUrl = searchParams?.get('callbackUrl') || '/';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await signIn('two-factor', {
+        ...(useRecoveryCode ? { recoveryCode: code } : { code }),
+        redirect: false,
+        callbackUrl,
+      });
+
+      if (result?.error) {
+        setError('El código no es válido o la verificación expiró. Si expiró, vuelve a iniciar sesión.');
+      } else if (result?.url) {
+        window.location.href = result.url;
+      }
+    } catch (err) {
+      console.error('Error en la verificación en dos pasos:', err);
+      setError('Error al verificar el código. Por favor, inténtalo de nuevo.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleCodeType = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Verificación en dos pasos
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {useRecoveryCode
+              ? 'Ingresa uno de tus códigos de recuperación'
+              : 'Ingresa el código de tu app de autenticación'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="two-factor-code" className="sr-only">
+              {useRecoveryCode ? 'Código de recuperación' : 'Código de verificación'}
+            </label>
+            <input
+              id="two-factor-code"
+              name="code"
+              type="text"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              required
+              autoFocus
+              className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 text-center tracking-widest focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              placeholder={useRecoveryCode ? 'XXXX-XXXX-XXXX-XXXX' : '123456'}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+                isLoading ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {isLoading ? 'Verificando...' : 'Verificar'}
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              onClick={toggleCodeType}
+              className="font-medium text-indigo-600 hover:text-indigo-500"
+              disabled={isLoading}
+            >
+              {useRecoveryCode ? 'Usar el código de la app' : 'Usar un código de recuperación'}
+            </button>
+            <Link href="/auth/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Volver a iniciar sesión
+            </Link>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
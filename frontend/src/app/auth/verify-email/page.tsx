@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { postAccountRequest } from '@/lib/auth-requests';
+
+type VerificationStatus = 'idle' | 'verifying' | 'verified' | 'failed';
+
+/**
+ * Verificación del correo electrónico con el token del enlace enviado por correo (?token=...)
+ * Sin token, o si el enlace expiró, permite reenviar el enlace a la cuenta con sesión iniciada
+ */
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token') || '';
+  const { data: session } = useSession();
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'idle');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  // El token es de un solo uso: evitar enviarlo dos veces si el efecto se repite
+  const submittedToken = useRef('');
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) {
+      return;
+    }
+    submittedToken.current = token;
+
+    postAccountRequest('/api/verify-email', { token })
+      .then((result) => {
+        setMessage(result);
+        setStatus('verified');
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'No se pudo verificar el correo electrónico.');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  const handleResend = async () => {
+    if (!session?.accessToken) {
+      return;
+    }
+
+    setError('');
+    setMessage('');
+    setIsResending(true);
+
+    try {
+      setMessage(await postAccountRequest('/api/verify-email/resend', undefined, session.accessToken));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo reenviar el enlace. Por favor, inténtalo de nuevo.');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Verificación del correo
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {status === 'verifying'
+              ? 'Estamos verificando tu correo electrónico...'
+              : 'Debes verificar tu correo electrónico para poder realizar compras'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border-l-4 border-green-400 p-4">
+            <p className="text-sm text-green-700">{message}</p>
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <div className="text-center text-sm">
+            <Link href="/" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Ir a la tienda
+            </Link>
+          </div>
+        )}
+
+        {(status === 'idle' || status === 'failed') &&
+          (session?.accessToken ? (
+            <div>
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isResending}
+                className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+                  isResending ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                {isResending ? 'Enviando...' : 'Reenviar enlace de verificación'}
+              </button>
+            </div>
+          ) : (
+            <div className="text-center text-sm">
+              <Link
+                href={`/auth/login?callbackUrl=${encodeURIComponent('/auth/verify-email')}`}
+                className="font-medium text-indigo-600 hover:text-indigo-500"
+              >
+                Inicia sesión para recibir un nuevo enlace
+              </Link>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
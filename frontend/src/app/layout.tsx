@@ -3,6 +3,7 @@
 import './globals.css';
 import { Providers } from './providers';
 import { MainNav } from '@/components/layout/MainNav';
+import EmailVerificationNotice from '@/components/EmailVerificationNotice';
 
 /**
  * Layout principal de la aplicación
@@ -38,6 +39,9 @@ export default function RootLayout({
               <MainNav />
             </div>
           </header>
+
+          {/* Aviso para verificar el correo electrónico */}
+          <EmailVerificationNotice />
           
           {/* Contenido principal de la página */}
           <main className="flex-grow">
@@ -2,11 +2,20 @@
 
 import { SessionProvider } from 'next-auth/react';
 import { ReactNode } from 'react';
+import { Toaster } from 'sonner';
+import NotificationProvider from '@/components/NotificationProvider';
+
+// Intervalo (segundos) para consultar la sesión: NextAuth renueva el token de acceso (15 minutos)
+// al consultarla, así el token que usan la API y el socket sigue vigente aunque la pestaña esté inactiva
+const SESSION_REFETCH_INTERVAL = 60;
 
 export function Providers({ children }: { children: ReactNode }) {
   return (
-    <SessionProvider>
-      {children}
+    <SessionProvider refetchInterval={SESSION_REFETCH_INTERVAL}>
+      <NotificationProvider>
+        {children}
+        <Toaster position="top-right" richColors closeButton />
+      </NotificationProvider>
     </SessionProvider>
   );
 }
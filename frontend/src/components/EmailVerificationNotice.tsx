@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { get } from '@/lib/api';
+
+/**
+ * Aviso para las cuentas con el correo sin verificar
+ * El backend exige el correo verificado para comprar; el aviso enlaza a la página que reenvía el enlace
+ */
+export default function EmailVerificationNotice() {
+  const { data: session } = useSession();
+  const pathname = usePathname();
+  const userId = session?.accessToken ? session.user?.id : undefined;
+  const [emailVerified, setEmailVerified] = useState<boolean | null>(null);
+
+  // Consultar el perfil mientras el correo no esté verificado (puede verificarse desde otra pestaña)
+  useEffect(() => {
+    if (!userId) {
+      setEmailVerified(null);
+      return;
+    }
+    if (emailVerified) {
+      return;
+    }
+
+    get<{ success: boolean; data: { email_verified: boolean } }>('/api/profile')
+      .then(({ data }) => setEmailVerified(data.data.email_verified))
+      .catch((error) => console.error('Error al consultar el perfil:', error));
+  }, [userId, pathname, emailVerified]);
+
+  if (emailVerified !== false || pathname?.startsWith('/auth/')) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="container mx-auto px-4 py-2 text-sm text-yellow-800">
+        Verifica tu correo electrónico para poder realizar compras.{' '}
+        <Link href="/auth/verify-email" className="font-medium underline hover:text-yellow-900">
+          Reenviar el enlace de verificación
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { io } from 'socket.io-client';
+import { toast } from 'sonner';
+import { get, put } from '@/lib/api';
+import type { AppNotification } from '@/types/notification';
+
+interface NotificationContextValue {
+  notifications: AppNotification[];
+  unreadCount: number;
+  markAsRead: (id: number) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+/**
+ * Proveedor del centro de notificaciones
+ * - Carga las notificaciones guardadas del usuario al iniciar sesión
+ * - Abre la conexión de Socket.IO con el token de acceso de la sesión y, si el servidor
+ *   rechaza el token, renueva la sesión y vuelve a conectar
+ * - Muestra un toast por cada notificación nueva recibida en tiempo real
+ */
+export default function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const { data: session, update } = useSession();
+  const accessToken = session?.accessToken;
+  const userId = accessToken ? session?.user?.id : undefined;
+  // Último token de acceso; el socket lo lee en cada intento de conexión para no reconectar con uno expirado
+  const accessTokenRef = useRef(accessToken);
+  accessTokenRef.current = accessToken;
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Cargar las notificaciones guardadas para que el listado sobreviva a una recarga
+  useEffect(() => {
+    if (!accessToken) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    get<{ success: boolean; unreadCount: number; data: AppNotification[] }>('/api/notifications', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then(({ data }) => {
+        setNotifications(data.data);
+        setUnreadCount(data.unreadCount);
+      })
+      .catch((error) => console.error('Error al cargar las notificaciones:', error));
+  }, [accessToken]);
+
+  // Escuchar las notificaciones nuevas en tiempo real
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const socket = io(process.env.NEXT_PUBLIC_API_URL, {
+      auth: (callback) => callback({ token: accessTokenRef.current }),
+      withCredentials: true,
+    });
+    let rejectedToken: string | undefined;
+
+    socket.on('notification:created', (notification: AppNotification) => {
+      setNotifications((current) => [notification, ...current]);
+      setUnreadCount((count) => count + 1);
+      toast(notification.title, { description: notification.message });
+    });
+
+    socket.on('connect_error', async (error) => {
+      // Socket.IO reintenta por sí mismo los fallos de red; solo el rechazo del handshake lo detiene
+      if (socket.active) {
+        return;
+      }
+
+      // El servidor rechazó el token: renovar la sesión y reintentar una vez por token
+      const token = accessTokenRef.current;
+      const renewed = token !== rejectedToken ? await update() : null;
+      rejectedToken = token;
+
+      if (renewed?.accessToken && !renewed.error && renewed.accessToken !== token) {
+        accessTokenRef.current = renewed.accessToken;
+        socket.connect();
+        return;
+      }
+
+      console.error('Error de conexión con el servidor de notificaciones:', error.message);
+      toast.error('No se pudo conectar con las notificaciones en tiempo real', {
+        description: 'Recarga la página o vuelve a iniciar sesión para recibirlas.',
+      });
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [userId, update]);
+
+  const markAsRead = useCallback(
+    async (id: number) => {
+      const target = notifications.find((notification) => notification.id === id);
+      if (!accessToken || !target || target.read_at) {
+        return;
+      }
+
+      const { data } = await put<{ success: boolean; data: AppNotification }>(
+        `/api/notifications/${id}/read`,
+        undefined,
+        { headers: { Authorization: `Bearer ${accessToken}` } }
+      );
+
+      setNotifications((current) =>
+        current.map((notification) => (notification.id === id ? data.data : notification))
+      );
+      setUnreadCount((count) => Math.max(count - 1, 0));
+    },
+    [accessToken, notifications]
+  );
+
+  const markAllAsRead = useCallback(async () => {
+    if (!accessToken) {
+      return;
+    }
+
+    await put('/api/notifications/read-all', undefined, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) => ({ ...notification, read_at: notification.read_at ?? readAt }))
+    );
+    setUnreadCount(0);
+  }, [accessToken]);
+
+  const value = useMemo(
+    () => ({ notifications, unreadCount, markAsRead, markAllAsRead }),
+    [notifications, unreadCount, markAsRead, markAllAsRead]
+  );
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+}
+
+/**
+ * Hook para acceder al centro de notificaciones
+ * Debe usarse dentro de NotificationProvider
+ */
+export function useNotifications(): NotificationContextValue {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications debe usarse dentro de NotificationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown } from 'lucide-react';
+import { get } from '@/lib/api';
+import type { CategoryTreeNode } from '@/types/category';
+
+/**
+ * Menú desplegable de categorías
+ * - Obtiene el árbol de categorías del backend
+ * - Muestra las subcategorías anidadas con el número de productos
+ */
+export function CategoryMenu() {
+  const [categories, setCategories] = useState<CategoryTreeNode[]>([]);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Cargar el árbol de categorías una sola vez
+  useEffect(() => {
+    get<{ success: boolean; data: CategoryTreeNode[] }>('/api/categories/tree')
+      .then(({ data }) => setCategories(data.data))
+      .catch((error) => console.error('Error al cargar las categorías:', error));
+  }, []);
+
+  // Cerrar el menú al hacer clic fuera de él
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (categories.length === 0) {
+    return null;
+  }
+
+  const renderCategory = (category: CategoryTreeNode, depth = 0) => (
+    <li key={category.id}>
+      <Link
+        href={`/products?category=${category.slug}`}
+        onClick={() => setOpen(false)}
+        className="flex items-center justify-between rounded-md px-3 py-2 text-sm hover:bg-gray-100"
+        style={{ paddingLeft: `${0.75 + depth * 0.75}rem` }}
+      >
+        <span>{category.name}</span>
+        <span className="text-xs text-gray-500">{category.totalProductCount}</span>
+      </Link>
+      {category.children.length > 0 && (
+        <ul>{category.children.map((child) => renderCategory(child, depth + 1))}</ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="flex items-center px-3 py-2 text-sm font-medium rounded-md hover:bg-gray-100 transition-colors"
+        aria-expanded={open}
+      >
+        Categorías
+        <ChevronDown className="ml-1 h-4 w-4" />
+      </button>
+
+      {open && (
+        <ul className="absolute left-0 z-50 mt-2 w-64 rounded-md border bg-white p-1 shadow-lg">
+          {categories.map((category) => renderCategory(category))}
+        </ul>
+      )}
+    </div>
+  );
+}
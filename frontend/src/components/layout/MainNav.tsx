@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
 import { Button } from '@/components/ui/button';
+import { CategoryMenu } from '@/components/layout/CategoryMenu';
+import { NotificationBell } from '@/components/layout/NotificationBell';
 
 /**
  * Componente de navegación principal
@@ -46,6 +48,7 @@ export function MainNav() {
             {item.name}
           </Link>
         ))}
+        <CategoryMenu />
       </nav>
 
       {/* Sección de acciones de usuario */}
@@ -54,8 +57,9 @@ export function MainNav() {
           // Mostrar placeholder de carga mientras se verifica la sesión
           <div className="w-24 h-9 bg-gray-200 rounded animate-pulse"></div>
         ) : session ? (
-          // Usuario autenticado: Mostrar nombre y botón de cierre de sesión
+          // Usuario autenticado: Mostrar notificaciones, nombre y botón de cierre de sesión
           <div className="flex items-center space-x-2">
+            <NotificationBell />
             <span className="text-sm font-medium">
               {session.user?.name || 'Usuario'}
             </span>
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useNotifications } from '@/components/NotificationProvider';
+
+/**
+ * Campana del centro de notificaciones
+ * - Muestra el número de notificaciones sin leer
+ * - Despliega la lista de notificaciones y permite marcarlas como leídas
+ */
+export function NotificationBell() {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Cerrar el panel al hacer clic fuera de él
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleError = (error: unknown) =>
+    console.error('Error al actualizar las notificaciones:', error);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="relative rounded-md p-2 hover:bg-gray-100 transition-colors"
+        aria-label="Notificaciones"
+        aria-expanded={open}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-80 rounded-md border bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <span className="text-sm font-semibold">Notificaciones</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markAllAsRead().catch(handleError)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Marcar todas como leídas
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">No tienes notificaciones</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => markAsRead(notification.id).catch(handleError)}
+                    className={`w-full px-3 py-2 text-left hover:bg-gray-100 ${
+                      notification.read_at ? '' : 'bg-blue-50'
+                    }`}
+                  >
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-gray-600">{notification.message}</p>
+                    <p className="mt-1 text-[11px] text-gray-400">
+                      {new Date(notification.created_at).toLocaleString('es-CO')}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 // Importaciones de NextAuth y tipos necesarios
-import NextAuth, { type DefaultSession, type User, type Account, type Profile } from 'next-auth';
+import NextAuth, { CredentialsSignin, type DefaultSession, type User, type Account, type Profile } from 'next-auth';
 import type { AdapterUser } from 'next-auth/adapters';
 import Credentials from 'next-auth/providers/credentials';
 import Google from 'next-auth/providers/google';
 import type { NextAuthConfig } from 'next-auth';
 import type { JWT as DefaultJWT, JWT } from 'next-auth/jwt';
+import { cookies, headers } from 'next/headers';
 
 /**
  * Interfaz para el usuario personalizado
@@ -17,6 +18,8 @@ interface CustomUser {
   image?: string | null;
   role?: 'USER' | 'ADMIN';
   accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
 }
 
 /**
@@ -33,6 +36,7 @@ interface CustomSession extends DefaultSession {
     accessToken?: string;
   };
   accessToken?: string;
+  error?: 'RefreshAccessTokenError';
 }
 
 /**
@@ -60,6 +64,15 @@ interface CustomJWT {
   /** Token de acceso */
   accessToken?: string;
   
+  /** Refresh token rotativo emitido por el backend */
+  refreshToken?: string;
+  
+  /** Momento (ms) en que expira el token de acceso */
+  accessTokenExpires?: number;
+  
+  /** Error de la última renovación del token de acceso */
+  error?: 'RefreshAccessTokenError';
+  
   [key: string]: any;
 }
 
@@ -85,6 +98,9 @@ declare module 'next-auth/jwt' {
     image?: string | null;
     role?: 'USER' | 'ADMIN';
     accessToken?: string;
+    refreshToken?: string;
+    accessTokenExpires?: number;
+    error?: 'RefreshAccessTokenError';
     [key: string]: any;
   }
 }
@@ -108,6 +124,119 @@ if (!GOOGLE_CLIENT_SECRET) {
   throw new Error('NEXT_PUBLIC_GOOGLE_CLIENT_SECRET is not defined in environment variables');
 }
 
+/**
+ * Margen (ms) antes de la expiración del token de acceso en el que ya se renueva
+ */
+const ACCESS_TOKEN_REFRESH_MARGIN = 30 * 1000;
+
+/**
+ * Número de proxies inversos de confianza delante del servidor de Next.js (TRUSTED_PROXY_HOPS)
+ * Cada uno añade al final de X-Forwarded-For la dirección que vio. Next.js conserva la cabecera
+ * que envía el cliente y solo la rellena con la dirección del socket si no viene, así que sin
+ * proxies configurados la cabecera no es fiable y no se reenvía
+ */
+const TRUSTED_PROXY_HOPS = Math.max(Number.parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10) || 0, 0);
+
+/**
+ * Cabeceras con el origen real de la petición para las llamadas al backend
+ * Estas llamadas salen del servidor de Next.js; sin ellas el backend vería la misma IP
+ * para todos los usuarios (límites de intentos globales) y el registro de auditoría
+ * guardaría la IP y el navegador del servidor
+ * De X-Forwarded-For solo se reenvía la entrada que añadió el primer proxy de confianza;
+ * las anteriores las escribe el cliente
+ * @returns Cabeceras X-Forwarded-For y User-Agent del navegador, o vacío fuera de una petición
+ */
+async function getClientHeaders(): Promise<Record<string, string>> {
+  try {
+    const requestHeaders = await headers();
+    const forwardedFor = requestHeaders.get('x-forwarded-for')?.split(',').map((entry) => entry.trim()) ?? [];
+    const clientIp = TRUSTED_PROXY_HOPS > 0 ? forwardedFor[forwardedFor.length - TRUSTED_PROXY_HOPS] : undefined;
+    const userAgent = requestHeaders.get('user-agent');
+    return {
+      ...(clientIp && { 'X-Forwarded-For': clientIp }),
+      ...(userAgent && { 'User-Agent': userAgent }),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Cookie que guarda el desafío de la verificación en dos pasos entre la contraseña
+ * (o la cuenta de Google) y el código, sin exponerlo al navegador
+ */
+const TWO_FACTOR_CHALLENGE_COOKIE = 'two_factor_challenge';
+
+/**
+ * Página del segundo paso del inicio de sesión
+ */
+const TWO_FACTOR_PAGE = '/auth/two-factor';
+
+/**
+ * Error del inicio de sesión cuando la cuenta exige la verificación en dos pasos
+ * El cliente lo recibe como code = 'two_factor_required' y muestra el formulario del código
+ */
+class TwoFactorRequiredError extends CredentialsSignin {
+  code = 'two_factor_required';
+}
+
+/**
+ * Guarda el desafío de la verificación en dos pasos devuelto por el backend
+ * @param challengeToken - Token del desafío
+ * @param expiresIn - Segundos de validez del desafío
+ */
+async function saveTwoFactorChallenge(challengeToken: string, expiresIn: number): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(TWO_FACTOR_CHALLENGE_COOKIE, challengeToken, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: expiresIn,
+  });
+}
+
+/**
+ * Renueva el token de acceso con el refresh token guardado en el JWT de NextAuth
+ * El backend rota el refresh token en cada renovación, por lo que se guarda el nuevo
+ * @param token - Token JWT actual
+ * @returns Token JWT con los nuevos tokens, o marcado con error si no se pudo renovar
+ */
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    const response = await fetch(`${API_URL}/api/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getClientHeaders()),
+      },
+      body: JSON.stringify({ refreshToken: token.refreshToken }),
+    });
+
+    if (!response.ok) {
+      throw new Error('No se pudo renovar la sesión');
+    }
+
+    const { data } = await response.json();
+
+    return {
+      ...token,
+      accessToken: data.token,
+      refreshToken: data.refreshToken,
+      accessTokenExpires: Date.now() + data.expiresIn * 1000,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error('Error al renovar el token de acceso:', error);
+    return {
+      ...token,
+      accessToken: undefined,
+      refreshToken: undefined,
+      error: 'RefreshAccessTokenError',
+    };
+  }
+}
+
 // Configuración de NextAuth
 export const authConfig: NextAuthConfig = {
   
@@ -157,6 +286,7 @@ export const authConfig: NextAuthConfig = {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
+              ...(await getClientHeaders()),
             },
             body: JSON.stringify({
               email: credentials.email,
@@ -166,30 +296,91 @@ export const authConfig: NextAuthConfig = {
 
           if (!response.ok) {
             const error = await response.json();
-            throw new Error(error.message || 'Login failed');
+            throw new Error(error.error?.message || error.message || 'Login failed');
           }
 
-          const user = await response.json();
+          const { data } = await response.json();
           
-          if (!user) {
+          // Cuenta con verificación en dos pasos: el código se pide en una segunda página
+          if (data?.twoFactorRequired) {
+            await saveTwoFactorChallenge(data.challengeToken, data.expiresIn);
+            throw new TwoFactorRequiredError();
+          }
+          
+          if (!data?.user) {
             throw new Error('No user found with this email');
           }
 
           // Asegurarse de que el objeto de usuario tenga los campos necesarios
           return {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            role: user.role || 'user',
-            accessToken: user.token || user.accessToken,
+            id: String(data.user.id),
+            name: data.user.name,
+            email: data.user.email,
+            role: data.user.role || 'USER',
+            accessToken: data.token,
+            refreshToken: data.refreshToken,
+            expiresIn: data.expiresIn,
           };
         } catch (error) {
+          if (error instanceof TwoFactorRequiredError) {
+            throw error;
+          }
           console.error('Error during authentication:', error);
           throw new Error(error instanceof Error ? error.message : 'Authentication failed');
         }
       }
     }),
     
+    // Segundo paso del inicio de sesión: código de la app de autenticación o código de recuperación
+    Credentials({
+      id: 'two-factor',
+      name: 'TwoFactor',
+      credentials: {
+        code: { label: 'Código', type: 'text' },
+        recoveryCode: { label: 'Código de recuperación', type: 'text' },
+      },
+      async authorize(credentials) {
+        const cookieStore = await cookies();
+        const challengeToken = cookieStore.get(TWO_FACTOR_CHALLENGE_COOKIE)?.value;
+        
+        if (!challengeToken) {
+          return null;
+        }
+        
+        const response = await fetch(`${API_URL}/api/login/2fa`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(await getClientHeaders()),
+          },
+          body: JSON.stringify({
+            challengeToken,
+            code: credentials?.code || undefined,
+            recoveryCode: credentials?.recoveryCode || undefined,
+          }),
+        });
+        
+        // Código incorrecto: el desafío se conserva para volver a intentarlo mientras siga vigente
+        if (!response.ok) {
+          console.error('Error en la verificación en dos pasos:', response.status);
+          return null;
+        }
+        
+        const { data } = await response.json();
+        cookieStore.delete(TWO_FACTOR_CHALLENGE_COOKIE);
+        
+        return {
+          id: String(data.user.id),
+          name: data.user.name,
+          email: data.user.email,
+          role: data.user.role || 'USER',
+          accessToken: data.token,
+          refreshToken: data.refreshToken,
+          expiresIn: data.expiresIn,
+        };
+      }
+    }),
+    
     // Autenticación con Google
     ...(GOOGLE_CLIENT_ID && GOOGLE_CLIENT_SECRET ? [
       Google({
@@ -218,6 +409,61 @@ export const authConfig: NextAuthConfig = {
   
   // Callbacks para personalizar el comportamiento de autenticación
   callbacks: {
+    /**
+     * Callback que se ejecuta antes de completar el inicio de sesión
+     * Con Google, envía el token de Google al backend y guarda sus tokens en el usuario
+     * (el callback jwt los copia al token); si la cuenta tiene la verificación en dos pasos
+     * activa, redirige a la página del código
+     * @param params - Parámetros del callback signIn
+     * @param params.user - Usuario devuelto por el proveedor
+     * @param params.account - Información de la cuenta del proveedor (OAuth)
+     * @returns true para continuar o la URL a la que redirigir
+     */
+    async signIn({ user, account }) {
+      if (account?.provider !== 'google' || !account.id_token) {
+        return true;
+      }
+      
+      try {
+        const response = await fetch(`${API_URL}/api/google-login`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(await getClientHeaders()),
+          },
+          body: JSON.stringify({
+            token: account.id_token,
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error?.message || error.message || 'Error al autenticar con Google');
+        }
+
+        const { data } = await response.json();
+        
+        if (data.twoFactorRequired) {
+          await saveTwoFactorChallenge(data.challengeToken, data.expiresIn);
+          return TWO_FACTOR_PAGE;
+        }
+        
+        // Datos del usuario y tokens del backend
+        user.id = String(data.user.id);
+        user.role = data.user.role;
+        user.name = data.user.name;
+        user.email = data.user.email;
+        user.image = data.user.avatar_url;
+        user.accessToken = data.token;
+        user.refreshToken = data.refreshToken;
+        user.expiresIn = data.expiresIn;
+        return true;
+      } catch (error) {
+        console.error('Error en la autenticación con Google:', error);
+        return false;
+      }
+    },
+    
     /**
      * Callback que se ejecuta cuando se genera un JWT
      * Se usa para personalizar el token con información adicional del usuario
@@ -228,61 +474,20 @@ export const authConfig: NextAuthConfig = {
      * @returns Token JWT actualizado
      */
     async jwt({ token, user, account, trigger, session, profile }) {
-      // Enviar el token de Google al backend solo en el primer inicio de sesión
-      if (account?.provider === 'google' && account?.id_token) {
-        try {
-          const response = await fetch(`${API_URL}/api/google-login`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              token: account.id_token,
-            }),
-            credentials: 'include' // Importante para las cookies
-          });
-
-          if (!response.ok) {
-            const error = await response.json();
-            throw new Error(error.message || 'Error al autenticar con Google');
-          }
-
-          const data = await response.json();
-          
-          // Actualizar el token con la respuesta del backend
-          token.accessToken = data.data.token;
-          token.role = data.data.user.role;
-          token.id = data.data.user.id;
-          token.name = data.data.user.name;
-          token.email = data.data.user.email;
-          token.image = data.data.user.avatar_url;
-          
-          // Si hay un usuario, actualizar sus datos
-          if (user) {
-            user.id = data.data.user.id;
-            user.role = data.data.user.role;
-            user.name = data.data.user.name;
-            user.email = data.data.user.email;
-            user.image = data.data.user.avatar_url;
-          }
-        } catch (error) {
-          console.error('Error en la autenticación con Google:', error);
-          throw error;
-        }
-      } else if (account?.provider === 'google' && account?.access_token) {
-        // Si ya tenemos un token de acceso de Google
-        token.accessToken = account.access_token;
-        token.id = token.sub || '';
-        token.role = token.role || 'USER';
-      }
-      
       // Si es el primer inicio de sesión, añadir los datos del usuario al token
       if (user) {
         token.id = user.id;
         token.role = (user.role as Role) || 'USER';
+        if (user.image) {
+          token.image = user.image;
+        }
         if (user.accessToken) {
           token.accessToken = user.accessToken;
         }
+        if (user.refreshToken && user.expiresIn) {
+          token.refreshToken = user.refreshToken;
+          token.accessTokenExpires = Date.now() + user.expiresIn * 1000;
+        }
       }
       
       // Si es una actualización de sesión
@@ -290,6 +495,15 @@ export const authConfig: NextAuthConfig = {
         return { ...token, ...session.user };
       }
       
+      // Renovar el token de acceso con el refresh token cuando esté por expirar
+      if (
+        token.refreshToken &&
+        token.accessTokenExpires &&
+        Date.now() >= token.accessTokenExpires - ACCESS_TOKEN_REFRESH_MARGIN
+      ) {
+        return refreshAccessToken(token);
+      }
+      
       return token;
     },
     
@@ -322,10 +536,42 @@ export const authConfig: NextAuthConfig = {
         (session as any).accessToken = customToken.accessToken;
       }
       
+      // Informar al cliente si no se pudo renovar la sesión
+      if (customToken.error) {
+        (session as any).error = customToken.error;
+      }
+      
       return session as CustomSession;
     },
   },
   
+  // Eventos de autenticación
+  events: {
+    /**
+     * Revoca en el backend el refresh token de la sesión al cerrar sesión
+     * @param message - Datos de la sesión que se cierra (token JWT con estrategia 'jwt')
+     */
+    async signOut(message) {
+      const token = 'token' in message ? message.token : null;
+      if (!token?.refreshToken) {
+        return;
+      }
+
+      try {
+        await fetch(`${API_URL}/api/logout`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(await getClientHeaders()),
+          },
+          body: JSON.stringify({ refreshToken: token.refreshToken }),
+        });
+      } catch (error) {
+        console.error('Error al revocar la sesión en el backend:', error);
+      }
+    },
+  },
+  
   // Habilitar mensajes de depuración en desarrollo
   debug: process.env.NODE_ENV === 'development',
   secret: process.env.NEXT_PUBLIC_NEXTAUTH_SECRET,
@@ -1,5 +1,5 @@
 import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { signOut } from 'next-auth/react';
+import { getSession, signOut } from 'next-auth/react';
 
 // Tipos para errores de la API
 export interface ApiError {
@@ -17,6 +17,37 @@ const api: AxiosInstance = axios.create({
   withCredentials: true,
 });
 
+// Renovación en curso, compartida por todas las peticiones que fallen con 401 a la vez
+// (el backend rota el refresh token, así que dos renovaciones simultáneas revocarían la sesión)
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Obtiene un token de acceso renovado
+ * Al consultar la sesión, NextAuth renueva el token con el refresh token si está por expirar
+ * @returns Nuevo token de acceso, o null si la sesión no se pudo renovar
+ */
+const refreshToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = getSession()
+      .then((session) => (session && !session.error ? session.accessToken ?? null : null))
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Interceptor para adjuntar el token de acceso de la sesión a las peticiones que no lo indiquen
+api.interceptors.request.use(async (config: AxiosRequestConfig) => {
+  if (typeof window !== 'undefined' && !config.headers?.Authorization) {
+    const session = await getSession();
+    if (session?.accessToken && !session.error) {
+      config.headers = { ...config.headers, Authorization: `Bearer ${session.accessToken}` };
+    }
+  }
+  return config;
+});
+
 // Interceptor para manejar errores
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
@@ -28,10 +59,13 @@ api.interceptors.response.use(
       originalRequest._retry = true;
       
       try {
-        // Intentar renovar el token aquí si es necesario
-        // const newToken = await refreshToken();
-        // originalRequest.headers.Authorization = `Bearer ${newToken}`;
-        // return api(originalRequest);
+        // Renovar el token y reintentar la petición original
+        const newToken = await refreshToken();
+        const previousAuthorization = originalRequest.headers?.Authorization;
+        if (newToken && previousAuthorization !== `Bearer ${newToken}`) {
+          originalRequest.headers = { ...originalRequest.headers, Authorization: `Bearer ${newToken}` };
+          return api(originalRequest);
+        }
         
         // Si no se puede renovar, cerrar sesión
         await signOut({ redirect: false });
@@ -0,0 +1,42 @@
+/**
+ * Peticiones a las rutas de cuenta del backend que se usan fuera de la sesión de NextAuth
+ * (restablecimiento de contraseña y verificación del correo)
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+
+/**
+ * Envía una petición POST al backend y devuelve el mensaje de la respuesta
+ * @param path - Ruta del backend (ej: /api/forgot-password)
+ * @param body - Datos a enviar
+ * @param accessToken - Token de acceso, para las rutas que requieren sesión
+ * @returns Mensaje de éxito devuelto por el backend
+ * @throws {Error} Con el mensaje de error del backend si la petición falla
+ */
+export async function postAccountRequest(
+  path: string,
+  body?: Record<string, string>,
+  accessToken?: string
+): Promise<string> {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    // Los errores de validación traen el detalle de cada campo en error.details
+    throw new Error(
+      data?.error?.details?.[0]?.msg ||
+        data?.error?.message ||
+        'Ocurrió un error inesperado. Por favor, inténtalo de nuevo.'
+    );
+  }
+
+  return data?.message ?? '';
+}
@@ -6,6 +6,10 @@ import { getToken } from 'next-auth/jwt';
 const publicRoutes = [
   '/auth/login',
   '/auth/register',
+  '/auth/two-factor',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
   '/auth/error',
   '/',
   '/api/auth',
@@ -0,0 +1,12 @@
+/**
+ * Nodo del árbol de categorías devuelto por GET /api/categories/tree
+ */
+export interface CategoryTreeNode {
+  id: number;
+  name: string;
+  slug: string;
+  parentId: number | null;
+  productCount: number;
+  totalProductCount: number;
+  children: CategoryTreeNode[];
+}
@@ -0,0 +1,21 @@
+/**
+ * Tipos de notificación que genera el backend (coinciden con los eventos de Socket.IO)
+ */
+export type NotificationType =
+  | 'order:status-changed'
+  | 'order:created'
+  | 'product:low-stock'
+  | 'question:answered';
+
+/**
+ * Notificación guardada del usuario (GET /api/notifications y evento 'notification:created')
+ */
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  read_at: string | null;
+  created_at: string;
+}